@@ -0,0 +1,59 @@
+// Service worker: menyimpan app shell supaya aplikasi tetap terbuka saat sinyal hilang.
+// Data order offline disimpan aplikasi sendiri di IndexedDB, bukan di sini.
+// Kedua penanda di bawah diisi saat build (lihat vite.config.ts); versi baru berarti cache baru
+const BUILD_VERSION = '__BUILD_VERSION__';
+const BUILD_FILES = [/* __BUILD_FILES__ */];
+const SHELL_CACHE = `lajutuju-shell-${BUILD_VERSION}`;
+const SHELL_FILES = ['./', './manifest.webmanifest', './lajutuju.png', './icon-192.png', './icon-512.png', ...BUILD_FILES];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_FILES))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      // Aset hash dari build lama tidak dipakai lagi
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Request ke Supabase dan domain lain tidak pernah di-cache
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Halaman: utamakan versi terbaru, jatuh ke shell tersimpan saat offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          // Halaman error (mis. 404 atau 500) tidak boleh menggantikan shell yang tersimpan
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(SHELL_CACHE).then((cache) => cache.put('./', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('./'))
+    );
+    return;
+  }
+
+  // Aset build memakai hash di nama file, jadi aman diambil dari cache dulu
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
@@ -1,17 +1,36 @@
-import { useState } from 'react';
-import { Plus, FileText, BarChart3, LogOut } from 'lucide-react';
+import { useCallback, useState } from 'react';
+import { Plus, FileText, BarChart3, LogOut, Car, Users, Settings, CalendarDays, UserCog, Contact } from 'lucide-react';
 import OrderList from './components/OrderList';
 import OrderForm from './components/OrderForm';
 import InvoicePrint from './components/InvoicePrint';
 import MonthlyReport from './components/MonthlyReport';
+import FleetCalendar from './components/FleetCalendar';
+import VehicleList from './components/VehicleList';
+import DriverList from './components/DriverList';
+import CustomerList from './components/CustomerList';
+import SettingsPage from './components/SettingsPage';
+import TeamPage from './components/TeamPage';
+import SyncStatus from './components/SyncStatus';
 import Auth from './components/Auth';
 import { useAuth } from './contexts/AuthContext';
 import { OrderWithItems } from './lib/supabase';
+import { canManageBusiness, canWriteOrders } from './lib/roles';
 
-type ViewMode = 'orders' | 'reports';
+type ViewMode = 'orders' | 'calendar' | 'reports' | 'vehicles' | 'drivers' | 'customers' | 'team' | 'settings';
+
+const tabs: { mode: ViewMode; label: string; shortLabel: string; icon: typeof FileText }[] = [
+  { mode: 'orders', label: 'Daftar Order', shortLabel: 'Order', icon: FileText },
+  { mode: 'calendar', label: 'Kalender Armada', shortLabel: 'Kalender', icon: CalendarDays },
+  { mode: 'reports', label: 'Laporan Bulanan', shortLabel: 'Laporan', icon: BarChart3 },
+  { mode: 'vehicles', label: 'Armada', shortLabel: 'Armada', icon: Car },
+  { mode: 'drivers', label: 'Sopir', shortLabel: 'Sopir', icon: Contact },
+  { mode: 'customers', label: 'Pelanggan', shortLabel: 'Pelanggan', icon: Users },
+  { mode: 'team', label: 'Tim', shortLabel: 'Tim', icon: UserCog },
+  { mode: 'settings', label: 'Pengaturan', shortLabel: 'Atur', icon: Settings },
+];
 
 function App() {
-  const { user, loading, signOut } = useAuth();
+  const { user, profile, loading, signOut } = useAuth();
 
   // 🧩 Semua hook harus dideklarasikan di atas, sebelum ada return
   const [viewMode, setViewMode] = useState<ViewMode>('orders');
@@ -21,7 +40,7 @@ function App() {
   const [printOrder, setPrintOrder] = useState<OrderWithItems | null>(null);
   const [refresh, setRefresh] = useState(0);
 
-  const handleSuccess = () => setRefresh(prev => prev + 1);
+  const handleSuccess = useCallback(() => setRefresh(prev => prev + 1), []);
   const handleEdit = (order: OrderWithItems) => {
     setEditOrder(order);
     setShowForm(true);
@@ -54,6 +73,10 @@ function App() {
     return <Auth />;
   }
 
+  const canWrite = canWriteOrders(profile);
+  // Pengaturan usaha hanya untuk pemilik dan admin
+  const visibleTabs = tabs.filter(({ mode }) => mode !== 'settings' || canManageBusiness(profile));
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-white to-yellow-50">
       <div className="container mx-auto px-4 py-6 sm:py-8 max-w-7xl">
@@ -74,7 +97,7 @@ function App() {
                 </div>
               </div>
               <div className="flex items-center gap-3">
-                {viewMode === 'orders' && (
+                {viewMode === 'orders' && canWrite && (
                   <button
                     onClick={() => {
                       setEditOrder(null);
@@ -86,6 +109,7 @@ function App() {
                     <span>Tambah Order</span>
                   </button>
                 )}
+                <SyncStatus onSynced={handleSuccess} />
                 <button
                   onClick={signOut}
                   className="flex items-center justify-center gap-2 px-4 py-3 bg-slate-600 text-white rounded-xl hover:bg-slate-700 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5 font-medium"
@@ -97,44 +121,40 @@ function App() {
               </div>
             </div>
 
-            <div className="flex gap-2 border-t border-gray-200 pt-4">
-              <button
-                onClick={() => setViewMode('orders')}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
-                  viewMode === 'orders'
-                    ? 'bg-orange-600 text-white shadow-md'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                <FileText className="w-5 h-5" />
-                <span className="hidden sm:inline">Daftar Order</span>
-                <span className="sm:hidden">Order</span>
-              </button>
-              <button
-                onClick={() => setViewMode('reports')}
-                className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
-                  viewMode === 'reports'
-                    ? 'bg-orange-600 text-white shadow-md'
-                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                }`}
-              >
-                <BarChart3 className="w-5 h-5" />
-                <span className="hidden sm:inline">Laporan Bulanan</span>
-                <span className="sm:hidden">Laporan</span>
-              </button>
+            <div className="flex gap-2 border-t border-gray-200 pt-4 overflow-x-auto">
+              {visibleTabs.map(({ mode, label, shortLabel, icon: Icon }) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all whitespace-nowrap ${
+                    viewMode === mode
+                      ? 'bg-orange-600 text-white shadow-md'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <Icon className="w-5 h-5" />
+                  <span className="hidden sm:inline">{label}</span>
+                  <span className="sm:hidden">{shortLabel}</span>
+                </button>
+              ))}
             </div>
           </div>
         </div>
 
-        {viewMode === 'orders' ? (
+        {viewMode === 'orders' && (
           <OrderList
             onEdit={handleEdit}
             onPrint={handlePrint}
             refresh={refresh}
           />
-        ) : (
-          <MonthlyReport />
         )}
+        {viewMode === 'calendar' && <FleetCalendar onEdit={canWrite ? handleEdit : handlePrint} refresh={refresh} />}
+        {viewMode === 'reports' && <MonthlyReport onPrint={handlePrint} />}
+        {viewMode === 'vehicles' && <VehicleList />}
+        {viewMode === 'drivers' && <DriverList />}
+        {viewMode === 'customers' && <CustomerList onPrint={handlePrint} />}
+        {viewMode === 'team' && <TeamPage />}
+        {viewMode === 'settings' && canManageBusiness(profile) && <SettingsPage />}
 
         {showForm && (
           <OrderForm
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { supabase, CustomerSummary, OrderWithItems } from '../lib/supabase';
+import { ORDER_STATUS_BADGES, ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { PAYMENT_STATUS_BADGES, PAYMENT_STATUS_LABELS, getOutstandingAmount } from '../lib/payments';
+import { ArrowLeft, Printer, Phone, MapPin } from 'lucide-react';
+
+interface CustomerDetailProps {
+  customerId: string;
+  onBack: () => void;
+  onPrint: (order: OrderWithItems) => void;
+}
+
+export default function CustomerDetail({ customerId, onBack, onPrint }: CustomerDetailProps) {
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCustomer = async () => {
+      try {
+        const [{ data: customerData, error: customerError }, { data: ordersData, error: ordersError }] = await Promise.all([
+          supabase.from('customer_summaries').select('*').eq('id', customerId).single(),
+          supabase
+            .from('orders')
+            .select('*, order_items(*)')
+            .eq('customer_id', customerId)
+            .order('order_date', { ascending: false })
+        ]);
+
+        if (customerError) throw customerError;
+        if (ordersError) throw ordersError;
+
+        setCustomer(customerData);
+        setOrders(ordersData || []);
+      } catch (error) {
+        console.error('Error fetching customer:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCustomer();
+  }, [customerId]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+        <p className="text-gray-500 text-lg mb-4">Pelanggan tidak ditemukan</p>
+        <button onClick={onBack} className="text-orange-600 font-medium hover:underline">Kembali ke daftar</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          Semua pelanggan
+        </button>
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{customer.name}</h2>
+        <div className="flex flex-col sm:flex-row gap-2 sm:gap-6 mt-2 text-sm text-gray-600">
+          <span className="flex items-center gap-2"><Phone className="w-4 h-4" />{customer.phone}</span>
+          {customer.address && <span className="flex items-center gap-2"><MapPin className="w-4 h-4" />{customer.address}</span>}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6">
+          <div className="bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200 rounded-lg p-4">
+            <span className="text-sm font-medium text-orange-900">Jumlah Order</span>
+            <p className="text-3xl font-bold text-orange-600">{customer.order_count}</p>
+          </div>
+          <div className="bg-gradient-to-br from-green-50 to-green-100 border border-green-200 rounded-lg p-4">
+            <span className="text-sm font-medium text-green-900">Total Belanja</span>
+            <p className="text-2xl sm:text-3xl font-bold text-green-600">{formatCurrency(customer.total_spend)}</p>
+          </div>
+          <div className="bg-gradient-to-br from-red-50 to-red-100 border border-red-200 rounded-lg p-4">
+            <span className="text-sm font-medium text-red-900">Sisa Tagihan</span>
+            <p className="text-2xl sm:text-3xl font-bold text-red-600">{formatCurrency(customer.outstanding_amount)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-orange-600 text-white">
+                <th className="text-left px-4 py-3 font-semibold">Invoice</th>
+                <th className="text-left px-4 py-3 font-semibold">Periode</th>
+                <th className="text-left px-4 py-3 font-semibold hidden md:table-cell">Kendaraan</th>
+                <th className="text-center px-4 py-3 font-semibold">Status</th>
+                <th className="text-right px-4 py-3 font-semibold">Total</th>
+                <th className="text-right px-4 py-3 font-semibold">Sisa</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map((order, index) => (
+                <tr key={order.id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="px-4 py-3 border-b border-gray-200 font-mono text-xs whitespace-nowrap">{order.invoice_number}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 whitespace-nowrap">
+                    {formatDate(order.rental_start_date)} - {formatDate(order.rental_end_date)}
+                  </td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-gray-600 hidden md:table-cell">
+                    {order.order_items.map(item => item.car_type).join(', ')}
+                  </td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-center">
+                    <div className="flex flex-col items-center gap-1">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ORDER_STATUS_BADGES[order.status]}`}>
+                        {ORDER_STATUS_LABELS[order.status]}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${PAYMENT_STATUS_BADGES[order.payment_status]}`}>
+                        {PAYMENT_STATUS_LABELS[order.payment_status]}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right font-semibold whitespace-nowrap">{formatCurrency(order.total_amount)}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right text-red-600 whitespace-nowrap">
+                    {order.status === 'cancelled' ? '-' : formatCurrency(getOutstandingAmount(order))}
+                  </td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right">
+                    <button
+                      onClick={() => onPrint(order)}
+                      className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                      title="Cetak invoice"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
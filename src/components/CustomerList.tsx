@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { supabase, CustomerSummary, OrderWithItems } from '../lib/supabase';
+import { normalizePhone } from '../lib/phone';
+import CustomerDetail from './CustomerDetail';
+import { Users, Search, ChevronRight } from 'lucide-react';
+
+interface CustomerListProps {
+  onPrint: (order: OrderWithItems) => void;
+}
+
+export default function CustomerList({ onPrint }: CustomerListProps) {
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      try {
+        let query = supabase
+          .from('customer_summaries')
+          .select('*')
+          .order('last_order_date', { ascending: false, nullsFirst: false })
+          .limit(100);
+
+        const keyword = search.trim();
+        if (keyword) {
+          const digits = normalizePhone(keyword);
+          query = /\d{3,}/.test(keyword) && digits
+            ? query.like('phone_normalized', `%${digits}%`)
+            : query.ilike('name', `%${keyword}%`);
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        setCustomers(data || []);
+      } catch (error) {
+        console.error('Error fetching customers:', error);
+      } finally {
+        setLoading(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  if (selectedId) {
+    return (
+      <CustomerDetail
+        customerId={selectedId}
+        onBack={() => setSelectedId(null)}
+        onPrint={onPrint}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-orange-600 p-3 rounded-lg">
+              <Users className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Pelanggan</h2>
+              <p className="text-sm text-gray-600">Riwayat order dan tagihan per pelanggan</p>
+            </div>
+          </div>
+          <div className="relative sm:w-80">
+            <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Cari nama atau nomor HP..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : customers.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">{search ? 'Pelanggan tidak ditemukan' : 'Belum ada pelanggan'}</p>
+          <p className="text-gray-400 text-sm mt-2">Pelanggan tercatat otomatis dari order yang disimpan</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden divide-y divide-gray-200">
+          {customers.map(customer => (
+            <button
+              key={customer.id}
+              onClick={() => setSelectedId(customer.id)}
+              className="w-full flex items-center gap-4 p-4 text-left hover:bg-orange-50 transition-colors"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{customer.name}</p>
+                <p className="text-sm text-gray-600">{customer.phone}</p>
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-semibold text-gray-900">{formatCurrency(customer.total_spend)}</p>
+                <p className="text-gray-500">{customer.order_count} order</p>
+                {customer.outstanding_amount > 0 && (
+                  <p className="text-red-600 font-medium">Sisa {formatCurrency(customer.outstanding_amount)}</p>
+                )}
+              </div>
+              <ChevronRight className="w-5 h-5 text-gray-400 flex-shrink-0" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,376 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, DepositType, DepositWithheldFor, OrderDeposit, OrderWithItems } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  DEPOSIT_STATUS_BADGES,
+  DEPOSIT_STATUS_LABELS,
+  DEPOSIT_TYPES,
+  DEPOSIT_WITHHELD_FOR,
+  formatDepositDetail,
+  getDepositTypeLabel,
+  getWithheldForLabel
+} from '../lib/deposits';
+import { getOutstandingAmount } from '../lib/payments';
+import { canDeleteOrders, canWriteOrders } from '../lib/roles';
+import { X, Plus, Trash2, ShieldCheck } from 'lucide-react';
+
+interface DepositPanelProps {
+  order: OrderWithItems;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+type Settlement = {
+  deposit: OrderDeposit;
+  status: 'returned' | 'withheld';
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function DepositPanel({ order, onClose, onChange }: DepositPanelProps) {
+  const { profile } = useAuth();
+  const canWrite = canWriteOrders(profile);
+  const [deposits, setDeposits] = useState<OrderDeposit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [depositType, setDepositType] = useState<DepositType>('cash');
+  const [amount, setAmount] = useState(0);
+  const [description, setDescription] = useState('');
+  const [receivedDate, setReceivedDate] = useState(today());
+  const [settlement, setSettlement] = useState<Settlement | null>(null);
+  const [settledDate, setSettledDate] = useState(today());
+  const [withheldAmount, setWithheldAmount] = useState(0);
+  const [withheldFor, setWithheldFor] = useState<DepositWithheldFor>('damage');
+  const [withheldReason, setWithheldReason] = useState('');
+
+  const fetchDeposits = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_deposits')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('received_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setDeposits(data || []);
+    } catch (error) {
+      console.error('Error fetching deposits:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    fetchDeposits();
+  }, [fetchDeposits]);
+
+  const isCash = depositType === 'cash';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isCash && amount <= 0) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('order_deposits').insert({
+        order_id: order.id,
+        deposit_type: depositType,
+        amount: amount > 0 ? amount : null,
+        description: description.trim() || null,
+        received_date: receivedDate
+      });
+      if (error) throw error;
+
+      setAmount(0);
+      setDescription('');
+      await fetchDeposits();
+      onChange();
+    } catch (error) {
+      console.error('Error saving deposit:', error);
+      alert('Gagal menyimpan jaminan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openSettlement = (deposit: OrderDeposit, status: Settlement['status']) => {
+    setSettlement({ deposit, status });
+    setSettledDate(today());
+    setWithheldAmount(0);
+    setWithheldFor('damage');
+    setWithheldReason('');
+  };
+
+  const settleDeposit = async (deposit: OrderDeposit, status: OrderDeposit['status']) => {
+    const withheld = status === 'withheld';
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('settle_order_deposit', {
+        p_deposit_id: deposit.id,
+        p_status: status,
+        p_settled_date: settledDate,
+        p_withheld_amount: withheld ? withheldAmount : null,
+        p_withheld_reason: withheld ? withheldReason.trim() : null,
+        p_withheld_for: withheld ? withheldFor : null
+      });
+      if (error) throw error;
+
+      setSettlement(null);
+      await fetchDeposits();
+      onChange();
+    } catch (error) {
+      console.error('Error settling deposit:', error);
+      alert('Gagal memperbarui jaminan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSettle = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settlement) return;
+    if (settlement.status === 'withheld') {
+      if (withheldAmount <= 0 || !withheldReason.trim()) return;
+      const { deposit } = settlement;
+      if (deposit.deposit_type === 'cash' && withheldAmount > Number(deposit.amount)) {
+        alert('Potongan tidak boleh melebihi nominal jaminan');
+        return;
+      }
+    }
+    settleDeposit(settlement.deposit, settlement.status);
+  };
+
+  const cancelSettlement = (deposit: OrderDeposit) => {
+    const message = deposit.status === 'withheld'
+      ? 'Batalkan potongan jaminan? Pembayaran dan biaya ganti rugi dari potongan ini ikut dihapus.'
+      : 'Tandai jaminan ini masih dipegang?';
+    if (!confirm(message)) return;
+    settleDeposit(deposit, 'held');
+  };
+
+  const deleteDeposit = async (id: string) => {
+    if (!confirm('Yakin ingin menghapus jaminan ini?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('order_deposits')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await fetchDeposits();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting deposit:', error);
+      alert('Gagal menghapus jaminan');
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(value);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent';
+  const outstanding = getOutstandingAmount(order);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Jaminan</h2>
+            <p className="text-sm text-gray-600">{order.customer_name} · <span className="font-mono">{order.invoice_number}</span></p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : deposits.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <ShieldCheck className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+              <p>Belum ada jaminan tercatat</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {deposits.map(deposit => (
+                <div key={deposit.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-semibold text-gray-900">{getDepositTypeLabel(deposit.deposit_type)}</p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DEPOSIT_STATUS_BADGES[deposit.status]}`}>
+                          {DEPOSIT_STATUS_LABELS[deposit.status]}
+                        </span>
+                      </div>
+                      <p className="text-gray-700">{formatDepositDetail(deposit, formatCurrency)}</p>
+                      <p className="text-gray-500">
+                        Diterima {formatDate(deposit.received_date)}
+                        {deposit.settled_date && ` · ${DEPOSIT_STATUS_LABELS[deposit.status]} ${formatDate(deposit.settled_date)}`}
+                      </p>
+                      {deposit.status === 'withheld' && deposit.withheld_amount !== null && (
+                        <p className="text-red-700 mt-1">
+                          Dipotong {formatCurrency(deposit.withheld_amount)}
+                          {deposit.withheld_for && ` untuk ${getWithheldForLabel(deposit.withheld_for).toLowerCase()}`}
+                          {deposit.withheld_reason && `: ${deposit.withheld_reason}`}
+                        </p>
+                      )}
+                    </div>
+                    {canDeleteOrders(profile) && deposit.status === 'held' && (
+                      <button
+                        onClick={() => deleteDeposit(deposit.id)}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                        title="Hapus"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
+                  {canWrite && settlement?.deposit.id !== deposit.id && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {deposit.status === 'held' ? (
+                        <>
+                          <button
+                            onClick={() => openSettlement(deposit, 'returned')}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-700 text-white hover:bg-slate-800 transition-colors"
+                          >
+                            Kembalikan
+                          </button>
+                          <button
+                            onClick={() => openSettlement(deposit, 'withheld')}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                          >
+                            Potong / Tahan
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => cancelSettlement(deposit)}
+                          disabled={saving}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50"
+                        >
+                          Batalkan
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {settlement?.deposit.id === deposit.id && (
+                    <form onSubmit={handleSettle} className="mt-3 pt-3 border-t border-gray-200 space-y-3">
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            {settlement.status === 'returned' ? 'Tanggal Dikembalikan *' : 'Tanggal Dipotong *'}
+                          </label>
+                          <input type="date" required min={deposit.received_date} value={settledDate}
+                            onChange={(e) => setSettledDate(e.target.value)} className={`${inputClass} bg-white`} />
+                        </div>
+                        {settlement.status === 'withheld' && (
+                          <>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">Nominal Dipotong *</label>
+                              <input type="number" required min={1} max={deposit.deposit_type === 'cash' ? Number(deposit.amount) : undefined}
+                                value={withheldAmount || ''} onChange={(e) => setWithheldAmount(parseFloat(e.target.value) || 0)}
+                                className={`${inputClass} bg-white`} />
+                              {withheldFor === 'late_fee' && outstanding > 0 && (
+                                <button type="button"
+                                  onClick={() => setWithheldAmount(deposit.deposit_type === 'cash' ? Math.min(outstanding, Number(deposit.amount)) : outstanding)}
+                                  className="text-xs text-orange-600 hover:underline mt-1">
+                                  Isi sisa tagihan
+                                </button>
+                              )}
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">Untuk *</label>
+                              <select value={withheldFor} onChange={(e) => setWithheldFor(e.target.value as DepositWithheldFor)}
+                                className={`${inputClass} bg-white`}>
+                                {DEPOSIT_WITHHELD_FOR.map(option => (
+                                  <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-600 mb-1">Alasan *</label>
+                              <input type="text" required value={withheldReason} onChange={(e) => setWithheldReason(e.target.value)}
+                                placeholder="misal: bumper belakang penyok" className={`${inputClass} bg-white`} />
+                            </div>
+                          </>
+                        )}
+                      </div>
+                      {settlement.status === 'withheld' && (
+                        <p className="text-xs text-gray-500">
+                          {withheldFor === 'damage' && 'Biaya ganti rugi ditambahkan ke order. '}
+                          {deposit.deposit_type === 'cash'
+                            ? 'Potongan dicatat sebagai pembayaran order; sisanya dikembalikan ke pelanggan.'
+                            : 'Barang jaminan ditahan sampai tagihan dilunasi.'}
+                        </p>
+                      )}
+                      <div className="flex gap-2">
+                        <button type="button" onClick={() => setSettlement(null)}
+                          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors text-sm font-medium">
+                          Batal
+                        </button>
+                        <button type="submit" disabled={saving}
+                          className="flex-1 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                          {saving ? 'Menyimpan...' : 'Simpan'}
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canWrite && (
+            <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-6 space-y-3">
+              <h3 className="text-lg font-semibold text-gray-900">Terima Jaminan</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Jenis *</label>
+                  <select value={depositType} onChange={(e) => setDepositType(e.target.value as DepositType)}
+                    className={`${inputClass} bg-white`}>
+                    {DEPOSIT_TYPES.map(type => (
+                      <option key={type.value} value={type.value}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{isCash ? 'Nominal *' : 'Taksiran Nilai'}</label>
+                  <input type="number" required={isCash} min={isCash ? 1 : 0} value={amount || ''}
+                    onChange={(e) => setAmount(parseFloat(e.target.value) || 0)} className={inputClass} />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Tanggal Diterima *</label>
+                  <input type="date" required value={receivedDate} onChange={(e) => setReceivedDate(e.target.value)}
+                    className={inputClass} />
+                </div>
+                <div className="sm:col-span-3">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Keterangan{isCash ? '' : ' *'}</label>
+                  <input type="text" required={!isCash} value={description} onChange={(e) => setDescription(e.target.value)}
+                    placeholder={isCash ? 'misal: diterima oleh Budi' : 'misal: Honda Beat B 1234 XYZ + STNK'}
+                    className={inputClass} />
+                </div>
+              </div>
+              <button type="submit" disabled={saving || (isCash && amount <= 0)}
+                className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                <Plus className="w-4 h-4" />
+                {saving ? 'Menyimpan...' : 'Simpan Jaminan'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
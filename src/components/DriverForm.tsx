@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { supabase, Driver } from '../lib/supabase';
+import { X } from 'lucide-react';
+
+interface DriverFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editDriver?: Driver | null;
+}
+
+export default function DriverForm({ onClose, onSuccess, editDriver }: DriverFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(editDriver?.name ?? '');
+  const [phone, setPhone] = useState(editDriver?.phone ?? '');
+  const [licenseNumber, setLicenseNumber] = useState(editDriver?.license_number ?? '');
+  const [licenseExpiry, setLicenseExpiry] = useState(editDriver?.license_expiry ?? '');
+  const [dailyFee, setDailyFee] = useState(editDriver?.daily_fee ?? 0);
+  const [isActive, setIsActive] = useState(editDriver?.is_active ?? true);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const payload = {
+        name,
+        phone,
+        license_number: licenseNumber,
+        license_expiry: licenseExpiry || null,
+        daily_fee: dailyFee,
+        is_active: isActive
+      };
+
+      if (editDriver) {
+        const { error } = await supabase.from('drivers').update(payload).eq('id', editDriver.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('drivers').insert(payload);
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving driver:', error);
+      const code = (error as { code?: string }).code;
+      alert(code === '23505' ? 'Nomor SIM sudah terdaftar' : 'Gagal menyimpan sopir');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{editDriver ? 'Edit Sopir' : 'Tambah Sopir'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nama *</label>
+              <input type="text" required value={name} onChange={(e) => setName(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">No. Telepon *</label>
+              <input type="tel" required value={phone} onChange={(e) => setPhone(e.target.value)}
+                placeholder="08xxxxxxxxxx"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nomor SIM *</label>
+              <input type="text" required value={licenseNumber} onChange={(e) => setLicenseNumber(e.target.value.toUpperCase())}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Berlaku Sampai</label>
+              <input type="date" value={licenseExpiry} onChange={(e) => setLicenseExpiry(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Honor per Hari *</label>
+              <input type="number" required min={0} value={dailyFee} onChange={(e) => setDailyFee(parseFloat(e.target.value) || 0)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 py-2">
+                <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)}
+                  className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500" />
+                Aktif (bisa dipilih di order baru)
+              </label>
+            </div>
+          </div>
+
+          {editDriver && (
+            <p className="text-xs text-gray-500">Perubahan honor hanya berlaku untuk penugasan berikutnya; tugas yang sudah ada tetap memakai honor lama.</p>
+          )}
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
+            <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
+              Batal
+            </button>
+            <button type="submit" disabled={loading} className="w-full sm:flex-1 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+              {loading ? 'Menyimpan...' : editDriver ? 'Update Sopir' : 'Simpan Sopir'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
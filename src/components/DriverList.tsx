@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { supabase, Driver } from '../lib/supabase';
+import { LICENSE_STATUS_BADGES, LICENSE_STATUS_LABELS, getLicenseStatus } from '../lib/drivers';
+import { toDateString } from '../lib/calendar';
+import { canManageBusiness } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import DriverForm from './DriverForm';
+import DriverSchedule from './DriverSchedule';
+import DriverPayouts from './DriverPayouts';
+import { Contact, Plus, Trash2, CreditCard as Edit, CalendarDays } from 'lucide-react';
+
+export default function DriverList() {
+  const { profile } = useAuth();
+  const canManage = canManageBusiness(profile);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editDriver, setEditDriver] = useState<Driver | null>(null);
+  const [scheduleDriver, setScheduleDriver] = useState<Driver | null>(null);
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    fetchDrivers();
+  }, []);
+
+  const fetchDrivers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('drivers')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setDrivers(data || []);
+    } catch (error) {
+      console.error('Error fetching drivers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleActive = async (driver: Driver) => {
+    try {
+      const { error } = await supabase
+        .from('drivers')
+        .update({ is_active: !driver.is_active })
+        .eq('id', driver.id);
+
+      if (error) throw error;
+
+      fetchDrivers();
+    } catch (error) {
+      console.error('Error updating driver:', error);
+      alert('Gagal mengubah status sopir');
+    }
+  };
+
+  const deleteDriver = async (id: string) => {
+    if (!confirm('Yakin ingin menghapus sopir ini? Order lama tetap tersimpan tanpa nama sopir.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('drivers')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      fetchDrivers();
+    } catch (error) {
+      console.error('Error deleting driver:', error);
+      alert('Gagal menghapus sopir');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  if (scheduleDriver) {
+    return <DriverSchedule driver={scheduleDriver} onBack={() => setScheduleDriver(null)} />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-orange-600 p-3 rounded-lg">
+              <Contact className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Sopir</h2>
+              <p className="text-sm text-gray-600">
+                {drivers.filter(d => d.is_active).length} aktif dari {drivers.length} sopir
+              </p>
+            </div>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => {
+                setEditDriver(null);
+                setShowForm(true);
+              }}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Tambah Sopir</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {drivers.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <Contact className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">Belum ada sopir</p>
+          <p className="text-gray-400 text-sm mt-2">Klik tombol "Tambah Sopir" untuk mendaftarkan sopir</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-orange-600 text-white">
+                  <th className="text-left px-4 py-3 text-sm font-semibold">Nama</th>
+                  <th className="text-left px-4 py-3 text-sm font-semibold hidden sm:table-cell">SIM</th>
+                  <th className="text-right px-4 py-3 text-sm font-semibold">Honor/Hari</th>
+                  <th className="text-center px-4 py-3 text-sm font-semibold">Status</th>
+                  <th className="text-right px-4 py-3 text-sm font-semibold">Aksi</th>
+                </tr>
+              </thead>
+              <tbody>
+                {drivers.map((driver, index) => {
+                  const licenseStatus = getLicenseStatus(driver, today);
+                  return (
+                    <tr key={driver.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors`}>
+                      <td className="px-4 py-3 border-b border-gray-200">
+                        <p className="font-medium text-gray-900">{driver.name}</p>
+                        <p className="text-xs text-gray-500">{driver.phone}</p>
+                      </td>
+                      <td className="px-4 py-3 border-b border-gray-200 hidden sm:table-cell">
+                        <p className="font-mono text-sm text-gray-900">{driver.license_number}</p>
+                        <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold ${LICENSE_STATUS_BADGES[licenseStatus]}`}>
+                          {driver.license_expiry ? `${LICENSE_STATUS_LABELS[licenseStatus]} · ${formatDate(driver.license_expiry)}` : LICENSE_STATUS_LABELS[licenseStatus]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 border-b border-gray-200 text-right font-semibold text-gray-900 whitespace-nowrap">
+                        {formatCurrency(driver.daily_fee)}
+                      </td>
+                      <td className="px-4 py-3 border-b border-gray-200 text-center">
+                        <button
+                          onClick={() => toggleActive(driver)}
+                          disabled={!canManage}
+                          className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors disabled:cursor-default ${
+                            driver.is_active
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                          }`}
+                          title={canManage ? 'Klik untuk mengubah status' : undefined}
+                        >
+                          {driver.is_active ? 'Aktif' : 'Nonaktif'}
+                        </button>
+                      </td>
+                      <td className="px-4 py-3 border-b border-gray-200">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => setScheduleDriver(driver)}
+                            className="p-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors"
+                            title="Jadwal"
+                          >
+                            <CalendarDays className="w-4 h-4" />
+                          </button>
+                          {canManage && (
+                            <>
+                              <button
+                                onClick={() => {
+                                  setEditDriver(driver);
+                                  setShowForm(true);
+                                }}
+                                className="p-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                                title="Edit"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => deleteDriver(driver.id)}
+                                className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                                title="Hapus"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <DriverPayouts />
+
+      {showForm && (
+        <DriverForm
+          onClose={() => {
+            setShowForm(false);
+            setEditDriver(null);
+          }}
+          onSuccess={fetchDrivers}
+          editDriver={editDriver}
+        />
+      )}
+    </div>
+  );
+}
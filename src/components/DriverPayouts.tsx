@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { supabase, DriverPayoutRow } from '../lib/supabase';
+import { Wallet } from 'lucide-react';
+
+export default function DriverPayouts() {
+  const now = new Date();
+  const [year, setYear] = useState(now.getFullYear());
+  const [month, setMonth] = useState(now.getMonth());
+  const [rows, setRows] = useState<DriverPayoutRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchPayouts = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase.rpc('report_driver_payouts', {
+          p_year: year,
+          p_month: month + 1
+        });
+
+        if (error) throw error;
+
+        setRows(((data || []) as DriverPayoutRow[]).map(row => ({
+          ...row,
+          trip_count: Number(row.trip_count),
+          total_days: Number(row.total_days),
+          payout: Number(row.payout)
+        })));
+      } catch (error) {
+        console.error('Error fetching driver payouts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPayouts();
+  }, [year, month]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+  const years = Array.from({ length: 5 }, (_, index) => now.getFullYear() - index);
+  const totalPayout = rows.reduce((sum, row) => sum + row.payout, 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 p-4 sm:p-6 border-b border-gray-200">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Rekap Honor Sopir</h3>
+          <p className="text-sm text-gray-600">Order yang mulai di bulan ini, tanpa order batal</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={month}
+            onChange={(e) => setMonth(parseInt(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent font-medium text-gray-900"
+          >
+            {Array.from({ length: 12 }, (_, index) => (
+              <option key={index} value={index}>
+                {new Date(year, index, 1).toLocaleDateString('id-ID', { month: 'long' })}
+              </option>
+            ))}
+          </select>
+          <select
+            value={year}
+            onChange={(e) => setYear(parseInt(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent font-medium text-gray-900"
+          >
+            {years.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="p-8 text-center">
+          <Wallet className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+          <p className="text-gray-500">Tidak ada tugas sopir di bulan ini</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-orange-600 text-white">
+                <th className="text-left px-4 py-3 font-semibold">Sopir</th>
+                <th className="text-center px-4 py-3 font-semibold">Tugas</th>
+                <th className="text-center px-4 py-3 font-semibold">Hari</th>
+                <th className="text-right px-4 py-3 font-semibold">Honor</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={row.driver_id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="px-4 py-3 border-b border-gray-200 font-medium text-gray-900">{row.driver_name}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-center">{row.trip_count}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-center">{row.total_days}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right font-semibold whitespace-nowrap">{formatCurrency(row.payout)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="bg-orange-50 font-bold text-gray-900">
+                <td className="px-4 py-3" colSpan={3}>Total</td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">{formatCurrency(totalPayout)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
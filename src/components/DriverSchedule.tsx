@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { supabase, Driver, Order, OrderItem } from '../lib/supabase';
+import { ORDER_STATUS_BADGES, ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { LICENSE_STATUS_BADGES, LICENSE_STATUS_LABELS, getLicenseStatus } from '../lib/drivers';
+import { toDateString } from '../lib/calendar';
+import { ArrowLeft, Phone, CreditCard, CalendarDays } from 'lucide-react';
+
+interface DriverScheduleProps {
+  driver: Driver;
+  onBack: () => void;
+}
+
+type Assignment = OrderItem & {
+  orders: Pick<Order, 'id' | 'invoice_number' | 'customer_name' | 'rental_start_date' | 'rental_end_date' | 'status'>;
+};
+
+export default function DriverSchedule({ driver, onBack }: DriverScheduleProps) {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPast, setShowPast] = useState(false);
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    const fetchAssignments = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('order_items')
+          .select('*, orders(id, invoice_number, customer_name, rental_start_date, rental_end_date, status)')
+          .eq('driver_id', driver.id);
+
+        if (error) throw error;
+
+        setAssignments(((data || []) as Assignment[])
+          .sort((a, b) => a.orders.rental_start_date.localeCompare(b.orders.rental_start_date)));
+      } catch (error) {
+        console.error('Error fetching driver schedule:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAssignments();
+  }, [driver.id]);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  const licenseStatus = getLicenseStatus(driver, today);
+  // Tugas yang sudah lewat disembunyikan kecuali diminta
+  const visibleAssignments = showPast
+    ? [...assignments].reverse()
+    : assignments.filter(assignment => assignment.orders.rental_end_date >= today);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <button onClick={onBack} className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          Semua sopir
+        </button>
+        <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{driver.name}</h2>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-6 mt-2 text-sm text-gray-600">
+          <span className="flex items-center gap-2"><Phone className="w-4 h-4" />{driver.phone}</span>
+          <span className="flex items-center gap-2"><CreditCard className="w-4 h-4" /><span className="font-mono">{driver.license_number}</span></span>
+          <span className={`self-start px-2 py-0.5 rounded-full text-xs font-semibold ${LICENSE_STATUS_BADGES[licenseStatus]}`}>
+            {LICENSE_STATUS_LABELS[licenseStatus]}{driver.license_expiry ? ` · ${formatDate(driver.license_expiry)}` : ''}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">Jadwal Tugas</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={showPast} onChange={(e) => setShowPast(e.target.checked)}
+              className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500" />
+            Tampilkan tugas yang sudah lewat
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+          </div>
+        ) : visibleAssignments.length === 0 ? (
+          <div className="p-8 text-center">
+            <CalendarDays className="w-12 h-12 text-gray-300 mx-auto mb-2" />
+            <p className="text-gray-500">Belum ada jadwal tugas</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-orange-600 text-white">
+                  <th className="text-left px-4 py-3 font-semibold">Periode</th>
+                  <th className="text-left px-4 py-3 font-semibold">Pelanggan</th>
+                  <th className="text-left px-4 py-3 font-semibold hidden md:table-cell">Kendaraan</th>
+                  <th className="text-center px-4 py-3 font-semibold">Status</th>
+                  <th className="text-right px-4 py-3 font-semibold">Honor</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleAssignments.map((assignment, index) => (
+                  <tr key={assignment.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} ${assignment.orders.status === 'cancelled' ? 'text-gray-400' : ''}`}>
+                    <td className="px-4 py-3 border-b border-gray-200 whitespace-nowrap">
+                      {formatDate(assignment.orders.rental_start_date)} - {formatDate(assignment.orders.rental_end_date)}
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200">
+                      <p className="font-medium">{assignment.orders.customer_name}</p>
+                      <p className="text-xs text-gray-500 font-mono">{assignment.orders.invoice_number}</p>
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-gray-600 hidden md:table-cell">{assignment.car_type}</td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-center">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ORDER_STATUS_BADGES[assignment.orders.status]}`}>
+                        {ORDER_STATUS_LABELS[assignment.orders.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-right whitespace-nowrap">
+                      {assignment.orders.status === 'cancelled'
+                        ? '-'
+                        : formatCurrency(assignment.days * Number(assignment.driver_daily_fee ?? 0))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { supabase, OrderWithItems, Vehicle } from '../lib/supabase';
+import { ORDER_STATUS_BAR_COLORS, ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { formatVehicleLabel } from '../lib/vehicles';
+import { CALENDAR_VIEWS, CalendarView, getCalendarDays, shiftCalendarAnchor, toDateString } from '../lib/calendar';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface FleetCalendarProps {
+  onEdit: (order: OrderWithItems) => void;
+  refresh: number;
+}
+
+interface CalendarBar {
+  order: OrderWithItems;
+  startIndex: number;
+  endIndex: number;
+  lane: number;
+}
+
+interface CalendarRow {
+  key: string;
+  label: string;
+  bars: CalendarBar[];
+  lanes: number;
+}
+
+const LANE_HEIGHT = 28;
+const LEGEND_STATUSES = ['booked', 'picked_up', 'returned', 'closed'] as const;
+
+export default function FleetCalendar({ onEdit, refresh }: FleetCalendarProps) {
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const days = getCalendarDays(anchor, view);
+  const dayStrings = days.map(toDateString);
+  const firstDay = dayStrings[0];
+  const lastDay = dayStrings[dayStrings.length - 1];
+
+  useEffect(() => {
+    const fetchCalendar = async () => {
+      setLoading(true);
+      try {
+        const [{ data: vehicleData, error: vehicleError }, { data: orderData, error: orderError }] = await Promise.all([
+          supabase
+            .from('vehicles')
+            .select('*')
+            .order('make', { ascending: true })
+            .order('model', { ascending: true }),
+          supabase
+            .from('orders')
+            .select('*, order_items(*)')
+            .neq('status', 'cancelled')
+            .lte('rental_start_date', lastDay)
+            .gte('rental_end_date', firstDay)
+            .order('rental_start_date', { ascending: true })
+        ]);
+
+        if (vehicleError) throw vehicleError;
+        if (orderError) throw orderError;
+
+        setVehicles(vehicleData || []);
+        setOrders(orderData || []);
+      } catch (error) {
+        console.error('Error fetching fleet calendar:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCalendar();
+  }, [firstDay, lastDay, refresh]);
+
+  const buildRows = (): CalendarRow[] => {
+    const rowMap = new Map<string, CalendarRow>();
+
+    vehicles
+      .filter(vehicle => vehicle.is_active)
+      .forEach(vehicle => rowMap.set(vehicle.id, { key: vehicle.id, label: formatVehicleLabel(vehicle), bars: [], lanes: 1 }));
+
+    orders.forEach(order => {
+      const start = order.rental_start_date < firstDay ? firstDay : order.rental_start_date;
+      const end = order.rental_end_date > lastDay ? lastDay : order.rental_end_date;
+      const startIndex = dayStrings.indexOf(start);
+      const endIndex = dayStrings.indexOf(end);
+
+      order.order_items.forEach(item => {
+        // Item lama tanpa vehicle_id ditampilkan per car_type
+        const key = item.vehicle_id ?? `car_type:${item.car_type}`;
+        if (!rowMap.has(key)) {
+          const vehicle = vehicles.find(v => v.id === item.vehicle_id);
+          rowMap.set(key, {
+            key,
+            label: vehicle ? formatVehicleLabel(vehicle) : `${item.car_type} (data lama)`,
+            bars: [],
+            lanes: 1
+          });
+        }
+
+        const row = rowMap.get(key)!;
+        if (!row.bars.some(bar => bar.order.id === order.id)) {
+          row.bars.push({ order, startIndex, endIndex, lane: 0 });
+        }
+      });
+    });
+
+    // Balok yang bertumpuk (mis. data lama dengan quantity > 1) diletakkan di lajur berbeda
+    rowMap.forEach(row => {
+      const laneEnds: number[] = [];
+      row.bars
+        .sort((a, b) => a.startIndex - b.startIndex)
+        .forEach(bar => {
+          const lane = laneEnds.findIndex(end => end < bar.startIndex);
+          bar.lane = lane === -1 ? laneEnds.length : lane;
+          laneEnds[bar.lane] = bar.endIndex;
+        });
+      row.lanes = Math.max(laneEnds.length, 1);
+    });
+
+    return Array.from(rowMap.values());
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const rows = buildRows();
+  const today = toDateString(new Date());
+  const title = view === 'week'
+    ? `${days[0].toLocaleDateString('id-ID', { day: 'numeric', month: 'short' })} - ${days[days.length - 1].toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: 'numeric' })}`
+    : anchor.toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+  const dayWidth = view === 'week' ? 'min-w-[5rem]' : 'min-w-[2.25rem]';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-orange-600 p-3 rounded-lg">
+              <CalendarDays className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Kalender Armada</h2>
+              <p className="text-sm text-gray-600">{title}</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setAnchor(prev => shiftCalendarAnchor(prev, view, -1))}
+              className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              title="Sebelumnya"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setAnchor(new Date())}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium"
+            >
+              Hari Ini
+            </button>
+            <button
+              onClick={() => setAnchor(prev => shiftCalendarAnchor(prev, view, 1))}
+              className="p-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              title="Berikutnya"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            {CALENDAR_VIEWS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={`px-4 py-2 rounded-lg font-medium transition-all ${
+                  view === value ? 'bg-orange-600 text-white shadow-md' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+          {LEGEND_STATUSES.map(status => (
+            <span key={status} className="flex items-center gap-2">
+              <span className={`w-3 h-3 rounded ${ORDER_STATUS_BAR_COLORS[status]}`}></span>
+              {ORDER_STATUS_LABELS[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+          <CalendarDays className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">Belum ada kendaraan aktif</p>
+          <p className="text-gray-400 text-sm mt-2">Tambahkan kendaraan di menu Armada</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <div className="min-w-max">
+            <div className="flex border-b border-gray-200 bg-gray-50 text-xs text-gray-600">
+              <div className="w-48 shrink-0 sticky left-0 z-10 bg-gray-50 px-4 py-2 font-semibold">Kendaraan</div>
+              {days.map((day, index) => {
+                const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+                return (
+                  <div
+                    key={dayStrings[index]}
+                    className={`flex-1 ${dayWidth} border-l border-gray-200 py-2 text-center ${
+                      dayStrings[index] === today ? 'bg-orange-100 text-orange-800 font-bold' : isWeekend ? 'bg-gray-100' : ''
+                    }`}
+                  >
+                    <div>{day.toLocaleDateString('id-ID', { weekday: 'short' })}</div>
+                    <div className="font-semibold">{day.getDate()}</div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {rows.map(row => (
+              <div key={row.key} className="flex border-b border-gray-200">
+                <div className="w-48 shrink-0 sticky left-0 z-10 bg-white px-4 py-2 text-sm font-medium text-gray-900 truncate" title={row.label}>
+                  {row.label}
+                </div>
+                <div className="relative flex flex-1" style={{ height: row.lanes * LANE_HEIGHT + 8 }}>
+                  {days.map((day, index) => (
+                    <div
+                      key={dayStrings[index]}
+                      className={`flex-1 ${dayWidth} border-l border-gray-200 ${
+                        dayStrings[index] === today ? 'bg-orange-50' : day.getDay() === 0 || day.getDay() === 6 ? 'bg-gray-50' : ''
+                      }`}
+                    />
+                  ))}
+                  {row.bars.map(bar => (
+                    <button
+                      key={bar.order.id}
+                      onClick={() => onEdit(bar.order)}
+                      className={`absolute h-6 rounded-md px-2 text-left text-xs font-medium text-white truncate shadow-sm transition-colors ${ORDER_STATUS_BAR_COLORS[bar.order.status]}`}
+                      style={{
+                        left: `calc(${(bar.startIndex / days.length) * 100}% + 2px)`,
+                        width: `calc(${((bar.endIndex - bar.startIndex + 1) / days.length) * 100}% - 4px)`,
+                        top: bar.lane * LANE_HEIGHT + 4
+                      }}
+                      title={`${bar.order.customer_name} · ${bar.order.invoice_number}\n${formatDate(bar.order.rental_start_date)} - ${formatDate(bar.order.rental_end_date)} · ${ORDER_STATUS_LABELS[bar.order.status]}`}
+                    >
+                      {bar.order.customer_name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { supabase, BusinessSettings, OrderDeposit, OrderWithItems, VehicleInspection } from '../lib/supabase';
+import { DEFAULT_BUSINESS_SETTINGS, fetchBusinessSettings, getLogoUrl } from '../lib/businessSettings';
+import {
+  EQUIPMENT_ITEMS,
+  INSPECTION_KINDS,
+  INSPECTION_KIND_LABELS,
+  getFuelLevelLabel,
+  getInspectionPhotoUrls
+} from '../lib/inspections';
+import { formatDepositDetail, formatDepositStatus, getDepositTypeLabel } from '../lib/deposits';
+
+interface HandoverSheetProps {
+  order: OrderWithItems;
+  inspections: VehicleInspection[];
+  onClose: () => void;
+}
+
+export default function HandoverSheet({ order, inspections, onClose }: HandoverSheetProps) {
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [deposits, setDeposits] = useState<OrderDeposit[]>([]);
+
+  useEffect(() => {
+    fetchBusinessSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching business settings:', error));
+  }, []);
+
+  useEffect(() => {
+    const fetchDeposits = async () => {
+      const { data, error } = await supabase
+        .from('order_deposits')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('received_date', { ascending: true });
+      if (error) {
+        console.error('Error fetching deposits:', error);
+        return;
+      }
+      setDeposits(data || []);
+    };
+    fetchDeposits();
+  }, [order.id]);
+
+  useEffect(() => {
+    getInspectionPhotoUrls(inspections.flatMap(inspection => inspection.photo_paths))
+      .then(setPhotoUrls)
+      .catch(error => console.error('Error loading inspection photos:', error));
+  }, [inspections]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+  const findInspection = (itemId: string, kind: VehicleInspection['kind']) =>
+    inspections.find(inspection => inspection.order_item_id === itemId && inspection.kind === kind) ?? null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-white w-full max-w-5xl my-8 rounded-lg shadow-2xl overflow-y-auto max-h-[95vh]">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center print:hidden">
+          <h2 className="text-xl font-bold text-gray-900">Berita Acara Serah Terima</h2>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors font-medium"
+            >
+              Cetak
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium"
+            >
+              Tutup
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 print:p-8 text-sm text-gray-900">
+          <div className="flex items-start justify-between mb-6 pb-4 border-b-2 border-orange-600">
+            <div>
+              <img src={getLogoUrl(settings)} alt={`Logo ${settings.company_name}`} className="w-36 h-auto object-contain block" />
+              <p className="text-gray-600 mt-2">{settings.address}</p>
+            </div>
+            <div className="text-right">
+              <h1 className="text-2xl font-bold text-orange-600">SERAH TERIMA KENDARAAN</h1>
+              <p className="font-mono mt-1">{order.invoice_number}</p>
+              <p className="mt-2"><span className="text-gray-600">Penyewa:</span> <span className="font-semibold">{order.customer_name}</span></p>
+              <p><span className="text-gray-600">Periode:</span> {formatDate(order.rental_start_date)} - {formatDate(order.rental_end_date)}</p>
+            </div>
+          </div>
+
+          {order.order_items.map(item => {
+            const pickup = findInspection(item.id, 'pickup');
+            const returned = findInspection(item.id, 'return');
+            return (
+              <div key={item.id} className="mb-8 break-inside-avoid">
+                <h3 className="text-base font-bold mb-2">{item.car_type}</h3>
+                <table className="w-full border border-gray-300">
+                  <thead>
+                    <tr className="bg-orange-600 text-white">
+                      <th className="text-left px-3 py-2 font-semibold w-1/4"></th>
+                      {INSPECTION_KINDS.map(kind => (
+                        <th key={kind} className="text-left px-3 py-2 font-semibold">{INSPECTION_KIND_LABELS[kind]}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-600">Waktu</td>
+                      <td className="px-3 py-2">{pickup ? formatDateTime(pickup.inspected_at) : '-'}</td>
+                      <td className="px-3 py-2">{returned ? formatDateTime(returned.inspected_at) : '-'}</td>
+                    </tr>
+                    <tr className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-600">Kilometer</td>
+                      <td className="px-3 py-2">{pickup ? `${pickup.odometer.toLocaleString('id-ID')} km` : '-'}</td>
+                      <td className="px-3 py-2">
+                        {returned ? `${returned.odometer.toLocaleString('id-ID')} km` : '-'}
+                        {pickup && returned && (
+                          <span className="text-gray-500"> (+{(returned.odometer - pickup.odometer).toLocaleString('id-ID')} km)</span>
+                        )}
+                      </td>
+                    </tr>
+                    <tr className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-600">Bahan Bakar</td>
+                      <td className="px-3 py-2">{pickup ? getFuelLevelLabel(pickup.fuel_level) : '-'}</td>
+                      <td className={`px-3 py-2 ${pickup && returned && returned.fuel_level < pickup.fuel_level ? 'text-red-600 font-semibold' : ''}`}>
+                        {returned ? getFuelLevelLabel(returned.fuel_level) : '-'}
+                      </td>
+                    </tr>
+                    {EQUIPMENT_ITEMS.map(equipmentItem => {
+                      const missing = pickup?.equipment[equipmentItem.key] && returned && !returned.equipment[equipmentItem.key];
+                      return (
+                        <tr key={equipmentItem.key} className="border-t border-gray-200">
+                          <td className="px-3 py-2 text-gray-600">{equipmentItem.label}</td>
+                          <td className="px-3 py-2">{pickup ? (pickup.equipment[equipmentItem.key] ? 'Ada' : 'Tidak ada') : '-'}</td>
+                          <td className={`px-3 py-2 ${missing ? 'text-red-600 font-semibold' : ''}`}>
+                            {returned ? (returned.equipment[equipmentItem.key] ? 'Ada' : 'Tidak ada') : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="border-t border-gray-200 align-top">
+                      <td className="px-3 py-2 text-gray-600">Catatan Kerusakan</td>
+                      <td className="px-3 py-2 whitespace-pre-line">{pickup?.damage_notes || '-'}</td>
+                      <td className="px-3 py-2 whitespace-pre-line">{returned?.damage_notes || '-'}</td>
+                    </tr>
+                    <tr className="border-t border-gray-200 align-top">
+                      <td className="px-3 py-2 text-gray-600">Foto</td>
+                      {[pickup, returned].map((inspection, index) => (
+                        <td key={index} className="px-3 py-2">
+                          {inspection && inspection.photo_paths.length > 0 ? (
+                            <div className="grid grid-cols-3 gap-1">
+                              {inspection.photo_paths.map(path => photoUrls[path] && (
+                                <img key={path} src={photoUrls[path]} alt="Foto kendaraan" className="w-full aspect-square object-cover rounded" />
+                              ))}
+                            </div>
+                          ) : '-'}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr className="border-t border-gray-200 align-top">
+                      <td className="px-3 py-2 text-gray-600">Tanda Tangan</td>
+                      {[pickup, returned].map((inspection, index) => (
+                        <td key={index} className="px-3 py-2">
+                          {inspection ? (
+                            <div className="grid grid-cols-2 gap-2 text-center text-xs">
+                              <div>
+                                <img src={inspection.customer_signature} alt="Tanda tangan pelanggan" className="h-16 w-full object-contain" />
+                                <p className="border-t border-gray-400 pt-1">{inspection.customer_signer_name}</p>
+                                <p className="text-gray-500">Pelanggan</p>
+                              </div>
+                              <div>
+                                <img src={inspection.staff_signature} alt="Tanda tangan petugas" className="h-16 w-full object-contain" />
+                                <p className="border-t border-gray-400 pt-1">{inspection.staff_signer_name}</p>
+                                <p className="text-gray-500">Petugas</p>
+                              </div>
+                            </div>
+                          ) : '-'}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            );
+          })}
+
+          {deposits.length > 0 && (
+            <div className="break-inside-avoid">
+              <h3 className="text-base font-bold mb-2">Jaminan</h3>
+              <table className="w-full border border-gray-300">
+                <thead>
+                  <tr className="bg-orange-600 text-white">
+                    <th className="text-left px-3 py-2 font-semibold">Jenis</th>
+                    <th className="text-left px-3 py-2 font-semibold">Nominal / Keterangan</th>
+                    <th className="text-left px-3 py-2 font-semibold">Diterima</th>
+                    <th className="text-left px-3 py-2 font-semibold">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deposits.map(deposit => (
+                    <tr key={deposit.id} className="border-t border-gray-200 align-top">
+                      <td className="px-3 py-2">{getDepositTypeLabel(deposit.deposit_type)}</td>
+                      <td className="px-3 py-2">{formatDepositDetail(deposit, formatCurrency)}</td>
+                      <td className="px-3 py-2">{formatDate(deposit.received_date)}</td>
+                      <td className={`px-3 py-2 ${deposit.status === 'withheld' ? 'text-red-600 font-semibold' : ''}`}>
+                        {formatDepositStatus(deposit, formatCurrency)}
+                        {deposit.settled_date && <span className="block text-xs text-gray-500 font-normal">{formatDate(deposit.settled_date)}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
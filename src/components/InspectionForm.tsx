@@ -0,0 +1,284 @@
+import { useEffect, useState } from 'react';
+import { supabase, InspectionKind, OrderItem, OrderWithItems, VehicleInspection } from '../lib/supabase';
+import {
+  EQUIPMENT_ITEMS,
+  FUEL_LEVELS,
+  INSPECTION_KIND_LABELS,
+  INSPECTION_PHOTO_BUCKET,
+  getInspectionPhotoPath,
+  getInspectionPhotoUrls
+} from '../lib/inspections';
+import { useAuth } from '../contexts/AuthContext';
+import SignaturePad from './SignaturePad';
+import { X, Camera, Trash2 } from 'lucide-react';
+
+interface InspectionFormProps {
+  order: OrderWithItems;
+  item: OrderItem;
+  kind: InspectionKind;
+  editInspection?: VehicleInspection | null;
+  // Pemeriksaan serah terima, dipakai sebagai pembanding saat pengembalian
+  pickupInspection?: VehicleInspection | null;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function InspectionForm({
+  order,
+  item,
+  kind,
+  editInspection,
+  pickupInspection,
+  onClose,
+  onSuccess
+}: InspectionFormProps) {
+  const { profile } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [odometer, setOdometer] = useState(editInspection?.odometer.toString() ?? '');
+  const [fuelLevel, setFuelLevel] = useState(editInspection?.fuel_level ?? pickupInspection?.fuel_level ?? 100);
+  const [equipment, setEquipment] = useState<Record<string, boolean>>(
+    editInspection?.equipment ?? pickupInspection?.equipment ?? {}
+  );
+  const [damageNotes, setDamageNotes] = useState(editInspection?.damage_notes ?? '');
+  const [photoPaths, setPhotoPaths] = useState<string[]>(editInspection?.photo_paths ?? []);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  // Foto yang baru diunggah di form ini dan foto yang dilepas, dirapikan saat simpan atau batal
+  const [uploadedPaths, setUploadedPaths] = useState<string[]>([]);
+  const [removedPaths, setRemovedPaths] = useState<string[]>([]);
+  const [customerSignerName, setCustomerSignerName] = useState(editInspection?.customer_signer_name ?? order.customer_name);
+  const [customerSignature, setCustomerSignature] = useState<string | null>(editInspection?.customer_signature ?? null);
+  const [staffSignerName, setStaffSignerName] = useState(
+    editInspection?.staff_signer_name ?? profile?.full_name ?? profile?.email ?? ''
+  );
+  const [staffSignature, setStaffSignature] = useState<string | null>(editInspection?.staff_signature ?? null);
+
+  useEffect(() => {
+    if (!editInspection) return;
+    getInspectionPhotoUrls(editInspection.photo_paths)
+      .then(setPhotoUrls)
+      .catch(error => console.error('Error loading inspection photos:', error));
+  }, [editInspection]);
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (files.some(file => file.size > 5 * 1024 * 1024)) {
+      alert('Ukuran foto maksimal 5 MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const paths: string[] = [];
+      for (const file of files) {
+        const path = getInspectionPhotoPath(order.id, kind, file);
+        const { error } = await supabase.storage.from(INSPECTION_PHOTO_BUCKET).upload(path, file);
+        if (error) throw error;
+        paths.push(path);
+      }
+
+      const urls = await getInspectionPhotoUrls(paths);
+      setPhotoUrls(prev => ({ ...prev, ...urls }));
+      setPhotoPaths(prev => [...prev, ...paths]);
+      setUploadedPaths(prev => [...prev, ...paths]);
+    } catch (error) {
+      console.error('Error uploading inspection photo:', error);
+      alert('Gagal mengunggah foto');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removePhoto = (path: string) => {
+    setPhotoPaths(photoPaths.filter(p => p !== path));
+    setRemovedPaths([...removedPaths, path]);
+  };
+
+  const removeFiles = async (paths: string[]) => {
+    if (paths.length === 0) return;
+    const { error } = await supabase.storage.from(INSPECTION_PHOTO_BUCKET).remove(paths);
+    if (error) console.error('Error removing inspection photos:', error);
+  };
+
+  const handleClose = () => {
+    removeFiles(uploadedPaths);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customerSignature || !staffSignature) {
+      alert('Pelanggan dan petugas harus tanda tangan');
+      return;
+    }
+    const odometerValue = parseInt(odometer);
+    if (pickupInspection && odometerValue < pickupInspection.odometer
+      && !confirm('Kilometer lebih kecil dari saat serah terima. Tetap simpan?')) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const payload = {
+        odometer: odometerValue,
+        fuel_level: fuelLevel,
+        equipment,
+        damage_notes: damageNotes || null,
+        photo_paths: photoPaths,
+        customer_signer_name: customerSignerName,
+        customer_signature: customerSignature,
+        staff_signer_name: staffSignerName,
+        staff_signature: staffSignature
+      };
+
+      if (editInspection) {
+        const { error } = await supabase.from('vehicle_inspections').update(payload).eq('id', editInspection.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('vehicle_inspections').insert({
+          ...payload,
+          order_id: order.id,
+          order_item_id: item.id,
+          kind
+        });
+        if (error) throw error;
+      }
+
+      await removeFiles(removedPaths);
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving inspection:', error);
+      const code = (error as { code?: string }).code;
+      alert(code === '23505'
+        ? `Pemeriksaan ${INSPECTION_KIND_LABELS[kind].toLowerCase()} untuk kendaraan ini sudah ada`
+        : 'Gagal menyimpan pemeriksaan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Cek {INSPECTION_KIND_LABELS[kind]}</h2>
+            <p className="text-sm text-gray-600">{item.car_type} · {order.customer_name}</p>
+          </div>
+          <button onClick={handleClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Kilometer *</label>
+              <input type="number" required min={0} value={odometer} onChange={(e) => setOdometer(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+              {pickupInspection && (
+                <p className="text-xs text-gray-500 mt-1">Saat serah terima: {pickupInspection.odometer.toLocaleString('id-ID')} km</p>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Bahan Bakar *</label>
+              <div className="flex gap-1">
+                {FUEL_LEVELS.map(level => (
+                  <button
+                    key={level.value}
+                    type="button"
+                    onClick={() => setFuelLevel(level.value)}
+                    className={`flex-1 px-2 py-2 rounded-lg text-sm font-medium transition-all ${
+                      fuelLevel === level.value
+                        ? 'bg-orange-600 text-white shadow-md'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {level.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-2">Perlengkapan</span>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {EQUIPMENT_ITEMS.map(equipmentItem => (
+                <label key={equipmentItem.key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!equipment[equipmentItem.key]}
+                    onChange={(e) => setEquipment({ ...equipment, [equipmentItem.key]: e.target.checked })}
+                    className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500"
+                  />
+                  {equipmentItem.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Catatan Kerusakan</label>
+            <textarea value={damageNotes} onChange={(e) => setDamageNotes(e.target.value)} rows={3}
+              placeholder="Lecet, penyok, kaca retak, dsb."
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent resize-none" />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">Foto</span>
+              <label className={`flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium cursor-pointer ${uploading ? 'opacity-50 pointer-events-none' : ''}`}>
+                <Camera className="w-4 h-4" />
+                {uploading ? 'Mengunggah...' : 'Tambah Foto'}
+                <input type="file" accept="image/*" capture="environment" multiple onChange={handlePhotoUpload} className="hidden" />
+              </label>
+            </div>
+            {photoPaths.length === 0 ? (
+              <p className="text-sm text-gray-500">Belum ada foto</p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                {photoPaths.map(path => (
+                  <div key={path} className="relative aspect-square bg-gray-100 rounded-lg overflow-hidden border border-gray-200">
+                    {photoUrls[path] && <img src={photoUrls[path]} alt="Foto kendaraan" className="w-full h-full object-cover" />}
+                    <button type="button" onClick={() => removePhoto(path)}
+                      className="absolute top-1 right-1 p-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 border-t border-gray-200 pt-6">
+            <div className="space-y-2">
+              <input type="text" required value={customerSignerName} onChange={(e) => setCustomerSignerName(e.target.value)}
+                placeholder="Nama pelanggan"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+              <SignaturePad label="Tanda Tangan Pelanggan" value={customerSignature} onChange={setCustomerSignature} />
+            </div>
+            <div className="space-y-2">
+              <input type="text" required value={staffSignerName} onChange={(e) => setStaffSignerName(e.target.value)}
+                placeholder="Nama petugas"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+              <SignaturePad label="Tanda Tangan Petugas" value={staffSignature} onChange={setStaffSignature} />
+            </div>
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
+            <button type="button" onClick={handleClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
+              Batal
+            </button>
+            <button type="submit" disabled={loading || uploading} className="w-full sm:flex-1 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+              {loading ? 'Menyimpan...' : 'Simpan Pemeriksaan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, BusinessSettings, InvoiceEmail, OrderAdjustment, OrderDeposit, OrderWithItems } from '../lib/supabase';
+import { buildInvoicePdf, getInvoiceFileName } from '../lib/invoicePdf';
+import { getVerificationUrl } from '../lib/verification';
+import {
+  INVOICE_EMAIL_FUNCTION,
+  INVOICE_EMAIL_STATUS_BADGES,
+  INVOICE_EMAIL_STATUS_LABELS,
+  getDefaultEmailMessage,
+  getDefaultEmailSubject,
+  getPdfBase64
+} from '../lib/invoiceEmails';
+import { canWriteOrders } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import { X, Send, Mail } from 'lucide-react';
+
+interface InvoiceEmailDialogProps {
+  order: OrderWithItems;
+  settings: BusinessSettings;
+  adjustments: OrderAdjustment[];
+  deposits: OrderDeposit[];
+  onClose: () => void;
+}
+
+export default function InvoiceEmailDialog({ order, settings, adjustments, deposits, onClose }: InvoiceEmailDialogProps) {
+  const { profile } = useAuth();
+  const [emails, setEmails] = useState<InvoiceEmail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const [subject, setSubject] = useState(() => getDefaultEmailSubject(order, settings));
+  const [message, setMessage] = useState(() => getDefaultEmailMessage(order, settings));
+
+  const fetchEmails = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_emails')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setEmails(data || []);
+      return (data || []) as InvoiceEmail[];
+    } catch (error) {
+      console.error('Error fetching invoice emails:', error);
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    // Alamat terakhir dipakai lagi, pelanggan belum punya kolom email sendiri
+    fetchEmails().then(([last]) => {
+      if (last) setRecipient(current => current || last.recipient);
+    });
+  }, [fetchEmails]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      const pdf = await buildInvoicePdf(order, { settings, adjustments, deposits, qrValue: getVerificationUrl(order) });
+      const { error } = await supabase.functions.invoke(INVOICE_EMAIL_FUNCTION, {
+        body: {
+          order_id: order.id,
+          to: recipient.trim(),
+          subject: subject.trim(),
+          message,
+          file_name: getInvoiceFileName(order),
+          pdf_base64: getPdfBase64(pdf)
+        }
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error sending invoice email:', error);
+      alert('Gagal mengirim email');
+    } finally {
+      await fetchEmails();
+      setSending(false);
+    }
+  };
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Kirim Email</h2>
+            <p className="text-sm text-gray-600">{order.customer_name} · <span className="font-mono">{order.invoice_number}</span></p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          {canWriteOrders(profile) && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Email Pelanggan *</label>
+                <input type="email" required value={recipient} onChange={(e) => setRecipient(e.target.value)}
+                  placeholder="nama@contoh.com" className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Subjek *</label>
+                <input type="text" required value={subject} onChange={(e) => setSubject(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pesan</label>
+                <textarea rows={7} value={message} onChange={(e) => setMessage(e.target.value)} className={`${inputClass} text-sm`} />
+                <p className="text-xs text-gray-500 mt-1">Invoice PDF dilampirkan otomatis</p>
+              </div>
+              <button type="submit" disabled={sending}
+                className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                <Send className="w-4 h-4" />
+                {sending ? 'Mengirim...' : 'Kirim Invoice'}
+              </button>
+            </form>
+          )}
+
+          <div className={canWriteOrders(profile) ? 'border-t border-gray-200 pt-6' : ''}>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Riwayat Pengiriman</h3>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+              </div>
+            ) : emails.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">
+                <Mail className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                <p>Invoice belum pernah dikirim lewat email</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {emails.map(email => (
+                  <div key={email.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-900 break-all">{email.recipient}</p>
+                        <p className="text-gray-600">{formatDateTime(email.sent_at ?? email.created_at)}</p>
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${INVOICE_EMAIL_STATUS_BADGES[email.status]}`}>
+                        {INVOICE_EMAIL_STATUS_LABELS[email.status]}
+                      </span>
+                    </div>
+                    {email.error && <p className="text-red-600 text-xs mt-1 break-words">{email.error}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,19 @@
-import { useEffect, useRef } from 'react';
-import { OrderWithItems } from '../lib/supabase';
+import { useEffect, useState } from 'react';
+import { supabase, BusinessSettings, OrderAdjustment, OrderDeposit, OrderWithItems } from '../lib/supabase';
+import { PAYMENT_STATUS_LABELS, getOutstandingAmount } from '../lib/payments';
+import { buildInvoicePdf, getInvoiceFileName } from '../lib/invoicePdf';
+import { getVerificationUrl } from '../lib/verification';
+import { getAdjustmentLines } from '../lib/orderAdjustments';
+import { formatDepositDetail, formatDepositStatus, getDepositTypeLabel } from '../lib/deposits';
+import {
+  DEFAULT_BUSINESS_SETTINGS,
+  fetchBusinessSettings,
+  getDueDate,
+  getLogoUrl,
+  getWebsiteUrl
+} from '../lib/businessSettings';
 import { QRCodeCanvas } from 'qrcode.react';
-import html2canvas from 'html2canvas';
-import jsPDF from 'jspdf';
+import InvoiceEmailDialog from './InvoiceEmailDialog';
 
 interface InvoicePrintProps {
   order: OrderWithItems;
@@ -10,7 +21,49 @@ interface InvoicePrintProps {
 }
 
 export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
-  const invoiceRef = useRef<HTMLDivElement>(null);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [adjustments, setAdjustments] = useState<OrderAdjustment[]>([]);
+  const [deposits, setDeposits] = useState<OrderDeposit[]>([]);
+  const [showEmail, setShowEmail] = useState(false);
+
+  useEffect(() => {
+    fetchBusinessSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching business settings:', error));
+  }, []);
+
+  useEffect(() => {
+    const fetchAdjustments = async () => {
+      const { data, error } = await supabase
+        .from('order_adjustments')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('sort_order', { ascending: true });
+      if (error) {
+        console.error('Error fetching order adjustments:', error);
+        return;
+      }
+      setAdjustments(data || []);
+    };
+    fetchAdjustments();
+  }, [order.id]);
+
+  useEffect(() => {
+    const fetchDeposits = async () => {
+      const { data, error } = await supabase
+        .from('order_deposits')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('received_date', { ascending: true });
+      if (error) {
+        console.error('Error fetching deposits:', error);
+        return;
+      }
+      setDeposits(data || []);
+    };
+    fetchDeposits();
+  }, [order.id]);
 
   // Tambahkan meta tag untuk menonaktifkan deteksi nomor HP otomatis
   useEffect(() => {
@@ -25,11 +78,11 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
 
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
-      if (e.key === 'Escape') onClose();
+      if (e.key === 'Escape' && !showEmail) onClose();
     };
     window.addEventListener('keydown', handleEscape);
     return () => window.removeEventListener('keydown', handleEscape);
-  }, [onClose]);
+  }, [onClose, showEmail]);
 
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat('id-ID', {
@@ -38,8 +91,8 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
       minimumFractionDigits: 0,
     }).format(amount);
 
-  const formatDate = (dateString: string) =>
-    new Date(dateString).toLocaleDateString('id-ID', {
+  const formatDate = (date: string | Date) =>
+    new Date(date).toLocaleDateString('id-ID', {
       day: '2-digit',
       month: 'long',
       year: 'numeric',
@@ -48,71 +101,20 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
   const handlePrint = () => window.print();
 
   const handleDownloadPDF = async () => {
-    if (!invoiceRef.current) return;
-    const invoiceElement = invoiceRef.current;
-    const originalStyles = { ...invoiceElement.style };
-
-    // Set posisi di luar layar agar tidak mengganggu tampilan
-    invoiceElement.style.position = 'absolute';
-    invoiceElement.style.left = '-9999px';
-    invoiceElement.style.top = '0';
-    invoiceElement.style.width = '794px';
-    invoiceElement.style.maxWidth = '794px';
-    invoiceElement.style.transform = 'scale(1)';
-    invoiceElement.style.zIndex = '-1';
-    invoiceElement.style.overflow = 'visible';
-
-    await new Promise((resolve) => setTimeout(resolve, 100));
-
+    setGeneratingPdf(true);
     try {
-      const canvas = await html2canvas(invoiceElement, {
-        scale: window.devicePixelRatio * 2,
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        width: 794,
-        windowWidth: 794,
-        backgroundColor: '#ffffff',
-      } as any);
-
-      const imgData = canvas.toDataURL('image/png', 1.0);
-      const pdf = new jsPDF({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4',
-        compress: true,
-      });
-
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = pdf.internal.pageSize.getHeight();
-      const canvasWidth = canvas.width;
-      const canvasHeight = canvas.height;
-      const ratio = canvasWidth / canvasHeight;
-      const width = pdfWidth;
-      const height = width / ratio;
-
-      let heightLeft = height;
-      let position = 0;
-
-      pdf.addImage(imgData, 'PNG', 0, position, width, height, '', 'FAST');
-      heightLeft -= pdfHeight;
-
-      while (heightLeft > 0) {
-        position = heightLeft - height;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, width, height, '', 'FAST');
-        heightLeft -= pdfHeight;
-      }
-
-      pdf.save(`Invoice-${order.id.substring(0, 8).toUpperCase()}.pdf`);
+      const pdf = await buildInvoicePdf(order, { settings, adjustments, deposits, qrValue: getVerificationUrl(order) });
+      pdf.save(getInvoiceFileName(order));
     } catch (error) {
       console.error('Error generating PDF:', error);
       alert('Gagal membuat PDF. Silakan coba lagi.');
     } finally {
-      Object.assign(invoiceElement.style, originalStyles);
+      setGeneratingPdf(false);
     }
   };
 
+  const { lines: adjustmentLines, taxable_amount } = getAdjustmentLines(order.order_items, adjustments);
+
   // Tambahkan zero-width space untuk memutus autolink
   const safePhone = (phone: string) =>
     phone.replace(/(\d)(?=\d)/g, '$1\u200B');
@@ -132,9 +134,16 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
             </button>
             <button
               onClick={handleDownloadPDF}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+              disabled={generatingPdf}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {generatingPdf ? 'Membuat PDF...' : 'Download PDF'}
+            </button>
+            <button
+              onClick={() => setShowEmail(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
             >
-              Download PDF
+              Kirim Email
             </button>
             <button
               onClick={onClose}
@@ -146,7 +155,7 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
         </div>
 
         {/* Konten Invoice */}
-        <div className="p-6 print:p-12" ref={invoiceRef} id="invoice-content">
+        <div className="p-6 print:p-12" id="invoice-content">
           <div
             className="border-4 border-orange-600 rounded-lg p-6"
             style={{ width: '100%' }}
@@ -155,40 +164,40 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
             <div className="flex items-start justify-between mb-6 pb-4 border-b-2 border-orange-600">
               <div>
                 <img
-                  src="logo.png"
-                  alt="Logo Laju Tuju"
+                  src={getLogoUrl(settings)}
+                  alt={`Logo ${settings.company_name}`}
                   className="w-44 h-auto object-contain block"
                 />
                 <div className="text-sm text-gray-600 leading-tight mt-2">
-                  <p>
-                    Soka Asri Permai, Kadisoka, Purwomartani, Kalasan Sleman
-                  </p>
+                  <p>{settings.address}</p>
                   <p>
                     Telp:{' '}
                     <span className="no-underline-numbers">
-                      +62&#8203;821&#8203;3856&#8203;8822
+                      {safePhone(settings.phone)}
                     </span>
                   </p>
                   <p>
                     Email:{' '}
                     <a
-                      href="mailto:contact@lajutuju.com"
+                      href={`mailto:${settings.email}`}
                       className="ml-1 text-blue-500 underline hover:text-blue-700"
                     >
-                      contact@lajutuju.com
-                    </a>
-                  </p>
-                  <p>
-                    Website:{' '}
-                    <a
-                      href="https://lajutuju.com"
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="ml-1 text-blue-500 underline hover:text-blue-700"
-                    >
-                      lajutuju.com
+                      {settings.email}
                     </a>
                   </p>
+                  {settings.website && (
+                    <p>
+                      Website:{' '}
+                      <a
+                        href={getWebsiteUrl(settings)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-1 text-blue-500 underline hover:text-blue-700"
+                      >
+                        {settings.website}
+                      </a>
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="text-right">
@@ -203,7 +212,7 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
                       className="no-underline-numbers"
                       style={{ fontFamily: 'monospace', fontWeight: 600 }}
                     >
-                      #{order.id.substring(0, 8).toUpperCase()}
+                      {order.invoice_number}
                     </span>
                   </p>
                   <p className="text-gray-600">
@@ -211,6 +220,13 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
                     <br />
                     <span>{formatDate(order.order_date)}</span>
                   </p>
+                  {settings.payment_terms_days > 0 && (
+                    <p className="text-gray-600">
+                      <span className="font-semibold">Jatuh Tempo:</span>
+                      <br />
+                      <span>{formatDate(getDueDate(order.order_date, settings))}</span>
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -315,12 +331,60 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
             {/* Total */}
             <div className="flex justify-end mb-6">
               <div className="w-full max-w-md">
+                {adjustmentLines.length > 0 && (
+                  <div className="mb-2 px-4 space-y-1 text-sm text-gray-700">
+                    <div className="flex justify-between">
+                      <span>Subtotal Sewa</span>
+                      <span className="font-semibold">{formatCurrency(order.subtotal_amount)}</span>
+                    </div>
+                    {adjustmentLines.filter(line => line.kind !== 'tax').map(line => (
+                      <div key={line.id} className="flex justify-between">
+                        <span>{line.label}</span>
+                        <span className="font-semibold">
+                          {line.amount < 0 ? `- ${formatCurrency(-line.amount)}` : formatCurrency(line.amount)}
+                        </span>
+                      </div>
+                    ))}
+                    {order.tax_amount > 0 && (
+                      <>
+                        <div className="flex justify-between border-t border-gray-300 pt-1">
+                          <span>DPP</span>
+                          <span className="font-semibold">{formatCurrency(taxable_amount)}</span>
+                        </div>
+                        {adjustmentLines.filter(line => line.kind === 'tax').map(line => (
+                          <div key={line.id} className="flex justify-between">
+                            <span>{line.label}</span>
+                            <span className="font-semibold">{formatCurrency(line.amount)}</span>
+                          </div>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
                 <div className="bg-orange-600 text-white p-4 rounded-lg flex justify-between items-center">
                   <span className="font-bold uppercase">Total Pembayaran</span>
                   <span className="text-xl font-bold">
                     {formatCurrency(order.total_amount)}
                   </span>
                 </div>
+                <div className="mt-2 px-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-700">
+                    <span>Sudah Dibayar</span>
+                    <span className="font-semibold">
+                      {formatCurrency(order.paid_amount)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-gray-900 font-bold">
+                    <span>Sisa Tagihan</span>
+                    <span>{formatCurrency(getOutstandingAmount(order))}</span>
+                  </div>
+                  <div className="flex justify-between text-gray-700">
+                    <span>Status</span>
+                    <span className="font-semibold uppercase">
+                      {PAYMENT_STATUS_LABELS[order.payment_status]}
+                    </span>
+                  </div>
+                </div>
               </div>
             </div>
 
@@ -331,7 +395,7 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
               </h3>
               <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-gray-700 space-y-1">
                 <p>
-                  <span className="font-medium">Bank:</span> BCA
+                  <span className="font-medium">Bank:</span> {settings.bank_name}
                 </p>
                 <p>
                   <span className="font-medium">No. Rekening:</span>{' '}
@@ -339,16 +403,36 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
                     className="no-underline-numbers"
                     style={{ fontFamily: 'monospace', fontWeight: 600 }}
                   >
-                    4561&#8203;0596&#8203;37
+                    {safePhone(settings.bank_account_number)}
                   </span>
                 </p>
                 <p>
-                  <span className="font-medium">Atas Nama:</span> Moh Fajar
-                  Yogyaning Praharu
+                  <span className="font-medium">Atas Nama:</span>{' '}
+                  {settings.bank_account_name}
                 </p>
               </div>
             </div>
 
+            {/* Jaminan */}
+            {deposits.length > 0 && (
+              <div className="mb-6 pb-4 border-b border-gray-300">
+                <h3 className="text-sm font-bold text-orange-600 mb-2 uppercase tracking-wide">
+                  Jaminan
+                </h3>
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-gray-700 space-y-1">
+                  {deposits.map(deposit => (
+                    <div key={deposit.id} className="flex justify-between gap-4">
+                      <span>
+                        <span className="font-medium">{getDepositTypeLabel(deposit.deposit_type)}:</span>{' '}
+                        {formatDepositDetail(deposit, formatCurrency)}
+                      </span>
+                      <span className="font-semibold text-right">{formatDepositStatus(deposit, formatCurrency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Catatan */}
             {order.notes && (
               <div className="mb-6 pb-4 border-b border-gray-300">
@@ -364,14 +448,31 @@ export default function InvoicePrint({ order, onClose }: InvoicePrintProps) {
             {/* QR Code */}
             <div className="grid grid-cols-2 gap-6 text-center mb-4">
               <div>
-                <p className="text-sm text-gray-600 mb-2">Laju Tuju</p>
-                <QRCodeCanvas value={`Processed by System`} size={80} />
+                <p className="text-sm text-gray-600 mb-2">{settings.company_name}</p>
+                <QRCodeCanvas value={getVerificationUrl(order)} size={80} />
+                <p className="text-xs text-gray-500 mt-1">Scan untuk verifikasi</p>
               </div>
             </div>
+
+            {settings.invoice_footer && (
+              <p className="text-center text-sm text-gray-600 italic whitespace-pre-line">
+                {settings.invoice_footer}
+              </p>
+            )}
           </div>
         </div>
       </div>
 
+      {showEmail && (
+        <InvoiceEmailDialog
+          order={order}
+          settings={settings}
+          adjustments={adjustments}
+          deposits={deposits}
+          onClose={() => setShowEmail(false)}
+        />
+      )}
+
       {/* Style global untuk nomor agar tidak tercoret */}
       <style>{`
         .no-underline-numbers {
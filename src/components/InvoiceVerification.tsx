@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { supabase, InvoiceVerification as InvoiceVerificationData } from '../lib/supabase';
+import { ORDER_STATUS_BADGES, ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { PAYMENT_STATUS_BADGES, PAYMENT_STATUS_LABELS, getOutstandingAmount } from '../lib/payments';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+
+interface InvoiceVerificationProps {
+  token: string;
+}
+
+// Halaman publik (tanpa login) yang dibuka dari QR code di invoice
+export default function InvoiceVerification({ token }: InvoiceVerificationProps) {
+  const [invoice, setInvoice] = useState<InvoiceVerificationData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const { data, error } = await supabase
+          .rpc('verify_invoice', { p_token: token })
+          .maybeSingle<InvoiceVerificationData>();
+
+        if (error) throw error;
+        setInvoice(data);
+      } catch (error) {
+        console.error('Error verifying invoice:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex justify-center items-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-50 via-white to-yellow-50 flex items-center justify-center px-4 py-8">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-6 sm:p-8">
+        {!invoice ? (
+          <div className="text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-red-100 rounded-full mb-4">
+              <ShieldAlert className="w-8 h-8 text-red-600" />
+            </div>
+            <h1 className="text-xl font-bold text-gray-900 mb-2">Invoice Tidak Ditemukan</h1>
+            <p className="text-sm text-gray-600">
+              Kode verifikasi tidak cocok dengan invoice mana pun. Invoice ini kemungkinan tidak asli
+              atau sudah dihapus.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="text-center mb-6">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4">
+                <ShieldCheck className="w-8 h-8 text-green-600" />
+              </div>
+              <h1 className="text-xl font-bold text-gray-900">Invoice Terverifikasi</h1>
+              <p className="text-sm text-gray-600">Diterbitkan oleh {invoice.company_name}</p>
+            </div>
+
+            <dl className="text-sm divide-y divide-gray-200 border-y border-gray-200">
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">No. Invoice</dt>
+                <dd className="font-mono font-semibold text-gray-900">{invoice.invoice_number}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">Tanggal</dt>
+                <dd className="text-gray-900">{formatDate(invoice.order_date)}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">Pelanggan</dt>
+                <dd className="text-gray-900 text-right">{invoice.customer_name}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">Periode Sewa</dt>
+                <dd className="text-gray-900 text-right">
+                  {formatDate(invoice.rental_start_date)} - {formatDate(invoice.rental_end_date)}
+                </dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">Total</dt>
+                <dd className="font-bold text-gray-900">{formatCurrency(invoice.total_amount)}</dd>
+              </div>
+              <div className="flex justify-between gap-4 py-2">
+                <dt className="text-gray-600">Dibayar</dt>
+                <dd className="text-gray-900">{formatCurrency(invoice.paid_amount)}</dd>
+              </div>
+              {invoice.status !== 'cancelled' && (
+                <div className="flex justify-between gap-4 py-2">
+                  <dt className="text-gray-600">Sisa Tagihan</dt>
+                  <dd className="text-red-600">{formatCurrency(getOutstandingAmount(invoice))}</dd>
+                </div>
+              )}
+            </dl>
+
+            <div className="flex justify-center gap-2 mt-4">
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold ${ORDER_STATUS_BADGES[invoice.status]}`}>
+                {ORDER_STATUS_LABELS[invoice.status]}
+              </span>
+              <span className={`px-3 py-1 rounded-full text-xs font-semibold ${PAYMENT_STATUS_BADGES[invoice.payment_status]}`}>
+                {PAYMENT_STATUS_LABELS[invoice.payment_status]}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,72 +1,74 @@
 import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { supabase, MonthlyReportRow, OrderWithItems, YearlyReportRow } from '../lib/supabase';
+import { REVENUE_BASIS_OPTIONS, RevenueBasis, getReportTimeZone } from '../lib/revenueRecognition';
+import RevenueBreakdown from './RevenueBreakdown';
 import { TrendingUp, Calendar, DollarSign, FileBarChart } from 'lucide-react';
 
+interface MonthlyReportProps {
+  onPrint: (order: OrderWithItems) => void;
+}
+
 interface MonthlyData {
+  monthIndex: number;
   month: string;
   year: number;
   order_count: number;
   total_revenue: number;
+  rental_revenue: number;
+  discount_amount: number;
+  charge_amount: number;
+  late_fee_amount: number;
+  tax_amount: number;
 }
 
-export default function MonthlyReport() {
+// Kolom rincian pendapatan per bulan
+const COMPONENT_COLUMNS: {
+  key: 'rental_revenue' | 'discount_amount' | 'charge_amount' | 'late_fee_amount' | 'tax_amount';
+  label: string;
+}[] = [
+  { key: 'rental_revenue', label: 'Sewa' },
+  { key: 'discount_amount', label: 'Diskon' },
+  { key: 'charge_amount', label: 'Biaya Tambahan' },
+  { key: 'late_fee_amount', label: 'Denda Telat' },
+  { key: 'tax_amount', label: 'PPN' },
+];
+
+export default function MonthlyReport({ onPrint }: MonthlyReportProps) {
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [availableYears, setAvailableYears] = useState<number[]>([]);
+  const [selectedMonth, setSelectedMonth] = useState<number | null>(null);
+  const [basis, setBasis] = useState<RevenueBasis>('booking');
 
   useEffect(() => {
     fetchMonthlyReport();
-  }, [selectedYear]);
+  }, [selectedYear, basis]);
 
   const fetchMonthlyReport = async () => {
     try {
-      const { data, error } = await supabase
-        .from('orders')
-        .select('order_date, total_amount')
-        .order('order_date', { ascending: false });
-
-      if (error) throw error;
-
-      const years = new Set<number>();
-      const monthlyMap = new Map<string, MonthlyData>();
-
-      (data || []).forEach(order => {
-        const orderDate = new Date(order.order_date);
-        const year = orderDate.getFullYear();
-        const month = orderDate.getMonth();
-
-        years.add(year);
-
-        if (year === selectedYear) {
-          const key = `${year}-${month}`;
-          const monthName = new Date(year, month, 1).toLocaleDateString('id-ID', { month: 'long' });
-
-          if (monthlyMap.has(key)) {
-            const existing = monthlyMap.get(key)!;
-            existing.order_count += 1;
-            existing.total_revenue += parseFloat(order.total_amount.toString());
-          } else {
-            monthlyMap.set(key, {
-              month: monthName,
-              year: year,
-              order_count: 1,
-              total_revenue: parseFloat(order.total_amount.toString())
-            });
-          }
-        }
-      });
-
-      const sortedYears = Array.from(years).sort((a, b) => b - a);
-      setAvailableYears(sortedYears);
-
-      const sortedData = Array.from(monthlyMap.values()).sort((a, b) => {
-        const monthA = new Date(`${a.month} 1, ${a.year}`).getMonth();
-        const monthB = new Date(`${b.month} 1, ${b.year}`).getMonth();
-        return monthA - monthB;
-      });
-
-      setMonthlyData(sortedData);
+      const timeZone = getReportTimeZone();
+      const [{ data: yearlyRows, error: yearlyError }, { data: monthlyRows, error: monthlyError }] = await Promise.all([
+        supabase.rpc('report_yearly', { p_basis: basis, p_tz: timeZone }),
+        supabase.rpc('report_monthly', { p_year: selectedYear, p_basis: basis, p_tz: timeZone })
+      ]);
+
+      if (yearlyError) throw yearlyError;
+      if (monthlyError) throw monthlyError;
+
+      setAvailableYears(((yearlyRows || []) as YearlyReportRow[]).map(row => row.year));
+      setMonthlyData(((monthlyRows || []) as MonthlyReportRow[]).map(row => ({
+        monthIndex: row.month - 1,
+        month: new Date(selectedYear, row.month - 1, 1).toLocaleDateString('id-ID', { month: 'long' }),
+        year: selectedYear,
+        order_count: Number(row.order_count),
+        total_revenue: Number(row.total_revenue),
+        rental_revenue: Number(row.rental_revenue),
+        discount_amount: Number(row.discount_amount),
+        charge_amount: Number(row.charge_amount),
+        late_fee_amount: Number(row.late_fee_amount),
+        tax_amount: Number(row.tax_amount)
+      })));
     } catch (error) {
       console.error('Error fetching monthly report:', error);
     } finally {
@@ -120,6 +122,18 @@ export default function MonthlyReport() {
           {availableYears.length > 0 && (
             <div className="flex items-center gap-2">
               <Calendar className="w-5 h-5 text-gray-600" />
+              <select
+                value={selectedMonth ?? ''}
+                onChange={(e) => setSelectedMonth(e.target.value === '' ? null : parseInt(e.target.value))}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent font-medium text-gray-900"
+              >
+                <option value="">Sepanjang tahun</option>
+                {Array.from({ length: 12 }, (_, month) => (
+                  <option key={month} value={month}>
+                    {new Date(selectedYear, month, 1).toLocaleDateString('id-ID', { month: 'long' })}
+                  </option>
+                ))}
+              </select>
               <select
                 value={selectedYear}
                 onChange={(e) => setSelectedYear(parseInt(e.target.value))}
@@ -133,6 +147,26 @@ export default function MonthlyReport() {
           )}
         </div>
 
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 mb-6">
+          <span className="text-sm font-medium text-gray-700">Akui pendapatan menurut:</span>
+          <div className="flex gap-2">
+            {REVENUE_BASIS_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setBasis(value)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  basis === value ? 'bg-orange-600 text-white shadow-md' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-gray-500">
+            {REVENUE_BASIS_OPTIONS.find(option => option.value === basis)?.description}
+          </span>
+        </div>
+
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
           <div className="bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200 rounded-lg p-4">
             <div className="flex items-center gap-2 mb-2">
@@ -140,7 +174,9 @@ export default function MonthlyReport() {
               <span className="text-sm font-medium text-orange-900">Total Order</span>
             </div>
             <p className="text-3xl font-bold text-orange-600">{getTotalOrders()}</p>
-            <p className="text-xs text-orange-600 mt-1">order masuk tahun {selectedYear}</p>
+            <p className="text-xs text-orange-600 mt-1">
+              {basis === 'booking' ? 'order masuk' : 'order berjalan, dihitung per bulan,'} tahun {selectedYear}
+            </p>
           </div>
 
           <div className="bg-gradient-to-br from-green-50 to-green-100 border border-green-200 rounded-lg p-4">
@@ -177,6 +213,9 @@ export default function MonthlyReport() {
                 <tr className="bg-orange-600 text-white">
                   <th className="text-left px-4 sm:px-6 py-4 text-sm font-semibold">Bulan</th>
                   <th className="text-center px-4 sm:px-6 py-4 text-sm font-semibold">Jumlah Order</th>
+                  {COMPONENT_COLUMNS.map(({ key, label }) => (
+                    <th key={key} className="text-right px-4 sm:px-6 py-4 text-sm font-semibold hidden lg:table-cell">{label}</th>
+                  ))}
                   <th className="text-right px-4 sm:px-6 py-4 text-sm font-semibold">Total Pendapatan</th>
                   <th className="text-right px-4 sm:px-6 py-4 text-sm font-semibold hidden sm:table-cell">Rata-rata Order</th>
                 </tr>
@@ -185,7 +224,8 @@ export default function MonthlyReport() {
                 {monthlyData.map((data, index) => (
                   <tr
                     key={`${data.year}-${data.month}`}
-                    className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors`}
+                    onClick={() => setSelectedMonth(data.monthIndex === selectedMonth ? null : data.monthIndex)}
+                    className={`${data.monthIndex === selectedMonth ? 'bg-orange-100' : index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors cursor-pointer`}
                   >
                     <td className="px-4 sm:px-6 py-4 border-b border-gray-200">
                       <div className="flex items-center gap-2">
@@ -198,6 +238,11 @@ export default function MonthlyReport() {
                         {data.order_count} order
                       </span>
                     </td>
+                    {COMPONENT_COLUMNS.map(({ key }) => (
+                      <td key={key} className={`px-4 sm:px-6 py-4 border-b border-gray-200 text-right hidden lg:table-cell ${key === 'discount_amount' ? 'text-red-700' : 'text-gray-700'}`}>
+                        {formatCurrency(data[key])}
+                      </td>
+                    ))}
                     <td className="px-4 sm:px-6 py-4 border-b border-gray-200 text-right font-semibold text-gray-900">
                       {formatCurrency(data.total_revenue)}
                     </td>
@@ -211,6 +256,11 @@ export default function MonthlyReport() {
                 <tr className="bg-orange-50 border-t-2 border-orange-600 font-bold">
                   <td className="px-4 sm:px-6 py-4 text-gray-900">TOTAL</td>
                   <td className="px-4 sm:px-6 py-4 text-center text-orange-600">{getTotalOrders()} order</td>
+                  {COMPONENT_COLUMNS.map(({ key }) => (
+                    <td key={key} className="px-4 sm:px-6 py-4 text-right text-orange-600 hidden lg:table-cell">
+                      {formatCurrency(monthlyData.reduce((sum, data) => sum + data[key], 0))}
+                    </td>
+                  ))}
                   <td className="px-4 sm:px-6 py-4 text-right text-orange-600">{formatCurrency(getTotalRevenue())}</td>
                   <td className="px-4 sm:px-6 py-4 text-right text-orange-600 hidden sm:table-cell">
                     {formatCurrency(getAverageRevenue())}
@@ -221,6 +271,10 @@ export default function MonthlyReport() {
           </div>
         </div>
       )}
+
+      {monthlyData.length > 0 && (
+        <RevenueBreakdown year={selectedYear} month={selectedMonth} basis={basis} onPrint={onPrint} />
+      )}
     </div>
   );
 }
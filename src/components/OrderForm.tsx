@@ -1,7 +1,31 @@
 import { useState, useEffect } from 'react';
-import { supabase, OrderWithItems } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
-import { X, Plus, Trash2 } from 'lucide-react';
+import {
+  supabase,
+  AdjustmentCalculation,
+  AdjustmentKind,
+  ChargeType,
+  Customer,
+  Driver,
+  DriverConflict,
+  OrderAdjustment,
+  OrderWithItems,
+  Vehicle,
+  VehicleConflict
+} from '../lib/supabase';
+import { formatVehicleLabel } from '../lib/vehicles';
+import { formatDriverLabel, getLicenseStatus } from '../lib/drivers';
+import { normalizePhone } from '../lib/phone';
+import {
+  ADJUSTMENT_KIND_LABELS,
+  CHARGE_TYPES,
+  DEFAULT_PPN_RATE,
+  PPN_LABEL,
+  calculateOrderAmounts,
+  getChargeTypeLabel
+} from '../lib/orderAdjustments';
+import { SaveOrderPayload, cacheList, getCachedList, getCachedOrderAdjustments } from '../lib/offlineStore';
+import { getSaveOrderErrorMessage, getUserQueuedOrders, isNetworkError, queueOrderSave } from '../lib/offlineQueue';
+import { X, Plus, Trash2, AlertCircle, UserCheck } from 'lucide-react';
 
 interface OrderFormProps {
   onClose: () => void;
@@ -11,14 +35,30 @@ interface OrderFormProps {
 
 interface FormItem {
   id?: string;
+  // Id item, atau key sementara untuk item baru; dipakai diskon per item
+  key: string;
+  vehicle_id: string | null;
+  driver_id: string | null;
   car_type: string;
   quantity: number;
   daily_rate: number;
   days: number;
 }
 
+interface FormAdjustment {
+  id?: string;
+  item_key: string | null;
+  kind: AdjustmentKind;
+  charge_type: ChargeType | null;
+  label: string;
+  calculation: AdjustmentCalculation;
+  value: number;
+}
+
+let nextItemKey = 0;
+const newItemKey = () => `new-${nextItemKey++}`;
+
 export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormProps) {
-  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
@@ -26,9 +66,85 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
   const [rentalStartDate, setRentalStartDate] = useState('');
   const [rentalEndDate, setRentalEndDate] = useState('');
   const [notes, setNotes] = useState('');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [conflicts, setConflicts] = useState<VehicleConflict[]>([]);
+  const [driverConflicts, setDriverConflicts] = useState<DriverConflict[]>([]);
+  const [customerQuery, setCustomerQuery] = useState<{ field: 'name' | 'phone'; value: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<Customer[]>([]);
   const [items, setItems] = useState<FormItem[]>([
-    { car_type: '', quantity: 1, daily_rate: 0, days: 1 }
+    { key: newItemKey(), vehicle_id: null, driver_id: null, car_type: '', quantity: 1, daily_rate: 0, days: 1 }
   ]);
+  const [adjustments, setAdjustments] = useState<FormAdjustment[]>([]);
+  // Tanpa rincian biaya, menyimpan order lama akan menghapus diskon dan biayanya
+  const [adjustmentsMissing, setAdjustmentsMissing] = useState(false);
+  const [hasQueuedChanges, setHasQueuedChanges] = useState(false);
+  // Id order baru dibuat di perangkat, jadi kiriman ulang (respons hilang, antrean offline) tidak membuat order ganda
+  const [newOrderId] = useState(() => crypto.randomUUID());
+
+  useEffect(() => {
+    const fetchVehicles = async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .order('make', { ascending: true })
+        .order('model', { ascending: true });
+      if (error) {
+        console.error('Error fetching vehicles:', error);
+        setVehicles(await getCachedList<Vehicle>('vehicles').catch(() => []));
+        return;
+      }
+      setVehicles(data || []);
+      cacheList('vehicles', data || []).catch(cacheError => console.error('Error caching vehicles:', cacheError));
+    };
+    const fetchDrivers = async () => {
+      const { data, error } = await supabase
+        .from('drivers')
+        .select('*')
+        .order('name', { ascending: true });
+      if (error) {
+        console.error('Error fetching drivers:', error);
+        setDrivers(await getCachedList<Driver>('drivers').catch(() => []));
+        return;
+      }
+      setDrivers(data || []);
+      cacheList('drivers', data || []).catch(cacheError => console.error('Error caching drivers:', cacheError));
+    };
+    fetchVehicles();
+    fetchDrivers();
+  }, []);
+
+  // Autocomplete pelanggan lama dari nama atau nomor HP yang sedang diketik
+  useEffect(() => {
+    if (!customerQuery || customerQuery.value.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      let query = supabase.from('customers').select('*').order('name').limit(6);
+      if (customerQuery.field === 'phone') {
+        query = query.like('phone_normalized', `%${normalizePhone(customerQuery.value)}%`);
+      } else {
+        query = query.ilike('name', `%${customerQuery.value.trim()}%`);
+      }
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error searching customers:', error);
+        return;
+      }
+      setSuggestions(data || []);
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [customerQuery]);
+
+  const selectCustomer = (customer: Customer) => {
+    setCustomerName(customer.name);
+    setCustomerPhone(customer.phone);
+    setCustomerAddress(customer.address || '');
+    setCustomerQuery(null);
+  };
 
   useEffect(() => {
     if (editOrder) {
@@ -40,97 +156,272 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
       setNotes(editOrder.notes || '');
       setItems(editOrder.order_items.map(item => ({
         id: item.id,
+        key: item.id,
+        vehicle_id: item.vehicle_id,
+        driver_id: item.driver_id,
         car_type: item.car_type,
         quantity: item.quantity,
         daily_rate: item.daily_rate,
         days: item.days
       })));
+
+      const fetchAdjustments = async () => {
+        const { data, error } = await supabase
+          .from('order_adjustments')
+          .select('*')
+          .eq('order_id', editOrder.id)
+          .order('sort_order', { ascending: true });
+        if (error) {
+          console.error('Error fetching order adjustments:', error);
+        }
+        const rows = error && isNetworkError(error)
+          ? await getCachedOrderAdjustments(editOrder.id).catch(() => null)
+          : error ? null : (data || []) as OrderAdjustment[];
+        if (!rows) {
+          setAdjustmentsMissing(true);
+          return;
+        }
+        setAdjustments(rows.map(adjustment => ({
+          id: adjustment.id,
+          item_key: adjustment.order_item_id,
+          kind: adjustment.kind,
+          charge_type: adjustment.charge_type,
+          label: adjustment.label,
+          calculation: adjustment.calculation,
+          value: Number(adjustment.value)
+        })));
+      };
+
+      // Perubahan offline yang belum terkirim dimuat lagi supaya tidak tertimpa versi lama
+      const loadQueuedChanges = async () => {
+        const queued = (await getUserQueuedOrders().catch(() => []))
+          .find(entry => entry.order_id === editOrder.id);
+        if (!queued) {
+          fetchAdjustments();
+          return;
+        }
+        const { p_order: order, p_items: queuedItems, p_adjustments: queuedAdjustments } = queued.payload;
+        const formItems = queuedItems.map(item => ({
+          ...(item as Omit<FormItem, 'id' | 'key'>),
+          id: (item.id as string | null) ?? undefined,
+          key: (item.id as string | null) ?? newItemKey()
+        }));
+        setHasQueuedChanges(true);
+        setCustomerName(String(order.customer_name ?? ''));
+        setCustomerPhone(String(order.customer_phone ?? ''));
+        setCustomerAddress(String(order.customer_address ?? ''));
+        setRentalStartDate(String(order.rental_start_date ?? ''));
+        setRentalEndDate(String(order.rental_end_date ?? ''));
+        setNotes(String(order.notes ?? ''));
+        setItems(formItems);
+        setAdjustments(queuedAdjustments.map(adjustment => ({
+          ...(adjustment as Omit<FormAdjustment, 'id' | 'item_key'>),
+          id: (adjustment.id as string | null) ?? undefined,
+          item_key: adjustment.item_index === null ? null : formItems[adjustment.item_index as number]?.key ?? null
+        })));
+      };
+      loadQueuedChanges();
     }
   }, [editOrder]);
 
-  const addItem = () => setItems([...items, { car_type: '', quantity: 1, daily_rate: 0, days: 1 }]);
-  const removeItem = (index: number) => items.length > 1 && setItems(items.filter((_, i) => i !== index));
-  const updateItem = (index: number, field: keyof FormItem, value: string | number) => {
+  const addItem = () => setItems([...items, { key: newItemKey(), vehicle_id: null, driver_id: null, car_type: '', quantity: 1, daily_rate: 0, days: 1 }]);
+  const removeItem = (index: number) => {
+    if (items.length <= 1) return;
+    // Diskon milik item yang dihapus ikut hilang
+    setAdjustments(adjustments.filter(adjustment => adjustment.item_key !== items[index].key));
+    setItems(items.filter((_, i) => i !== index));
+  };
+  const updateItem = (index: number, field: keyof FormItem, value: string | number | null) => {
     const newItems = [...items];
     newItems[index] = { ...newItems[index], [field]: value };
     setItems(newItems);
   };
-  const calculateTotal = () => items.reduce((total, item) => total + item.quantity * item.daily_rate * item.days, 0);
+  const selectVehicle = (index: number, vehicleId: string) => {
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    const newItems = [...items];
+    newItems[index] = vehicle
+      ? { ...newItems[index], vehicle_id: vehicle.id, car_type: formatVehicleLabel(vehicle), daily_rate: vehicle.daily_rate }
+      : { ...newItems[index], vehicle_id: null, car_type: '' };
+    setItems(newItems);
+  };
+  // Kendaraan nonaktif tetap ditampilkan bila sudah terpilih di order yang sedang diedit
+  const vehicleOptions = (item: FormItem) =>
+    vehicles.filter(v => v.is_active || v.id === item.vehicle_id);
+  const driverOptions = (item: FormItem) =>
+    drivers.filter(d => d.is_active || d.id === item.driver_id);
+  // SIM harus masih berlaku sampai sewa selesai
+  const isLicenseExpired = (driverId: string | null) => {
+    const driver = drivers.find(d => d.id === driverId);
+    return !!driver && !!rentalEndDate && getLicenseStatus(driver, rentalEndDate) === 'expired';
+  };
+
+  const addAdjustment = (kind: AdjustmentKind) => {
+    const adjustment: FormAdjustment = kind === 'tax'
+      ? { item_key: null, kind, charge_type: null, label: PPN_LABEL, calculation: 'percent', value: DEFAULT_PPN_RATE }
+      : kind === 'charge'
+        ? { item_key: null, kind, charge_type: 'driver', label: getChargeTypeLabel('driver'), calculation: 'fixed', value: 0 }
+        : { item_key: null, kind, charge_type: null, label: 'Diskon', calculation: 'percent', value: 0 };
+    setAdjustments([...adjustments, adjustment]);
+  };
+  const removeAdjustment = (index: number) => setAdjustments(adjustments.filter((_, i) => i !== index));
+  const updateAdjustment = (index: number, changes: Partial<FormAdjustment>) => {
+    const newAdjustments = [...adjustments];
+    newAdjustments[index] = { ...newAdjustments[index], ...changes };
+    setAdjustments(newAdjustments);
+  };
+  const selectChargeType = (index: number, chargeType: ChargeType) => {
+    const current = adjustments[index];
+    // Keterangan ikut berganti selama belum diubah manual
+    const keepLabel = current.charge_type && current.label !== getChargeTypeLabel(current.charge_type);
+    updateAdjustment(index, { charge_type: chargeType, label: keepLabel ? current.label : getChargeTypeLabel(chargeType) });
+  };
+
+  // Pratinjau; angka final dihitung ulang di database dengan aturan yang sama
+  const amounts = calculateOrderAmounts(
+    items.map(item => ({ key: item.key, subtotal: item.quantity * item.daily_rate * item.days })),
+    adjustments
+  );
 
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
 
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  // Cek bentrok jadwal sebelum menyimpan; constraint di database tetap jadi penjaga terakhir
+  const findConflicts = async (): Promise<VehicleConflict[] | null> => {
+    const vehicleIds = items.map(item => item.vehicle_id).filter((id): id is string => !!id);
+    if (vehicleIds.length === 0) return [];
+
+    if (new Set(vehicleIds).size !== vehicleIds.length) {
+      alert('Kendaraan yang sama dipilih lebih dari sekali dalam order ini');
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('find_vehicle_conflicts', {
+      p_vehicle_ids: vehicleIds,
+      p_start_date: rentalStartDate,
+      p_end_date: rentalEndDate,
+      p_exclude_order_id: editOrder?.id ?? null
+    });
+    if (error) throw error;
+    return data || [];
+  };
+
+  const findDriverConflicts = async (): Promise<DriverConflict[] | null> => {
+    const driverIds = items.map(item => item.driver_id).filter((id): id is string => !!id);
+    if (driverIds.length === 0) return [];
+
+    if (new Set(driverIds).size !== driverIds.length) {
+      alert('Sopir yang sama dipilih lebih dari sekali dalam order ini');
+      return null;
+    }
+
+    const { data, error } = await supabase.rpc('find_driver_conflicts', {
+      p_driver_ids: driverIds,
+      p_start_date: rentalStartDate,
+      p_end_date: rentalEndDate,
+      p_exclude_order_id: editOrder?.id ?? null
+    });
+    if (error) throw error;
+    return data || [];
+  };
+
+  const saveOffline = async (payload: SaveOrderPayload) => {
+    try {
+      await queueOrderSave(payload, editOrder ?? null);
+      alert('Koneksi sedang terputus. Order disimpan di perangkat dan dikirim otomatis saat online kembali.');
+      onClose();
+    } catch (error) {
+      console.error('Error queueing order:', error);
+      alert('Gagal menyimpan order');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (rentalEndDate < rentalStartDate) {
+      alert('Tanggal selesai sewa tidak boleh sebelum tanggal mulai');
+      return;
+    }
+    // Satu sopir hanya bisa membawa satu kendaraan
+    if (items.some(item => item.driver_id && item.quantity > 1)) {
+      alert('Item dengan sopir hanya boleh berisi 1 unit. Pisahkan menjadi beberapa item.');
+      return;
+    }
+    if (items.some(item => isLicenseExpired(item.driver_id))
+      && !confirm('SIM salah satu sopir habis sebelum sewa selesai. Tetap simpan?')) {
+      return;
+    }
+    if (adjustmentsMissing) {
+      alert('Rincian biaya order ini belum termuat. Coba lagi saat koneksi tersedia.');
+      return;
+    }
+
+    // Total dan subtotal dihitung ulang di database; yang dikirim hanya data mentah
+    const payload: SaveOrderPayload = {
+      p_order_id: editOrder?.id ?? null,
+      p_order: {
+        id: editOrder ? null : newOrderId,
+        customer_name: customerName,
+        customer_phone: customerPhone,
+        customer_address: customerAddress,
+        rental_start_date: rentalStartDate,
+        rental_end_date: rentalEndDate,
+        notes
+      },
+      p_items: items.map(item => ({
+        id: item.id ?? null,
+        vehicle_id: item.vehicle_id,
+        driver_id: item.driver_id,
+        car_type: item.car_type,
+        quantity: item.quantity,
+        daily_rate: item.daily_rate,
+        days: item.days
+      })),
+      p_adjustments: adjustments.map(adjustment => {
+        const itemIndex = items.findIndex(item => item.key === adjustment.item_key);
+        return {
+          id: adjustment.id ?? null,
+          item_index: itemIndex === -1 ? null : itemIndex,
+          kind: adjustment.kind,
+          charge_type: adjustment.charge_type,
+          label: adjustment.label,
+          calculation: adjustment.calculation,
+          value: adjustment.value
+        };
+      })
+    };
+
     setLoading(true);
     try {
-      const totalAmount = calculateTotal();
-
-      if (editOrder) {
-        const { error: orderError } = await supabase
-          .from('orders')
-          .update({
-            customer_name: customerName,
-            customer_phone: customerPhone,
-            customer_address: customerAddress || null,
-            rental_start_date: rentalStartDate,
-            rental_end_date: rentalEndDate,
-            total_amount: totalAmount,
-            notes: notes || null
-          })
-          .eq('id', editOrder.id);
-        if (orderError) throw orderError;
-
-        const { error: deleteError } = await supabase
-          .from('order_items')
-          .delete()
-          .eq('order_id', editOrder.id);
-        if (deleteError) throw deleteError;
-
-        const orderItems = items.map(item => ({
-          order_id: editOrder.id,
-          car_type: item.car_type,
-          quantity: item.quantity,
-          daily_rate: item.daily_rate,
-          days: item.days,
-          subtotal: item.quantity * item.daily_rate * item.days
-        }));
-        const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-        if (itemsError) throw itemsError;
-      } else {
-        const { data: orderData, error: orderError } = await supabase
-          .from('orders')
-          .insert({
-            user_id: user?.id,
-            customer_name: customerName,
-            customer_phone: customerPhone,
-            customer_address: customerAddress || null,
-            rental_start_date: rentalStartDate,
-            rental_end_date: rentalEndDate,
-            total_amount: totalAmount,
-            notes: notes || null
-          })
-          .select()
-          .single();
-        if (orderError) throw orderError;
-
-        const orderItems = items.map(item => ({
-          order_id: orderData.id,
-          car_type: item.car_type,
-          quantity: item.quantity,
-          daily_rate: item.daily_rate,
-          days: item.days,
-          subtotal: item.quantity * item.daily_rate * item.days
-        }));
-        const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-        if (itemsError) throw itemsError;
+      // Cek jadwal butuh server; saat offline bentrok baru ketahuan ketika antrean dikirim
+      if (!navigator.onLine) {
+        await saveOffline(payload);
+        return;
       }
 
+      const found = await findConflicts();
+      if (found === null) return;
+      const foundDrivers = await findDriverConflicts();
+      if (foundDrivers === null) return;
+      setConflicts(found);
+      setDriverConflicts(foundDrivers);
+      if (found.length > 0 || foundDrivers.length > 0) return;
+
+      const { error } = await supabase.rpc('save_order', payload);
+      if (error) throw error;
+
       onSuccess();
       onClose();
     } catch (error) {
+      // Sinyal putus di tengah jalan: input tidak dibuang, masuk antrean
+      if (isNetworkError(error)) {
+        await saveOffline(payload);
+        return;
+      }
       console.error('Error saving order:', error);
-      alert('Gagal menyimpan order');
+      alert(getSaveOrderErrorMessage(error));
     } finally {
       setLoading(false);
     }
@@ -149,18 +440,60 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-6">
+          {hasQueuedChanges && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+              Form berisi perubahan offline yang belum tersinkron ke server.
+            </div>
+          )}
+          {adjustmentsMissing && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+              Rincian biaya order ini belum termuat karena koneksi terputus. Order belum bisa disimpan.
+            </div>
+          )}
+
           {/* Customer info, rental dates */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="relative grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Nama Pelanggan *</label>
-              <input type="text" required value={customerName} onChange={(e) => setCustomerName(e.target.value)}
+              <input type="text" required autoComplete="off" value={customerName}
+                onChange={(e) => {
+                  setCustomerName(e.target.value);
+                  setCustomerQuery({ field: 'name', value: e.target.value });
+                }}
+                onKeyDown={(e) => e.key === 'Escape' && setCustomerQuery(null)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">No. Telepon *</label>
-              <input type="tel" required value={customerPhone} onChange={(e) => setCustomerPhone(e.target.value)}
+              <input type="tel" required autoComplete="off" value={customerPhone}
+                onChange={(e) => {
+                  setCustomerPhone(e.target.value);
+                  setCustomerQuery({ field: 'phone', value: e.target.value });
+                }}
+                onKeyDown={(e) => e.key === 'Escape' && setCustomerQuery(null)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
             </div>
+
+            {customerQuery && suggestions.length > 0 && (
+              <div className="absolute left-0 right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-20 overflow-hidden">
+                <p className="px-4 py-2 text-xs font-medium text-gray-500 bg-gray-50 border-b border-gray-200">Pelanggan terdaftar</p>
+                {suggestions.map(customer => (
+                  <button
+                    key={customer.id}
+                    type="button"
+                    onClick={() => selectCustomer(customer)}
+                    className="w-full flex items-start gap-3 px-4 py-2 text-left hover:bg-yellow-50 transition-colors"
+                  >
+                    <UserCheck className="w-4 h-4 text-orange-600 mt-0.5 flex-shrink-0" />
+                    <span className="text-sm">
+                      <span className="font-medium text-gray-900">{customer.name}</span>
+                      <span className="text-gray-600 ml-2">{customer.phone}</span>
+                      {customer.address && <span className="block text-xs text-gray-500">{customer.address}</span>}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           <div>
@@ -206,9 +539,32 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
 
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
                     <div className="lg:col-span-2">
-                      <label className="block text-xs font-medium text-gray-600 mb-1">Tipe Mobil *</label>
-                      <input type="text" required value={item.car_type} onChange={(e) => updateItem(index, 'car_type', e.target.value)}
-                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Kendaraan *</label>
+                      <select required={!item.car_type} value={item.vehicle_id ?? ''} onChange={(e) => selectVehicle(index, e.target.value)}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white">
+                        <option value="">{item.car_type && !item.vehicle_id ? `${item.car_type} (data lama)` : 'Pilih kendaraan...'}</option>
+                        {vehicleOptions(item).map(vehicle => (
+                          <option key={vehicle.id} value={vehicle.id}>
+                            {formatVehicleLabel(vehicle)}{vehicle.is_active ? '' : ' - nonaktif'}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="lg:col-span-2">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Sopir</label>
+                      <select value={item.driver_id ?? ''} onChange={(e) => updateItem(index, 'driver_id', e.target.value || null)}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white">
+                        <option value="">Tanpa sopir (lepas kunci)</option>
+                        {driverOptions(item).map(driver => (
+                          <option key={driver.id} value={driver.id}>
+                            {formatDriverLabel(driver)}{driver.is_active ? '' : ' - nonaktif'}
+                          </option>
+                        ))}
+                      </select>
+                      {isLicenseExpired(item.driver_id) && (
+                        <p className="text-xs text-red-600 mt-1">SIM sopir ini habis sebelum sewa selesai</p>
+                      )}
                     </div>
 
                     <div>
@@ -239,6 +595,85 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
             </div>
           </div>
 
+          {/* Adjustments */}
+          <div className="border-t border-gray-200 pt-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Diskon, Biaya & Pajak</h3>
+              <div className="flex flex-wrap gap-2">
+                {(['discount', 'charge', 'tax'] as AdjustmentKind[]).map(kind => (
+                  <button key={kind} type="button" onClick={() => addAdjustment(kind)}
+                    className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium">
+                    <Plus className="w-4 h-4" /> {kind === 'tax' ? `${PPN_LABEL} ${DEFAULT_PPN_RATE}%` : ADJUSTMENT_KIND_LABELS[kind]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {adjustments.length === 0 ? (
+              <p className="text-sm text-gray-500">Belum ada diskon, biaya tambahan atau pajak</p>
+            ) : (
+              <div className="space-y-3">
+                {adjustments.map((adjustment, index) => (
+                  <div key={adjustment.id ?? `new-adjustment-${index}`} className="grid grid-cols-1 sm:grid-cols-12 gap-3 items-end bg-gray-50 p-3 rounded-lg border border-gray-200">
+                    <div className="sm:col-span-3">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">{ADJUSTMENT_KIND_LABELS[adjustment.kind]}</label>
+                      {adjustment.kind === 'discount' ? (
+                        <select value={adjustment.item_key ?? ''} onChange={(e) => updateAdjustment(index, { item_key: e.target.value || null })}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white">
+                          <option value="">Seluruh order</option>
+                          {items.map((item, itemIndex) => (
+                            <option key={item.key} value={item.key}>Item #{itemIndex + 1}{item.car_type ? ` - ${item.car_type}` : ''}</option>
+                          ))}
+                        </select>
+                      ) : adjustment.kind === 'charge' ? (
+                        <select value={adjustment.charge_type ?? 'other'} onChange={(e) => selectChargeType(index, e.target.value as ChargeType)}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white">
+                          {/* Denda keterlambatan hanya dibuat dari form pengembalian */}
+                          {CHARGE_TYPES.filter(type => type.value !== 'late_return' || adjustment.charge_type === 'late_return').map(type => (
+                            <option key={type.value} value={type.value}>{type.label}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <div className="px-3 py-2 text-sm bg-gray-100 border border-gray-300 rounded-lg text-gray-700">Dari DPP</div>
+                      )}
+                    </div>
+                    <div className="sm:col-span-3">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Keterangan *</label>
+                      <input type="text" required value={adjustment.label} onChange={(e) => updateAdjustment(index, { label: e.target.value })}
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                    </div>
+                    <div className="sm:col-span-2">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Nilai *</label>
+                      <div className="flex">
+                        <input type="number" required min={0} max={adjustment.calculation === 'percent' ? 100 : undefined} step="any"
+                          value={adjustment.value} onChange={(e) => updateAdjustment(index, { value: parseFloat(e.target.value) || 0 })}
+                          className="w-full min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-l-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                        <select value={adjustment.calculation} onChange={(e) => updateAdjustment(index, { calculation: e.target.value as AdjustmentCalculation })}
+                          disabled={adjustment.charge_type === 'late_return'}
+                          className="px-2 py-2 text-sm border border-l-0 border-gray-300 rounded-r-lg bg-white disabled:bg-gray-100">
+                          <option value="percent">%</option>
+                          <option value="fixed">Rp</option>
+                        </select>
+                      </div>
+                    </div>
+                    <div className="sm:col-span-3">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Jumlah</label>
+                      <div className={`px-3 py-2 text-sm bg-gray-100 border border-gray-300 rounded-lg font-semibold ${adjustment.kind === 'discount' ? 'text-red-700' : 'text-gray-900'}`}>
+                        {adjustment.kind === 'discount' ? '- ' : ''}{formatCurrency(amounts.amounts[index])}
+                      </div>
+                    </div>
+                    <div className="sm:col-span-1 flex justify-end">
+                      <button type="button" onClick={() => removeAdjustment(index)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Catatan</label>
@@ -247,13 +682,80 @@ export default function OrderForm({ onClose, onSuccess, editOrder }: OrderFormPr
           </div>
 
           {/* Total */}
-          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-1">
+            {adjustments.length > 0 && (
+              <div className="space-y-1 pb-2 mb-2 border-b border-yellow-200 text-sm text-gray-700">
+                <div className="flex justify-between">
+                  <span>Subtotal Sewa</span>
+                  <span className="font-medium">{formatCurrency(amounts.subtotal_amount)}</span>
+                </div>
+                {amounts.discount_amount > 0 && (
+                  <div className="flex justify-between text-red-700">
+                    <span>Diskon</span>
+                    <span className="font-medium">- {formatCurrency(amounts.discount_amount)}</span>
+                  </div>
+                )}
+                {amounts.charge_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span>Biaya Tambahan</span>
+                    <span className="font-medium">{formatCurrency(amounts.charge_amount)}</span>
+                  </div>
+                )}
+                {amounts.tax_amount > 0 && (
+                  <div className="flex justify-between">
+                    <span>{PPN_LABEL} (DPP {formatCurrency(amounts.taxable_amount)})</span>
+                    <span className="font-medium">{formatCurrency(amounts.tax_amount)}</span>
+                  </div>
+                )}
+              </div>
+            )}
             <div className="flex justify-between items-center">
               <span className="text-lg font-semibold text-gray-900">Total Keseluruhan:</span>
-              <span className="text-2xl font-bold text-yellow-600">{formatCurrency(calculateTotal())}</span>
+              <span className="text-2xl font-bold text-yellow-600">{formatCurrency(amounts.total_amount)}</span>
             </div>
           </div>
 
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-semibold text-red-800 mb-2">Jadwal bentrok dengan order lain:</p>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {conflicts.map(conflict => (
+                      <li key={`${conflict.order_id}-${conflict.vehicle_id}`}>
+                        <span className="font-medium">{conflict.car_type}</span> — {conflict.customer_name},{' '}
+                        {formatDate(conflict.rental_start_date)} s/d {formatDate(conflict.rental_end_date)}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-red-600 mt-2">Ganti kendaraan atau ubah periode sewa, lalu simpan lagi.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {driverConflicts.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <div className="flex-1">
+                  <p className="font-semibold text-red-800 mb-2">Sopir sudah bertugas di order lain:</p>
+                  <ul className="space-y-1 text-sm text-red-700">
+                    {driverConflicts.map(conflict => (
+                      <li key={`${conflict.order_id}-${conflict.driver_id}`}>
+                        <span className="font-medium">{conflict.driver_name}</span> — {conflict.customer_name} ({conflict.car_type}),{' '}
+                        {formatDate(conflict.rental_start_date)} s/d {formatDate(conflict.rental_end_date)}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-red-600 mt-2">Ganti sopir atau ubah periode sewa, lalu simpan lagi.</p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Buttons */}
           <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
             <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
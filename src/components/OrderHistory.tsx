@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { supabase, AuditLogEntry, DepositStatus, DepositType, OrderStatus, OrderWithItems, PaymentMethod } from '../lib/supabase';
+import { AUDIT_ACTION_LABELS, AuditChange, getAuditChanges } from '../lib/auditLog';
+import { ORDER_STATUS_LABELS } from '../lib/orderStatus';
+import { getPaymentMethodLabel } from '../lib/payments';
+import { DEPOSIT_STATUS_LABELS, getDepositTypeLabel } from '../lib/deposits';
+import { X, History, ArrowRight } from 'lucide-react';
+
+interface OrderHistoryProps {
+  order: OrderWithItems;
+  onClose: () => void;
+}
+
+const ACTION_BADGES = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+export default function OrderHistory({ order, onClose }: OrderHistoryProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('audit_log')
+          .select('*')
+          .eq('order_id', order.id)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false });
+
+        if (error) throw error;
+
+        setEntries(data || []);
+      } catch (error) {
+        console.error('Error fetching order history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [order.id]);
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(value);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' });
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const formatValue = (change: AuditChange, value: unknown) => {
+    if (value === null || value === '') return '-';
+
+    switch (change.kind) {
+      case 'currency':
+        return formatCurrency(Number(value));
+      case 'date':
+        return formatDate(String(value));
+      case 'datetime':
+        return formatDateTime(String(value));
+      case 'status':
+        return ORDER_STATUS_LABELS[value as OrderStatus] ?? String(value);
+      case 'method':
+        return getPaymentMethodLabel(value as PaymentMethod);
+      case 'calculation':
+        return value === 'percent' ? 'Persen' : 'Nominal';
+      case 'deposit_type':
+        return getDepositTypeLabel(value as DepositType);
+      case 'deposit_status':
+        return DEPOSIT_STATUS_LABELS[value as DepositStatus] ?? String(value);
+      default:
+        return String(value);
+    }
+  };
+
+  // Keterangan singkat baris yang berubah, supaya item dan pembayaran bisa dibedakan
+  const getEntrySubject = (entry: AuditLogEntry) => {
+    const row = entry.new_data ?? entry.old_data;
+    if (!row) return null;
+    if (entry.table_name === 'order_items') return String(row.car_type ?? '');
+    if (entry.table_name === 'order_adjustments') return String(row.label ?? '');
+    if (entry.table_name === 'payments') return formatCurrency(Number(row.amount));
+    if (entry.table_name === 'order_deposits') return getDepositTypeLabel(row.deposit_type as DepositType);
+    return null;
+  };
+
+  // Perubahan yang hanya menyentuh kolom turunan tidak punya baris untuk ditampilkan
+  const visibleEntries = entries.filter(entry => entry.action !== 'update' || getAuditChanges(entry).length > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Riwayat</h2>
+            <p className="text-sm text-gray-600">{order.customer_name} · <span className="font-mono">{order.invoice_number}</span></p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : visibleEntries.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <History className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+              <p>Belum ada riwayat perubahan</p>
+            </div>
+          ) : (
+            <ol className="space-y-3">
+              {visibleEntries.map(entry => {
+                const changes = getAuditChanges(entry);
+                const subject = getEntrySubject(entry);
+                return (
+                  <li key={entry.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ACTION_BADGES[entry.action]}`}>
+                          {AUDIT_ACTION_LABELS[entry.table_name][entry.action]}
+                        </span>
+                        {subject && <span className="font-medium text-gray-900">{subject}</span>}
+                      </div>
+                      <span className="text-xs text-gray-500">
+                        {formatDateTime(entry.created_at)} · {entry.actor_email ?? 'Sistem'}
+                      </span>
+                    </div>
+
+                    {changes.length > 0 && (
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {changes.map(change => (
+                            <tr key={change.key} className="border-t border-gray-100">
+                              <td className="py-1 pr-3 text-gray-500 whitespace-nowrap align-top">{change.label}</td>
+                              <td className="py-1">
+                                {entry.action === 'update' ? (
+                                  <span className="flex flex-wrap items-center gap-1">
+                                    <span className="text-red-700 line-through">{formatValue(change, change.before)}</span>
+                                    <ArrowRight className="w-3 h-3 text-gray-400" />
+                                    <span className="text-green-700 font-medium">{formatValue(change, change.after)}</span>
+                                  </span>
+                                ) : (
+                                  <span className={entry.action === 'delete' ? 'text-red-700 line-through' : 'text-gray-900'}>
+                                    {formatValue(change, entry.action === 'delete' ? change.before : change.after)}
+                                  </span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, InspectionKind, OrderItem, OrderWithItems, VehicleInspection } from '../lib/supabase';
+import { INSPECTION_KINDS, INSPECTION_KIND_LABELS, getFuelLevelLabel } from '../lib/inspections';
+import { canWriteOrders } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import InspectionForm from './InspectionForm';
+import HandoverSheet from './HandoverSheet';
+import { X, ClipboardCheck, Printer, Plus, CreditCard as Edit } from 'lucide-react';
+
+interface OrderInspectionsProps {
+  order: OrderWithItems;
+  onClose: () => void;
+}
+
+export default function OrderInspections({ order, onClose }: OrderInspectionsProps) {
+  const { profile } = useAuth();
+  const canWrite = canWriteOrders(profile);
+  const [inspections, setInspections] = useState<VehicleInspection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ item: OrderItem; kind: InspectionKind } | null>(null);
+  const [showSheet, setShowSheet] = useState(false);
+
+  const fetchInspections = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vehicle_inspections')
+        .select('*')
+        .eq('order_id', order.id);
+
+      if (error) throw error;
+
+      setInspections(data || []);
+    } catch (error) {
+      console.error('Error fetching inspections:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    fetchInspections();
+  }, [fetchInspections]);
+
+  const findInspection = (itemId: string, kind: InspectionKind) =>
+    inspections.find(inspection => inspection.order_item_id === itemId && inspection.kind === kind) ?? null;
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  if (editing) {
+    return (
+      <InspectionForm
+        order={order}
+        item={editing.item}
+        kind={editing.kind}
+        editInspection={findInspection(editing.item.id, editing.kind)}
+        pickupInspection={editing.kind === 'return' ? findInspection(editing.item.id, 'pickup') : null}
+        onClose={() => setEditing(null)}
+        onSuccess={fetchInspections}
+      />
+    );
+  }
+
+  if (showSheet) {
+    return <HandoverSheet order={order} inspections={inspections} onClose={() => setShowSheet(false)} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Cek Kendaraan</h2>
+            <p className="text-sm text-gray-600">{order.customer_name} · <span className="font-mono">{order.invoice_number}</span></p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : (
+            <>
+              {order.order_items.map(item => (
+                <div key={item.id} className="border border-gray-200 rounded-lg p-4">
+                  <p className="font-semibold text-gray-900 mb-3">{item.car_type}</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {INSPECTION_KINDS.map(kind => {
+                      const inspection = findInspection(item.id, kind);
+                      // Pengembalian baru bisa diisi setelah serah terima tercatat
+                      const locked = kind === 'return' && !findInspection(item.id, 'pickup');
+                      return (
+                        <div key={kind} className="bg-gray-50 rounded-lg p-3 text-sm">
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="font-medium text-gray-700">{INSPECTION_KIND_LABELS[kind]}</span>
+                            {canWrite && !locked && (
+                              <button
+                                onClick={() => setEditing({ item, kind })}
+                                className="flex items-center gap-1 px-2 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors text-xs"
+                              >
+                                {inspection ? <Edit className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                                {inspection ? 'Edit' : 'Isi'}
+                              </button>
+                            )}
+                          </div>
+                          {inspection ? (
+                            <div className="text-xs text-gray-600 space-y-0.5">
+                              <p>{formatDateTime(inspection.inspected_at)}</p>
+                              <p>{inspection.odometer.toLocaleString('id-ID')} km · BBM {getFuelLevelLabel(inspection.fuel_level)}</p>
+                              <p>{inspection.photo_paths.length} foto{inspection.damage_notes ? ' · ada catatan kerusakan' : ''}</p>
+                            </div>
+                          ) : (
+                            <p className="text-xs text-gray-500">{locked ? 'Isi serah terima terlebih dahulu' : 'Belum diperiksa'}</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {inspections.length === 0 ? (
+                <div className="text-center py-2 text-gray-500">
+                  <ClipboardCheck className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p>Belum ada pemeriksaan kendaraan</p>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setShowSheet(true)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium"
+                >
+                  <Printer className="w-5 h-5" />
+                  Cetak Berita Acara Serah Terima
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,30 @@
-import { useEffect, useState } from 'react';
-import { supabase, OrderWithItems } from '../lib/supabase';
-import { FileText, Trash2, CreditCard as Edit, Printer } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, DepositStatus, OrderAdjustment, OrderDeposit, OrderWithItems, OrderStatus, Vehicle } from '../lib/supabase';
+import { PAYMENT_STATUS_BADGES, PAYMENT_STATUS_LABELS, getOutstandingAmount } from '../lib/payments';
+import { ORDER_STATUS_BADGES, ORDER_STATUS_LABELS, ORDER_STATUS_TRANSITIONS, getStatusTimestamps } from '../lib/orderStatus';
+import {
+  EMPTY_ORDER_FILTERS,
+  ORDER_PAGE_SIZE,
+  OrderFilters,
+  hasActiveOrderFilters,
+  matchesOrderFilters,
+  readOrderFilters,
+  sanitizeSearchTerm,
+  writeOrderFilters
+} from '../lib/orderFilters';
+import { formatVehicleLabel } from '../lib/vehicles';
+import { DEPOSIT_STATUS_BADGES, DEPOSIT_STATUS_LABELS, getOrderDepositStatus } from '../lib/deposits';
+import { cacheOrders, getCachedList, getCachedOrders } from '../lib/offlineStore';
+import { getUserQueuedOrders, isNetworkError, subscribeOfflineQueue } from '../lib/offlineQueue';
+import { canDeleteOrders, canWriteOrders } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import PaymentPanel from './PaymentPanel';
+import OrderHistory from './OrderHistory';
+import OrderInspections from './OrderInspections';
+import OrderReturnForm from './OrderReturnForm';
+import DepositPanel from './DepositPanel';
+import WhatsAppComposer from './WhatsAppComposer';
+import { FileText, Trash2, CreditCard as Edit, Printer, Wallet, Search, ChevronLeft, ChevronRight, X, History, ClipboardCheck, ShieldCheck, MessageCircle, WifiOff } from 'lucide-react';
 
 interface OrderListProps {
   onEdit: (order: OrderWithItems) => void;
@@ -8,45 +32,141 @@ interface OrderListProps {
   refresh: number;
 }
 
+// Penyesuaian ikut diambil supaya order tetap bisa diedit dari cache saat offline
+type OrderRow = OrderWithItems & { deposit_status: DepositStatus | null; order_adjustments: OrderAdjustment[] };
+
+// Bentuk hasil select di fetchOrders; status jaminan diringkas menjadi deposit_status
+type FetchedOrder = Omit<OrderRow, 'deposit_status'> & { order_deposits: Pick<OrderDeposit, 'status'>[] };
+
 export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps) {
-  const [orders, setOrders] = useState<OrderWithItems[]>([]);
+  const { profile } = useAuth();
+  const canWrite = canWriteOrders(profile);
+  const canDelete = canDeleteOrders(profile);
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [paymentOrder, setPaymentOrder] = useState<OrderWithItems | null>(null);
+  const [historyOrder, setHistoryOrder] = useState<OrderWithItems | null>(null);
+  const [inspectionOrder, setInspectionOrder] = useState<OrderWithItems | null>(null);
+  const [returnOrder, setReturnOrder] = useState<OrderWithItems | null>(null);
+  const [depositOrder, setDepositOrder] = useState<OrderWithItems | null>(null);
+  const [whatsAppOrder, setWhatsAppOrder] = useState<OrderWithItems | null>(null);
+  const [filters, setFilters] = useState<OrderFilters>(() => readOrderFilters());
+  const [searchInput, setSearchInput] = useState(filters.q);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  // Daftar sedang diambil dari IndexedDB karena server tidak terjangkau
+  const [showingCache, setShowingCache] = useState(false);
+  const [queuedOrderIds, setQueuedOrderIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
-    fetchOrders();
-  }, [refresh]);
+    const loadQueued = () => {
+      getUserQueuedOrders()
+        .then(entries => setQueuedOrderIds(new Set(entries.map(entry => entry.order_id).filter((id): id is string => !!id))))
+        .catch(error => console.error('Error reading offline queue:', error));
+    };
+    loadQueued();
+    return subscribeOfflineQueue(loadQueued);
+  }, []);
+
+  useEffect(() => {
+    writeOrderFilters(filters);
+  }, [filters]);
+
+  useEffect(() => {
+    const fetchVehicles = async () => {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .order('make', { ascending: true })
+        .order('model', { ascending: true });
+      if (error) {
+        console.error('Error fetching vehicles:', error);
+        setVehicles(await getCachedList<Vehicle>('vehicles').catch(() => []));
+        return;
+      }
+      setVehicles(data || []);
+    };
+    fetchVehicles();
+  }, []);
+
+  // Pencarian teks dikirim setelah user berhenti mengetik
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => (prev.q === searchInput ? prev : { ...prev, q: searchInput, page: 1 }));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const updateFilter = <K extends keyof OrderFilters>(key: K, value: OrderFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value, page: key === 'page' ? (value as number) : 1 }));
 
-  const fetchOrders = async () => {
+  const resetFilters = () => {
+    setSearchInput('');
+    setFilters(EMPTY_ORDER_FILTERS);
+  };
+
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
     try {
-      const { data: ordersData, error: ordersError } = await supabase
+      // Filter kendaraan lewat embed terpisah agar semua item order tetap ikut terambil
+      const columns = filters.vehicle
+        ? '*, order_items(*), order_adjustments(*), order_deposits(status), vehicle_filter:order_items!inner(vehicle_id)'
+        : '*, order_items(*), order_adjustments(*), order_deposits(status)';
+
+      let query = supabase
         .from('orders')
-        .select('*')
-        .order('order_date', { ascending: false });
-
-      if (ordersError) throw ordersError;
-
-      const ordersWithItems = await Promise.all(
-        (ordersData || []).map(async (order) => {
-          const { data: items } = await supabase
-            .from('order_items')
-            .select('*')
-            .eq('order_id', order.id)
-            .order('created_at', { ascending: true });
-
-          return {
-            ...order,
-            order_items: items || []
-          };
-        })
-      );
-
-      setOrders(ordersWithItems);
+        .select(columns, { count: 'exact' })
+        .order('order_date', { ascending: false })
+        .order('created_at', { referencedTable: 'order_items', ascending: true })
+        .order('sort_order', { referencedTable: 'order_adjustments', ascending: true });
+
+      const term = sanitizeSearchTerm(filters.q);
+      if (term) {
+        query = query.or(
+          `customer_name.ilike.%${term}%,customer_phone.ilike.%${term}%,invoice_number.ilike.%${term}%`
+        );
+      }
+      if (filters.from) query = query.gte('rental_end_date', filters.from);
+      if (filters.to) query = query.lte('rental_start_date', filters.to);
+      if (filters.vehicle) query = query.eq('vehicle_filter.vehicle_id', filters.vehicle);
+      if (filters.status) query = query.eq('status', filters.status);
+      if (filters.payment) query = query.eq('payment_status', filters.payment);
+
+      const from = (filters.page - 1) * ORDER_PAGE_SIZE;
+      const { data, error, count } = await query
+        .range(from, from + ORDER_PAGE_SIZE - 1)
+        .overrideTypes<FetchedOrder[], { merge: false }>();
+
+      if (error) throw error;
+
+      const rows = (data || []).map(({ order_deposits, ...order }) => ({
+        ...order,
+        deposit_status: getOrderDepositStatus(order_deposits)
+      }));
+      setOrders(rows);
+      setTotalCount(count ?? 0);
+      setShowingCache(false);
+      cacheOrders(rows).catch(cacheError => console.error('Error caching orders:', cacheError));
     } catch (error) {
       console.error('Error fetching orders:', error);
+      if (isNetworkError(error)) {
+        const cached = (await getCachedOrders().catch(() => []))
+          .filter(order => matchesOrderFilters(order, filters)) as OrderRow[];
+        const from = (filters.page - 1) * ORDER_PAGE_SIZE;
+        setOrders(cached.slice(from, from + ORDER_PAGE_SIZE));
+        setTotalCount(cached.length);
+        setShowingCache(true);
+      }
     } finally {
       setLoading(false);
     }
-  };
+  }, [filters]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders, refresh]);
+
+  const totalPages = Math.max(Math.ceil(totalCount / ORDER_PAGE_SIZE), 1);
 
   const deleteOrder = async (id: string) => {
     if (!confirm('Yakin ingin menghapus order ini?')) return;
@@ -66,6 +186,29 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
     }
   };
 
+  const changeStatus = async (order: OrderWithItems, status: OrderStatus) => {
+    if (status === 'cancelled' && !confirm('Yakin ingin membatalkan order ini? Kendaraan akan kembali tersedia.')) return;
+    // Waktu kembali dicatat lewat form supaya denda keterlambatan ikut dihitung
+    if (status === 'returned') {
+      setReturnOrder(order);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('orders')
+        .update({ status })
+        .eq('id', order.id);
+
+      if (error) throw error;
+
+      fetchOrders();
+    } catch (error) {
+      console.error('Error updating order status:', error);
+      alert('Gagal mengubah status order');
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -82,38 +225,147 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
     });
   };
 
-  if (loading) {
-    return (
-      <div className="flex justify-center items-center py-12">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
-      </div>
-    );
-  }
-
-  if (orders.length === 0) {
-    return (
-      <div className="bg-white rounded-lg shadow-sm p-8 text-center">
-        <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-        <p className="text-gray-500 text-lg">Belum ada order sewa mobil</p>
-        <p className="text-gray-400 text-sm mt-2">Klik tombol "Tambah Order" untuk membuat order baru</p>
-      </div>
-    );
-  }
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent bg-white';
 
   return (
     <div className="space-y-4">
-      {orders.map((order) => (
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3">
+        <div className="relative">
+          <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Cari no. invoice, nama, atau telepon..."
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          />
+        </div>
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Sewa dari</label>
+            <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Sewa sampai</label>
+            <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Kendaraan</label>
+            <select value={filters.vehicle} onChange={(e) => updateFilter('vehicle', e.target.value)} className={inputClass}>
+              <option value="">Semua kendaraan</option>
+              {vehicles.map(vehicle => (
+                <option key={vehicle.id} value={vehicle.id}>{formatVehicleLabel(vehicle)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Status order</label>
+            <select value={filters.status} onChange={(e) => updateFilter('status', e.target.value as OrderFilters['status'])} className={inputClass}>
+              <option value="">Semua status</option>
+              {(Object.keys(ORDER_STATUS_LABELS) as OrderStatus[]).map(status => (
+                <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Pembayaran</label>
+            <select value={filters.payment} onChange={(e) => updateFilter('payment', e.target.value as OrderFilters['payment'])} className={inputClass}>
+              <option value="">Semua</option>
+              {(Object.keys(PAYMENT_STATUS_LABELS) as (keyof typeof PAYMENT_STATUS_LABELS)[]).map(status => (
+                <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>{totalCount} order ditemukan</span>
+          {hasActiveOrderFilters(filters) && (
+            <button onClick={resetFilters} className="flex items-center gap-1 text-orange-600 hover:text-orange-700 font-medium">
+              <X className="w-4 h-4" />
+              Hapus filter
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showingCache && (
+        <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          <WifiOff className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>Sedang offline. Menampilkan order terakhir yang tersimpan di perangkat; data bisa saja belum terbaru.</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : orders.length === 0 ? (
+        hasActiveOrderFilters(filters) ? (
+          <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+            <Search className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 text-lg">Tidak ada order yang cocok dengan filter</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500 text-lg">Belum ada order sewa mobil</p>
+            <p className="text-gray-400 text-sm mt-2">Klik tombol "Tambah Order" untuk membuat order baru</p>
+          </div>
+        )
+      ) : orders.map((order) => (
         <div key={order.id} className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden hover:shadow-md transition-shadow">
           <div className="p-4 sm:p-6">
             <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4">
               <div className="flex-1">
-                <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-1">{order.customer_name}</h3>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <h3 className="text-lg sm:text-xl font-semibold text-gray-900">{order.customer_name}</h3>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${ORDER_STATUS_BADGES[order.status]}`}>
+                    {ORDER_STATUS_LABELS[order.status]}
+                  </span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${PAYMENT_STATUS_BADGES[order.payment_status]}`}>
+                    {PAYMENT_STATUS_LABELS[order.payment_status]}
+                  </span>
+                  {order.deposit_status && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${DEPOSIT_STATUS_BADGES[order.deposit_status]}`}>
+                      Jaminan {DEPOSIT_STATUS_LABELS[order.deposit_status]}
+                    </span>
+                  )}
+                  {queuedOrderIds.has(order.id) && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800">
+                      Belum Sinkron
+                    </span>
+                  )}
+                </div>
+                <p className="font-mono text-xs text-gray-500 mb-1">{order.invoice_number}</p>
                 <p className="text-gray-600 text-sm sm:text-base">{order.customer_phone}</p>
                 {order.customer_address && (
                   <p className="text-gray-500 text-sm mt-1">{order.customer_address}</p>
                 )}
               </div>
               <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setPaymentOrder(order)}
+                  className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+                >
+                  <Wallet className="w-4 h-4" />
+                  <span className="hidden sm:inline">Bayar</span>
+                </button>
+                <button
+                  onClick={() => setDepositOrder(order)}
+                  className="flex items-center gap-2 px-3 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  <span className="hidden sm:inline">Jaminan</span>
+                </button>
                 <button
                   onClick={() => onPrint(order)}
                   className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
@@ -122,19 +374,44 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
                   <span className="hidden sm:inline">Cetak</span>
                 </button>
                 <button
-                  onClick={() => onEdit(order)}
-                  className="flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm"
+                  onClick={() => setWhatsAppOrder(order)}
+                  className="flex items-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors text-sm"
+                >
+                  <MessageCircle className="w-4 h-4" />
+                  <span className="hidden sm:inline">Kirim WA</span>
+                </button>
+                <button
+                  onClick={() => setHistoryOrder(order)}
+                  className="flex items-center gap-2 px-3 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 transition-colors text-sm"
                 >
-                  <Edit className="w-4 h-4" />
-                  <span className="hidden sm:inline">Edit</span>
+                  <History className="w-4 h-4" />
+                  <span className="hidden sm:inline">Riwayat</span>
                 </button>
                 <button
-                  onClick={() => deleteOrder(order.id)}
-                  className="flex items-center gap-2 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+                  onClick={() => setInspectionOrder(order)}
+                  className="flex items-center gap-2 px-3 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 transition-colors text-sm"
                 >
-                  <Trash2 className="w-4 h-4" />
-                  <span className="hidden sm:inline">Hapus</span>
+                  <ClipboardCheck className="w-4 h-4" />
+                  <span className="hidden sm:inline">Cek Kendaraan</span>
                 </button>
+                {canWrite && (
+                  <button
+                    onClick={() => onEdit(order)}
+                    className="flex items-center gap-2 px-3 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors text-sm"
+                  >
+                    <Edit className="w-4 h-4" />
+                    <span className="hidden sm:inline">Edit</span>
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => deleteOrder(order.id)}
+                    className="flex items-center gap-2 px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="hidden sm:inline">Hapus</span>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -151,6 +428,41 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
               </div>
             </div>
 
+            {((canWrite && ORDER_STATUS_TRANSITIONS[order.status].length > 0) || getStatusTimestamps(order).length > 0) && (
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                  {getStatusTimestamps(order).map(({ label, value }) => (
+                    <span key={label}>
+                      {label}: <span className="font-medium text-gray-700">{formatDateTime(value)}</span>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {canWrite && ORDER_STATUS_TRANSITIONS[order.status].map(({ to, label }) => (
+                    <button
+                      key={to}
+                      onClick={() => changeStatus(order, to)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                        to === 'cancelled'
+                          ? 'border border-red-300 text-red-700 hover:bg-red-50'
+                          : 'bg-slate-700 text-white hover:bg-slate-800'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  {canWrite && order.status === 'returned' && (
+                    <button
+                      onClick={() => setReturnOrder(order)}
+                      className="px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      Ubah Waktu Kembali
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {order.order_items.length > 0 && (
               <div className="bg-gray-50 rounded-lg p-3 sm:p-4 mb-4">
                 <h4 className="font-medium text-gray-700 mb-3 text-sm sm:text-base">Item Sewa:</h4>
@@ -174,6 +486,14 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
               <span className="text-gray-600 font-medium text-sm sm:text-base">Total:</span>
               <span className="text-xl sm:text-2xl font-bold text-orange-600">{formatCurrency(order.total_amount)}</span>
             </div>
+            {order.payment_status !== 'unpaid' && (
+              <div className="flex flex-col sm:flex-row sm:justify-end gap-1 sm:gap-4 mt-1 text-sm">
+                <span className="text-green-700">Dibayar: {formatCurrency(order.paid_amount)}</span>
+                {order.payment_status === 'partial' && (
+                  <span className="text-red-600 font-medium">Sisa: {formatCurrency(getOutstandingAmount(order))}</span>
+                )}
+              </div>
+            )}
 
             {order.notes && (
               <div className="mt-4 pt-4 border-t border-gray-200">
@@ -185,6 +505,73 @@ export default function OrderList({ onEdit, onPrint, refresh }: OrderListProps)
           </div>
         </div>
       ))}
+
+      {!loading && totalPages > 1 && (
+        <div className="flex items-center justify-between bg-white rounded-lg shadow-sm border border-gray-200 p-3">
+          <button
+            onClick={() => updateFilter('page', filters.page - 1)}
+            disabled={filters.page <= 1}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Sebelumnya
+          </button>
+          <span className="text-sm text-gray-600">Halaman {filters.page} dari {totalPages}</span>
+          <button
+            onClick={() => updateFilter('page', filters.page + 1)}
+            disabled={filters.page >= totalPages}
+            className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Selanjutnya
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {paymentOrder && (
+        <PaymentPanel
+          order={paymentOrder}
+          onClose={() => setPaymentOrder(null)}
+          onChange={fetchOrders}
+        />
+      )}
+
+      {historyOrder && (
+        <OrderHistory
+          order={historyOrder}
+          onClose={() => setHistoryOrder(null)}
+        />
+      )}
+
+      {inspectionOrder && (
+        <OrderInspections
+          order={inspectionOrder}
+          onClose={() => setInspectionOrder(null)}
+        />
+      )}
+
+      {depositOrder && (
+        <DepositPanel
+          order={depositOrder}
+          onClose={() => setDepositOrder(null)}
+          onChange={fetchOrders}
+        />
+      )}
+
+      {whatsAppOrder && (
+        <WhatsAppComposer
+          order={whatsAppOrder}
+          onClose={() => setWhatsAppOrder(null)}
+        />
+      )}
+
+      {returnOrder && (
+        <OrderReturnForm
+          order={returnOrder}
+          onClose={() => setReturnOrder(null)}
+          onSuccess={fetchOrders}
+        />
+      )}
     </div>
   );
 }
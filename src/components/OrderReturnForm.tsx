@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { supabase, BusinessSettings, OrderWithItems } from '../lib/supabase';
+import { DEFAULT_BUSINESS_SETTINGS, fetchBusinessSettings } from '../lib/businessSettings';
+import { calculateReturnAdjustment, getReturnDueAt } from '../lib/lateReturn';
+import { getReportTimeZone } from '../lib/revenueRecognition';
+import { toDateString } from '../lib/calendar';
+import { X, Clock } from 'lucide-react';
+
+interface OrderReturnFormProps {
+  order: OrderWithItems;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Nilai untuk input datetime-local, dalam waktu lokal
+const toDateTimeInput = (date: Date) =>
+  `${toDateString(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+export default function OrderReturnForm({ order, onClose, onSuccess }: OrderReturnFormProps) {
+  const [loading, setLoading] = useState(false);
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [returnedAt, setReturnedAt] = useState(
+    toDateTimeInput(order.returned_at ? new Date(order.returned_at) : new Date())
+  );
+  const [applyEarlyReturn, setApplyEarlyReturn] = useState(false);
+
+  useEffect(() => {
+    fetchBusinessSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching business settings:', error));
+  }, []);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+  const formatDateTime = (date: Date) =>
+    date.toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const dueAt = getReturnDueAt(order, settings);
+  const returnedDate = returnedAt ? new Date(returnedAt) : null;
+  const isEarly = !!returnedDate && returnedDate < dueAt;
+  // Pratinjau; baris final dibuat ulang di database dengan aturan yang sama
+  const adjustment = returnedDate
+    ? calculateReturnAdjustment(order, settings, returnedDate, applyEarlyReturn)
+    : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!returnedDate) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc('record_order_return', {
+        p_order_id: order.id,
+        p_returned_at: returnedDate.toISOString(),
+        p_apply_early_return: isEarly && applyEarlyReturn,
+        p_tz: getReportTimeZone()
+      });
+      if (error) throw error;
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error recording order return:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      alert(code === '23514' && message ? `Gagal mencatat pengembalian: ${message}` : 'Gagal mencatat pengembalian');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Mobil Kembali</h2>
+            <p className="text-sm text-gray-600">{order.customer_name} · <span className="font-mono">{order.invoice_number}</span></p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <div className="flex items-center gap-2 text-sm text-gray-700 bg-gray-50 rounded-lg p-3">
+            <Clock className="w-4 h-4 text-gray-500" />
+            <span>
+              Batas kembali: <span className="font-semibold">{formatDateTime(dueAt)}</span>
+              {settings.late_grace_hours > 0 && <span className="text-gray-500"> (toleransi {settings.late_grace_hours} jam)</span>}
+            </span>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Waktu Kembali *</label>
+            <input type="datetime-local" required value={returnedAt} onChange={(e) => setReturnedAt(e.target.value)}
+              min={order.picked_up_at ? toDateTimeInput(new Date(order.picked_up_at)) : undefined}
+              max={toDateTimeInput(new Date())}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+          </div>
+
+          {isEarly && Number(settings.early_return_refund_percent) > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={applyEarlyReturn} onChange={(e) => setApplyEarlyReturn(e.target.checked)}
+                className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500" />
+              Beri potongan pengembalian lebih awal ({Number(settings.early_return_refund_percent)}% per hari tidak terpakai)
+            </label>
+          )}
+
+          <div className={`rounded-lg p-3 text-sm border ${
+            adjustment?.kind === 'charge'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : adjustment?.kind === 'discount'
+                ? 'bg-green-50 border-green-200 text-green-800'
+                : 'bg-gray-50 border-gray-200 text-gray-700'
+          }`}>
+            {adjustment ? (
+              <div className="flex justify-between gap-3">
+                <span>{adjustment.label}</span>
+                <span className="font-semibold whitespace-nowrap">
+                  {adjustment.kind === 'discount' ? '- ' : ''}{formatCurrency(adjustment.amount)}
+                </span>
+              </div>
+            ) : (
+              <p>Tidak ada denda keterlambatan</p>
+            )}
+            <p className="text-xs opacity-75 mt-1">Baris ini ditambahkan ke order dan invoice, menggantikan hasil pencatatan sebelumnya.</p>
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
+            <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
+              Batal
+            </button>
+            <button type="submit" disabled={loading} className="w-full sm:flex-1 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+              {loading ? 'Menyimpan...' : 'Simpan Pengembalian'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
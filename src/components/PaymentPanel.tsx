@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, OrderWithItems, Payment, PaymentMethod } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { PAYMENT_METHODS, getPaymentMethodLabel, getOutstandingAmount } from '../lib/payments';
+import { canDeleteOrders, canWriteOrders } from '../lib/roles';
+import { X, Plus, Trash2, Wallet } from 'lucide-react';
+
+interface PaymentPanelProps {
+  order: OrderWithItems;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+export default function PaymentPanel({ order, onClose, onChange }: PaymentPanelProps) {
+  const { user, profile } = useAuth();
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [amount, setAmount] = useState(0);
+  const [paidAt, setPaidAt] = useState(new Date().toISOString().slice(0, 10));
+  const [method, setMethod] = useState<PaymentMethod>('transfer');
+  const [reference, setReference] = useState('');
+  const [note, setNote] = useState('');
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('order_id', order.id)
+        .order('paid_at', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setPayments(data || []);
+    } catch (error) {
+      console.error('Error fetching payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  const paidAmount = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const outstanding = getOutstandingAmount({ total_amount: order.total_amount, paid_amount: paidAmount });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) return;
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('payments').insert({
+        order_id: order.id,
+        user_id: user?.id,
+        amount,
+        paid_at: paidAt,
+        method,
+        reference: reference || null,
+        note: note || null
+      });
+      if (error) throw error;
+
+      setAmount(0);
+      setReference('');
+      setNote('');
+      await fetchPayments();
+      onChange();
+    } catch (error) {
+      console.error('Error saving payment:', error);
+      alert('Gagal menyimpan pembayaran');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePayment = async (id: string) => {
+    if (!confirm('Yakin ingin menghapus pembayaran ini?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('payments')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await fetchPayments();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+      alert('Gagal menghapus pembayaran');
+    }
+  };
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(value);
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Pembayaran</h2>
+            <p className="text-sm text-gray-600">{order.customer_name}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <p className="text-xs text-gray-500 mb-1">Total</p>
+              <p className="font-bold text-gray-900">{formatCurrency(order.total_amount)}</p>
+            </div>
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <p className="text-xs text-green-700 mb-1">Sudah Dibayar</p>
+              <p className="font-bold text-green-700">{formatCurrency(paidAmount)}</p>
+            </div>
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-xs text-red-700 mb-1">Sisa Tagihan</p>
+              <p className="font-bold text-red-700">{formatCurrency(outstanding)}</p>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : payments.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">
+              <Wallet className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+              <p>Belum ada pembayaran tercatat</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-start justify-between gap-3 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                  <div>
+                    <p className="font-semibold text-gray-900">{formatCurrency(payment.amount)}</p>
+                    <p className="text-gray-600">
+                      {formatDate(payment.paid_at)} · {getPaymentMethodLabel(payment.method)}
+                      {payment.reference && <span className="font-mono"> · {payment.reference}</span>}
+                    </p>
+                    {payment.note && <p className="text-gray-500 mt-1">{payment.note}</p>}
+                  </div>
+                  {/* Potongan jaminan dibatalkan dari panel Jaminan */}
+                  {canDeleteOrders(profile) && payment.method !== 'deposit' && (
+                    <button
+                      onClick={() => deletePayment(payment.id)}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                      title="Hapus"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canWriteOrders(profile) && (
+            <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-6 space-y-3">
+              <h3 className="text-lg font-semibold text-gray-900">Catat Pembayaran</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Nominal *</label>
+                  <input type="number" required min={1} value={amount || ''} onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                  {outstanding > 0 && (
+                    <button type="button" onClick={() => setAmount(outstanding)} className="text-xs text-orange-600 hover:underline mt-1">
+                      Isi sisa tagihan
+                    </button>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Tanggal *</label>
+                  <input type="date" required value={paidAt} onChange={(e) => setPaidAt(e.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Metode *</label>
+                  <select value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white">
+                    {PAYMENT_METHODS.filter(m => m.value !== 'deposit').map(m => (
+                      <option key={m.value} value={m.value}>{m.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">No. Referensi</label>
+                  <input type="text" value={reference} onChange={(e) => setReference(e.target.value)}
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Catatan</label>
+                  <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="misal: DP 50%"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+                </div>
+              </div>
+              <button type="submit" disabled={saving || amount <= 0}
+                className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                <Plus className="w-4 h-4" />
+                {saving ? 'Menyimpan...' : 'Simpan Pembayaran'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
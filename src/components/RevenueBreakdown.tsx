@@ -0,0 +1,291 @@
+import { useEffect, useState } from 'react';
+import { supabase, OrderWithItems, ReportBreakdownRow } from '../lib/supabase';
+import {
+  BreakdownGroup,
+  BreakdownOrder,
+  BreakdownRow,
+  BreakdownSortKey,
+  getOrderContribution,
+  sortBreakdownRows,
+  toBreakdownRow
+} from '../lib/revenueBreakdown';
+import { RevenueBasis, getPeriodRange, getReportTimeZone } from '../lib/revenueRecognition';
+import { ArrowDown, ArrowUp, ArrowUpDown, Printer, X } from 'lucide-react';
+
+interface RevenueBreakdownProps {
+  year: number;
+  month: number | null;
+  basis: RevenueBasis;
+  onPrint: (order: OrderWithItems) => void;
+}
+
+const GROUPS: { value: BreakdownGroup; label: string }[] = [
+  { value: 'vehicle', label: 'Per Kendaraan' },
+  { value: 'category', label: 'Per Kategori' },
+  { value: 'customer', label: 'Per Pelanggan' },
+];
+
+const GROUP_COLUMN_LABELS: Record<BreakdownGroup, string> = {
+  vehicle: 'Kendaraan',
+  category: 'Kategori',
+  customer: 'Pelanggan',
+};
+
+const COLUMNS: { key: BreakdownSortKey; label: string; align: 'left' | 'right' }[] = [
+  { key: 'label', label: 'Kendaraan', align: 'left' },
+  { key: 'revenue', label: 'Pendapatan', align: 'right' },
+  { key: 'rental_days', label: 'Hari Sewa', align: 'right' },
+  { key: 'unit_days', label: 'Unit-Hari', align: 'right' },
+];
+
+// Batas id per request supaya URL drill-down tidak terlalu panjang
+const ORDER_ID_CHUNK_SIZE = 100;
+
+export default function RevenueBreakdown({ year, month, basis, onPrint }: RevenueBreakdownProps) {
+  const [rows, setRows] = useState<BreakdownRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [group, setGroup] = useState<BreakdownGroup>('vehicle');
+  const [sortKey, setSortKey] = useState<BreakdownSortKey>('revenue');
+  const [ascending, setAscending] = useState(false);
+  const [selectedRow, setSelectedRow] = useState<BreakdownRow | null>(null);
+  const [drillDownOrders, setDrillDownOrders] = useState<BreakdownOrder[]>([]);
+  const [drillDownLoading, setDrillDownLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchBreakdown = async () => {
+      setLoading(true);
+      try {
+        const { from, to } = getPeriodRange(year, month);
+        const params = { p_from: from, p_to: to, p_basis: basis, p_tz: getReportTimeZone() };
+        const { data, error } = group === 'customer'
+          ? await supabase.rpc('report_by_customer', params)
+          : await supabase.rpc('report_by_vehicle', { ...params, p_group: group });
+
+        if (error) throw error;
+        setRows(((data || []) as ReportBreakdownRow[]).map(row => toBreakdownRow(row, group)));
+      } catch (error) {
+        console.error('Error fetching revenue breakdown:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBreakdown();
+    setSelectedRow(null);
+  }, [year, month, basis, group]);
+
+  useEffect(() => {
+    if (!selectedRow) return;
+
+    const fetchDrillDown = async () => {
+      setDrillDownLoading(true);
+      setDrillDownOrders([]);
+      try {
+        const chunks: string[][] = [];
+        for (let i = 0; i < selectedRow.order_ids.length; i += ORDER_ID_CHUNK_SIZE) {
+          chunks.push(selectedRow.order_ids.slice(i, i + ORDER_ID_CHUNK_SIZE));
+        }
+
+        const results = await Promise.all(chunks.map(ids =>
+          supabase
+            .from('orders')
+            .select('*, order_items(*, vehicles(make, model, plate_number, category)), order_adjustments(order_item_id, kind, calculation, value)')
+            .in('id', ids)
+        ));
+
+        const failed = results.find(result => result.error);
+        if (failed?.error) throw failed.error;
+
+        setDrillDownOrders(
+          results
+            .flatMap(result => (result.data || []) as BreakdownOrder[])
+            .sort((a, b) => b.order_date.localeCompare(a.order_date))
+        );
+      } catch (error) {
+        console.error('Error fetching breakdown orders:', error);
+        alert('Gagal memuat order');
+      } finally {
+        setDrillDownLoading(false);
+      }
+    };
+
+    fetchDrillDown();
+  }, [selectedRow]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric'
+    });
+  };
+
+  const handleSort = (key: BreakdownSortKey) => {
+    if (key === sortKey) {
+      setAscending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setAscending(key === 'label');
+    }
+  };
+
+  const range = basis === 'rental' ? getPeriodRange(year, month) : null;
+  const sortedRows = sortBreakdownRows(rows, sortKey, ascending);
+  const totalRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+
+  const renderSortIcon = (column: BreakdownSortKey) => {
+    if (column !== sortKey) return <ArrowUpDown className="w-3 h-3 opacity-60" />;
+    return ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-4 sm:p-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 border-b border-gray-200">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Rincian Pendapatan</h3>
+          <p className="text-sm text-gray-600">
+            {group === 'customer'
+              ? 'Total tagihan termasuk diskon, biaya tambahan dan PPN.'
+              : 'Harga sewa setelah diskon per item; biaya tambahan, diskon order dan PPN tidak dibagi ke kendaraan.'}
+            {' '}Tidak termasuk order yang dibatalkan. Klik baris untuk melihat order.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {GROUPS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setGroup(value)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                group === value ? 'bg-orange-600 text-white shadow-md' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="p-8 text-center text-gray-500">Belum ada order pada periode ini</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-orange-600 text-white">
+                {COLUMNS.map(({ key, label, align }) => (
+                  <th key={key} className={`px-4 py-3 font-semibold ${align === 'right' ? 'text-right' : 'text-left'}`}>
+                    <button
+                      onClick={() => handleSort(key)}
+                      className={`inline-flex items-center gap-1 ${align === 'right' ? 'flex-row-reverse' : ''}`}
+                    >
+                      {key === 'label' ? GROUP_COLUMN_LABELS[group] : label}
+                      {renderSortIcon(key)}
+                    </button>
+                  </th>
+                ))}
+                <th className="text-right px-4 py-3 font-semibold hidden sm:table-cell">Porsi</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row, index) => (
+                <tr
+                  key={row.key}
+                  onClick={() => setSelectedRow(row)}
+                  className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors cursor-pointer`}
+                >
+                  <td className="px-4 py-3 border-b border-gray-200 font-medium text-gray-900">{row.label}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right font-semibold whitespace-nowrap">{formatCurrency(row.revenue)}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right">{row.rental_days}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right">{row.unit_days}</td>
+                  <td className="px-4 py-3 border-b border-gray-200 text-right text-gray-600 hidden sm:table-cell">
+                    {totalRevenue > 0 ? `${((row.revenue / totalRevenue) * 100).toFixed(1)}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedRow && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{selectedRow.label}</h2>
+                <p className="text-sm text-gray-600">
+                  {selectedRow.order_ids.length} order &middot; {formatCurrency(selectedRow.revenue)}
+                </p>
+              </div>
+              <button onClick={() => setSelectedRow(null)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {drillDownLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-gray-50 text-gray-700">
+                      <th className="text-left px-4 py-3 font-semibold">Invoice</th>
+                      <th className="text-left px-4 py-3 font-semibold">Pelanggan</th>
+                      <th className="text-left px-4 py-3 font-semibold hidden md:table-cell">Periode</th>
+                      <th className="text-right px-4 py-3 font-semibold">Unit-Hari</th>
+                      <th className="text-right px-4 py-3 font-semibold">Pendapatan</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drillDownOrders.map(order => {
+                      const contribution = getOrderContribution(order, group, selectedRow.key, range);
+                      return (
+                        <tr key={order.id} className="border-b border-gray-200">
+                          <td className="px-4 py-3 font-mono text-xs whitespace-nowrap">{order.invoice_number}</td>
+                          <td className="px-4 py-3">{order.customer_name}</td>
+                          <td className="px-4 py-3 whitespace-nowrap hidden md:table-cell">
+                            {formatDate(order.rental_start_date)} - {formatDate(order.rental_end_date)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            {contribution.unit_days}
+                          </td>
+                          <td className="px-4 py-3 text-right font-semibold whitespace-nowrap">
+                            {formatCurrency(contribution.revenue)}
+                          </td>
+                          <td className="px-4 py-3 text-right">
+                            <button
+                              onClick={() => onPrint(order)}
+                              className="p-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                              title="Cetak invoice"
+                            >
+                              <Printer className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
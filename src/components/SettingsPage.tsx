@@ -0,0 +1,289 @@
+import { useEffect, useState } from 'react';
+import { supabase, BusinessSettings, LateFeeUnit, WhatsAppTemplate } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_BUSINESS_SETTINGS, fetchBusinessSettings, getLogoUrl } from '../lib/businessSettings';
+import { LATE_FEE_UNITS } from '../lib/lateReturn';
+import { WHATSAPP_PLACEHOLDERS, getWhatsAppTemplates } from '../lib/whatsapp';
+import { Settings, Upload, Save, Plus, Trash2 } from 'lucide-react';
+
+export default function SettingsPage() {
+  const { profile } = useAuth();
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    fetchBusinessSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error fetching business settings:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateField = <K extends keyof BusinessSettings>(field: K, value: BusinessSettings[K]) =>
+    setSettings(prev => ({ ...prev, [field]: value }));
+
+  const templates = getWhatsAppTemplates(settings);
+
+  const updateTemplate = (id: string, changes: Partial<WhatsAppTemplate>) =>
+    updateField('whatsapp_templates', templates.map(t => t.id === id ? { ...t, ...changes } : t));
+
+  const addTemplate = () =>
+    updateField('whatsapp_templates', [
+      ...templates,
+      { id: `custom-${Date.now()}`, name: 'Template Baru', body: 'Halo {nama_pelanggan},\n\n' }
+    ]);
+
+  const removeTemplate = (id: string) =>
+    updateField('whatsapp_templates', templates.filter(t => t.id !== id));
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !profile) return;
+    if (file.size > 2 * 1024 * 1024) {
+      alert('Ukuran logo maksimal 2 MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const path = `${profile.organization_id}/logo-${Date.now()}.${extension}`;
+      const { error } = await supabase.storage.from('branding').upload(path, file, { upsert: true });
+      if (error) throw error;
+
+      const { data } = supabase.storage.from('branding').getPublicUrl(path);
+      updateField('logo_url', data.publicUrl);
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      alert('Gagal mengunggah logo');
+    } finally {
+      setUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('business_settings')
+        .upsert({
+          ...settings,
+          invoice_footer: settings.invoice_footer || null,
+          organization_id: profile?.organization_id
+        });
+      if (error) throw error;
+
+      alert('Pengaturan tersimpan');
+    } catch (error) {
+      console.error('Error saving business settings:', error);
+      alert('Gagal menyimpan pengaturan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex items-center gap-3">
+          <div className="bg-orange-600 p-3 rounded-lg">
+            <Settings className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Pengaturan Usaha</h2>
+            <p className="text-sm text-gray-600">Data ini dipakai di invoice cetak dan PDF</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Profil Usaha</h3>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <img src={getLogoUrl(settings)} alt="Logo" className="w-44 h-20 object-contain border border-gray-200 rounded-lg bg-gray-50 p-2" />
+          <div className="flex flex-col gap-2">
+            <label className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors font-medium cursor-pointer w-fit">
+              <Upload className="w-4 h-4" />
+              {uploading ? 'Mengunggah...' : 'Ganti Logo'}
+              <input type="file" accept="image/png,image/jpeg" onChange={handleLogoUpload} disabled={uploading} className="hidden" />
+            </label>
+            {settings.logo_url && (
+              <button type="button" onClick={() => updateField('logo_url', null)} className="text-sm text-red-600 hover:underline w-fit">
+                Pakai logo bawaan
+              </button>
+            )}
+            <p className="text-xs text-gray-500">PNG atau JPG, maksimal 2 MB</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Nama Usaha *</label>
+            <input type="text" required value={settings.company_name} onChange={(e) => updateField('company_name', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Telepon *</label>
+            <input type="tel" required value={settings.phone} onChange={(e) => updateField('phone', e.target.value)} className={inputClass} />
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Alamat *</label>
+            <textarea required rows={2} value={settings.address} onChange={(e) => updateField('address', e.target.value)} className={`${inputClass} resize-none`} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Email *</label>
+            <input type="email" required value={settings.email} onChange={(e) => updateField('email', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Website</label>
+            <input type="text" value={settings.website} onChange={(e) => updateField('website', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Rekening Pembayaran</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Bank *</label>
+            <input type="text" required value={settings.bank_name} onChange={(e) => updateField('bank_name', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">No. Rekening *</label>
+            <input type="text" required inputMode="numeric" value={settings.bank_account_number} onChange={(e) => updateField('bank_account_number', e.target.value)} className={`${inputClass} font-mono`} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Atas Nama *</label>
+            <input type="text" required value={settings.bank_account_name} onChange={(e) => updateField('bank_account_name', e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Invoice</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format No. Invoice *</label>
+            <input type="text" required pattern=".*\{SEQ(:\d+)?\}.*" value={settings.invoice_number_format}
+              onChange={(e) => updateField('invoice_number_format', e.target.value)} className={`${inputClass} font-mono`} />
+            <p className="text-xs text-gray-500 mt-1">
+              Token: {'{YYYY}'} {'{YY}'} {'{MM}'} {'{DD}'} {'{SEQ:4}'}. Berlaku untuk order baru.
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Jatuh Tempo (hari)</label>
+            <input type="number" min={0} value={settings.payment_terms_days}
+              onChange={(e) => updateField('payment_terms_days', parseInt(e.target.value) || 0)} className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">0 berarti dibayar di hari order</p>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Teks Penutup Invoice</label>
+            <textarea rows={3} value={settings.invoice_footer ?? ''} onChange={(e) => updateField('invoice_footer', e.target.value)}
+              placeholder="misal: Terima kasih telah menggunakan jasa Laju Tuju"
+              className={`${inputClass} resize-none`} />
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Pengembalian & Denda</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Batas Jam Kembali *</label>
+            <input type="time" required value={settings.return_time.slice(0, 5)}
+              onChange={(e) => updateField('return_time', e.target.value)} className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">Di tanggal selesai sewa</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Toleransi (jam)</label>
+            <input type="number" min={0} value={settings.late_grace_hours}
+              onChange={(e) => updateField('late_grace_hours', parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Denda Dihitung</label>
+            <select value={settings.late_fee_unit} onChange={(e) => updateField('late_fee_unit', e.target.value as LateFeeUnit)} className={inputClass}>
+              {LATE_FEE_UNITS.map(unit => (
+                <option key={unit.value} value={unit.value}>{unit.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Besar Denda</label>
+            <input type="number" min={0} step={0.01} value={settings.late_fee_multiplier}
+              onChange={(e) => updateField('late_fee_multiplier', parseFloat(e.target.value) || 0)} className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">× harga sewa per hari, misal 0.1 = 10% per jam/hari terlambat</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Potongan Kembali Lebih Awal (%)</label>
+            <input type="number" min={0} max={100} value={settings.early_return_refund_percent}
+              onChange={(e) => updateField('early_return_refund_percent', parseFloat(e.target.value) || 0)} className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">Per hari tidak terpakai; 0 berarti tidak ada potongan</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <h3 className="text-lg font-semibold text-gray-900">Template WhatsApp</h3>
+          <div className="flex gap-2">
+            {settings.whatsapp_templates.length > 0 && (
+              <button type="button" onClick={() => updateField('whatsapp_templates', [])}
+                className="px-3 py-2 text-sm text-red-600 hover:underline">
+                Pakai template bawaan
+              </button>
+            )}
+            <button type="button" onClick={addTemplate}
+              className="flex items-center gap-2 px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium">
+              <Plus className="w-4 h-4" />
+              Tambah Template
+            </button>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500">
+          Placeholder:{' '}
+          {WHATSAPP_PLACEHOLDERS.map(placeholder => (
+            <span key={placeholder.key} title={placeholder.label} className="inline-block font-mono bg-gray-100 rounded px-1 mr-1 mb-1">
+              {`{${placeholder.key}}`}
+            </span>
+          ))}
+        </p>
+        <div className="space-y-4">
+          {templates.map(template => (
+            <div key={template.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex gap-2">
+                <input type="text" required value={template.name} onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                  className={`${inputClass} font-medium`} />
+                {templates.length > 1 && (
+                  <button type="button" onClick={() => removeTemplate(template.id)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors" title="Hapus">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <textarea rows={6} required value={template.body} onChange={(e) => updateTemplate(template.id, { body: e.target.value })}
+                className={`${inputClass} text-sm`} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button type="submit" disabled={saving || uploading}
+          className="flex items-center justify-center gap-2 w-full sm:w-auto px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+          <Save className="w-5 h-5" />
+          {saving ? 'Menyimpan...' : 'Simpan Pengaturan'}
+        </button>
+      </div>
+    </form>
+  );
+}
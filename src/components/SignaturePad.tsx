@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  label: string;
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+const HEIGHT = 160;
+
+export default function SignaturePad({ label, value, onChange }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  // Tanda tangan yang sudah tersimpan hanya digambar ulang saat pertama dipasang
+  const initialValueRef = useRef(value);
+
+  // Kanvas disesuaikan dengan lebar layar dan devicePixelRatio supaya garis tidak buram
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = HEIGHT * ratio;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+
+    if (initialValueRef.current) {
+      const image = new Image();
+      image.onload = () => context.drawImage(image, 0, 0, canvas.offsetWidth, HEIGHT);
+      image.src = initialValueRef.current;
+    }
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <button type="button" onClick={clear} className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900">
+          <Eraser className="w-3 h-3" /> Hapus
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full bg-white border-2 border-dashed border-gray-300 rounded-lg touch-none cursor-crosshair"
+        style={{ height: HEIGHT }}
+      />
+      {!value && <p className="text-xs text-gray-500 mt-1">Tanda tangan di dalam kotak</p>}
+    </div>
+  );
+}
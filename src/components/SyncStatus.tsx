@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useState } from 'react';
+import { QueuedOrder } from '../lib/offlineStore';
+import {
+  getUserQueuedOrders,
+  isSyncing,
+  resolveQueuedOrder,
+  subscribeOfflineQueue,
+  syncQueuedOrders
+} from '../lib/offlineQueue';
+import { X, Wifi, WifiOff, RefreshCw, CloudOff, AlertCircle } from 'lucide-react';
+
+interface SyncStatusProps {
+  onSynced: () => void;
+}
+
+export default function SyncStatus({ onSynced }: SyncStatusProps) {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(isSyncing());
+  const [entries, setEntries] = useState<QueuedOrder[]>([]);
+  const [showPanel, setShowPanel] = useState(false);
+
+  const sync = useCallback(async () => {
+    try {
+      const synced = await syncQueuedOrders();
+      if (synced > 0) onSynced();
+    } catch (error) {
+      console.error('Error syncing offline queue:', error);
+    }
+  }, [onSynced]);
+
+  useEffect(() => {
+    const loadQueue = () => {
+      setSyncing(isSyncing());
+      getUserQueuedOrders()
+        .then(setEntries)
+        .catch(error => console.error('Error reading offline queue:', error));
+    };
+    loadQueue();
+    return subscribeOfflineQueue(loadQueue);
+  }, []);
+
+  // Antrean dikirim saat aplikasi dibuka dan setiap koneksi kembali
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    sync();
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  const resolve = async (entry: QueuedOrder, keep: 'mine' | 'server') => {
+    if (keep === 'server' && !confirm(entry.status === 'conflict'
+      ? 'Buang perubahan offline dan pakai versi di server?'
+      : 'Buang perubahan offline ini?')) return;
+    try {
+      const synced = await resolveQueuedOrder(entry, keep);
+      if (synced > 0) onSynced();
+    } catch (error) {
+      console.error('Error resolving queued order:', error);
+      alert('Gagal memproses antrean offline');
+    }
+  };
+
+  const pending = entries.filter(entry => entry.status === 'pending').length;
+  const problems = entries.length - pending;
+
+  const formatDateTime = (date: string) =>
+    new Date(date).toLocaleString('id-ID', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const [Icon, label, badgeClass] = syncing
+    ? [RefreshCw, 'Menyinkronkan...', 'bg-blue-100 text-blue-800']
+    : problems > 0
+      ? [AlertCircle, `${problems} perlu dicek`, 'bg-red-100 text-red-800']
+      : !online
+        ? [WifiOff, pending > 0 ? `Offline · ${pending} antre` : 'Offline', 'bg-amber-100 text-amber-800']
+        : pending > 0
+          ? [CloudOff, `${pending} belum sinkron`, 'bg-amber-100 text-amber-800']
+          : [Wifi, 'Tersinkron', 'bg-green-100 text-green-800'];
+
+  return (
+    <>
+      <button
+        onClick={() => setShowPanel(true)}
+        className={`flex items-center justify-center gap-2 px-4 py-3 rounded-xl font-medium text-sm transition-colors ${badgeClass}`}
+        title="Status sinkron"
+      >
+        <Icon className={`w-5 h-5 ${syncing ? 'animate-spin' : ''}`} />
+        <span className="hidden sm:inline">{label}</span>
+      </button>
+
+      {showPanel && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+              <div>
+                <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Status Sinkron</h2>
+                <p className="text-sm text-gray-600">{online ? 'Terhubung ke server' : 'Sedang offline'}</p>
+              </div>
+              <button onClick={() => setShowPanel(false)} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+                <X className="w-6 h-6 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="p-4 sm:p-6 space-y-4">
+              {entries.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">
+                  <Wifi className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p>Semua order sudah tersimpan di server</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {entries.map(entry => (
+                    <div key={entry.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm space-y-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="font-semibold text-gray-900">{entry.customer_name || '-'}</p>
+                          <p className="text-gray-600">
+                            {entry.order_id ? <>Edit <span className="font-mono">{entry.invoice_number}</span></> : 'Order baru'}
+                            {' · '}{formatDateTime(entry.created_at)}
+                          </p>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                          entry.status === 'pending' ? 'bg-amber-100 text-amber-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {entry.status === 'pending' ? 'Menunggu' : entry.status === 'conflict' ? 'Konflik' : 'Gagal'}
+                        </span>
+                      </div>
+
+                      {entry.status === 'conflict' && (
+                        <p className="text-red-700">
+                          Order ini sudah diubah di server
+                          {entry.server_updated_at ? ` pada ${formatDateTime(entry.server_updated_at)}` : ''} setelah Anda mengeditnya offline.
+                        </p>
+                      )}
+                      {entry.status === 'failed' && entry.error && (
+                        <p className="text-red-700 break-words">{entry.error}</p>
+                      )}
+
+                      {entry.status !== 'pending' && (
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            onClick={() => resolve(entry, 'mine')}
+                            disabled={!online || syncing}
+                            className="px-3 py-1.5 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {entry.status === 'conflict' ? 'Timpa dengan versi saya' : 'Coba lagi'}
+                          </button>
+                          <button
+                            onClick={() => resolve(entry, 'server')}
+                            className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors text-xs font-medium"
+                          >
+                            {entry.status === 'conflict' ? 'Pakai versi server' : 'Buang'}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <button
+                onClick={sync}
+                disabled={!online || syncing || pending === 0}
+                className="flex items-center justify-center gap-2 w-full px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+                {syncing ? 'Menyinkronkan...' : 'Sinkronkan Sekarang'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
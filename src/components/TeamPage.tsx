@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase, Organization, OrganizationInvitation, OrgRole, Profile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { INVITABLE_ROLES, ORG_ROLE_DESCRIPTIONS, ORG_ROLE_LABELS, canManageMembers } from '../lib/roles';
+import { UserCog, UserPlus, Mail, Trash2, Check } from 'lucide-react';
+
+type ReceivedInvitation = OrganizationInvitation & {
+  organizations: Pick<Organization, 'name'> | null;
+};
+
+export default function TeamPage() {
+  const { user, profile, refreshProfile } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [receivedInvitations, setReceivedInvitations] = useState<ReceivedInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationInvitation['role']>('staff');
+  const [saving, setSaving] = useState(false);
+
+  const isOwner = canManageMembers(profile);
+  const organizationId = profile?.organization_id;
+  const email = user?.email?.toLowerCase();
+
+  const fetchTeam = useCallback(async () => {
+    if (!organizationId) return;
+    try {
+      const [
+        { data: orgData, error: orgError },
+        { data: memberData, error: memberError },
+        { data: receivedData, error: receivedError }
+      ] = await Promise.all([
+        supabase.from('organizations').select('*').eq('id', organizationId).maybeSingle(),
+        supabase.from('profiles').select('*').eq('organization_id', organizationId).order('created_at', { ascending: true }),
+        supabase
+          .from('organization_invitations')
+          .select('*, organizations(name)')
+          .eq('email', email ?? '')
+          .neq('organization_id', organizationId)
+      ]);
+
+      if (orgError) throw orgError;
+      if (memberError) throw memberError;
+      if (receivedError) throw receivedError;
+
+      setOrganization(orgData);
+      setMembers(memberData || []);
+      setReceivedInvitations(receivedData || []);
+
+      // Undangan yang dikirim tim hanya terlihat oleh pemilik
+      if (isOwner) {
+        const { data, error } = await supabase
+          .from('organization_invitations')
+          .select('*')
+          .eq('organization_id', organizationId)
+          .order('created_at', { ascending: false });
+        if (error) throw error;
+        setInvitations(data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching team:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, email, isOwner]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('invite_member', {
+        p_email: inviteEmail.trim().toLowerCase(),
+        p_role: inviteRole
+      });
+      if (error) throw error;
+
+      setInviteEmail('');
+      fetchTeam();
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      const code = (error as { code?: string }).code;
+      alert(code === '23505' ? 'Email ini sudah menjadi anggota tim' : 'Gagal mengundang anggota');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancelInvitation = async (id: string) => {
+    if (!confirm('Batalkan undangan ini?')) return;
+
+    try {
+      const { error } = await supabase.from('organization_invitations').delete().eq('id', id);
+      if (error) throw error;
+      fetchTeam();
+    } catch (error) {
+      console.error('Error deleting invitation:', error);
+      alert('Gagal membatalkan undangan');
+    }
+  };
+
+  const changeRole = async (member: Profile, role: OrgRole) => {
+    try {
+      const { error } = await supabase.rpc('update_member_role', { p_user_id: member.id, p_role: role });
+      if (error) throw error;
+      fetchTeam();
+    } catch (error) {
+      console.error('Error updating member role:', error);
+      alert('Gagal mengubah peran anggota');
+    }
+  };
+
+  const removeMember = async (member: Profile) => {
+    if (!confirm(`Keluarkan ${member.full_name || member.email} dari tim? Data yang sudah dibuat tetap milik tim.`)) return;
+
+    try {
+      const { error } = await supabase.rpc('remove_member', { p_user_id: member.id });
+      if (error) throw error;
+      fetchTeam();
+    } catch (error) {
+      console.error('Error removing member:', error);
+      alert('Gagal mengeluarkan anggota');
+    }
+  };
+
+  const acceptInvitation = async (invitation: ReceivedInvitation) => {
+    const teamName = invitation.organizations?.name ?? 'tim ini';
+    if (!confirm(`Bergabung ke ${teamName}? Jika Anda satu-satunya anggota tim sekarang, data Anda ikut dipindahkan.`)) return;
+
+    try {
+      const { error } = await supabase.rpc('accept_invitation', { p_invitation_id: invitation.id });
+      if (error) throw error;
+
+      setLoading(true);
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      alert(code === '23514'
+        ? 'Keluarkan anggota tim Anda terlebih dahulu sebelum bergabung ke tim lain'
+        : code === '23P01' && message
+          ? message
+          : 'Gagal menerima undangan');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex items-center gap-3">
+          <div className="bg-orange-600 p-3 rounded-lg">
+            <UserCog className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{organization?.name ?? 'Tim'}</h2>
+            <p className="text-sm text-gray-600">
+              {members.length} anggota · Anda sebagai {profile ? ORG_ROLE_LABELS[profile.role] : '-'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {receivedInvitations.length > 0 && (
+        <div className="bg-orange-50 rounded-lg border border-orange-200 p-4 sm:p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Undangan untuk Anda</h3>
+          {receivedInvitations.map(invitation => (
+            <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 bg-white border border-orange-200 rounded-lg p-3">
+              <div className="text-sm">
+                <p className="font-semibold text-gray-900">{invitation.organizations?.name ?? 'Tim lain'}</p>
+                <p className="text-gray-600">Sebagai {ORG_ROLE_LABELS[invitation.role]}</p>
+              </div>
+              <button
+                onClick={() => acceptInvitation(invitation)}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium"
+              >
+                <Check className="w-4 h-4" />
+                Terima
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-orange-600 text-white">
+                <th className="text-left px-4 py-3 text-sm font-semibold">Anggota</th>
+                <th className="text-left px-4 py-3 text-sm font-semibold">Peran</th>
+                {isOwner && <th className="text-right px-4 py-3 text-sm font-semibold">Aksi</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {members.map((member, index) => {
+                const isSelf = member.id === user?.id;
+                return (
+                  <tr key={member.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors`}>
+                    <td className="px-4 py-3 border-b border-gray-200">
+                      <p className="font-medium text-gray-900">
+                        {member.full_name || member.email}
+                        {isSelf && <span className="ml-2 text-xs text-gray-500">(Anda)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">{member.email}</p>
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-sm">
+                      {isOwner && !isSelf ? (
+                        <select
+                          value={member.role}
+                          onChange={(e) => changeRole(member, e.target.value as OrgRole)}
+                          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent bg-white"
+                        >
+                          {INVITABLE_ROLES.map(role => (
+                            <option key={role} value={role}>{ORG_ROLE_LABELS[role]}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="font-medium text-gray-700">{ORG_ROLE_LABELS[member.role]}</span>
+                      )}
+                    </td>
+                    {isOwner && (
+                      <td className="px-4 py-3 border-b border-gray-200">
+                        <div className="flex justify-end">
+                          {!isSelf && (
+                            <button
+                              onClick={() => removeMember(member)}
+                              className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                              title="Keluarkan"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isOwner && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Undang Anggota</h3>
+          <form onSubmit={handleInvite} className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email *</label>
+              <input type="email" required value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} placeholder="staf@contoh.com" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Peran *</label>
+              <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as OrganizationInvitation['role'])} className={`${inputClass} bg-white`}>
+                {INVITABLE_ROLES.map(role => (
+                  <option key={role} value={role}>{ORG_ROLE_LABELS[role]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-end">
+              <button type="submit" disabled={saving}
+                className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+                <UserPlus className="w-4 h-4" />
+                {saving ? 'Mengundang...' : 'Undang'}
+              </button>
+            </div>
+          </form>
+          <p className="text-xs text-gray-500">{ORG_ROLE_DESCRIPTIONS[inviteRole]}. Anggota baru cukup mendaftar dan mengonfirmasi email ini; pengguna yang sudah punya akun menerima undangan di menu Tim. Undangan berlaku 7 hari.</p>
+
+          {invitations.length > 0 && (
+            <div className="border-t border-gray-200 pt-4 space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700">Menunggu Diterima</h4>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between gap-3 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Mail className="w-4 h-4 text-gray-400 shrink-0" />
+                    <span className="text-gray-900 truncate">{invitation.email}</span>
+                    <span className="text-gray-500 whitespace-nowrap">· {ORG_ROLE_LABELS[invitation.role]}</span>
+                    {new Date(invitation.expires_at) <= new Date() && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800 whitespace-nowrap">Kedaluwarsa</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => cancelInvitation(invitation.id)}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title="Batalkan"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
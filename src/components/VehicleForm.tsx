@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { supabase, Vehicle, VehicleCategory } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { VEHICLE_CATEGORIES } from '../lib/vehicles';
+import { X } from 'lucide-react';
+
+interface VehicleFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editVehicle?: Vehicle | null;
+}
+
+export default function VehicleForm({ onClose, onSuccess, editVehicle }: VehicleFormProps) {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [plateNumber, setPlateNumber] = useState(editVehicle?.plate_number ?? '');
+  const [make, setMake] = useState(editVehicle?.make ?? '');
+  const [model, setModel] = useState(editVehicle?.model ?? '');
+  const [category, setCategory] = useState<VehicleCategory>(editVehicle?.category ?? 'mpv');
+  const [year, setYear] = useState(editVehicle?.year?.toString() ?? '');
+  const [color, setColor] = useState(editVehicle?.color ?? '');
+  const [dailyRate, setDailyRate] = useState(editVehicle?.daily_rate ?? 0);
+  const [isActive, setIsActive] = useState(editVehicle?.is_active ?? true);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const payload = {
+        plate_number: plateNumber,
+        make,
+        model,
+        category,
+        year: year ? parseInt(year) : null,
+        color: color || null,
+        daily_rate: dailyRate,
+        is_active: isActive
+      };
+
+      if (editVehicle) {
+        const { error } = await supabase.from('vehicles').update(payload).eq('id', editVehicle.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('vehicles').insert({ ...payload, user_id: user?.id });
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (error) {
+      console.error('Error saving vehicle:', error);
+      const code = (error as { code?: string }).code;
+      alert(code === '23505' ? 'Nomor polisi sudah terdaftar' : 'Gagal menyimpan kendaraan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">{editVehicle ? 'Edit Kendaraan' : 'Tambah Kendaraan'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Nomor Polisi *</label>
+              <input type="text" required value={plateNumber} onChange={(e) => setPlateNumber(e.target.value.toUpperCase())}
+                placeholder="AB 1234 CD"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Kategori *</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value as VehicleCategory)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent">
+                {VEHICLE_CATEGORIES.map(c => (
+                  <option key={c.value} value={c.value}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Merek *</label>
+              <input type="text" required value={make} onChange={(e) => setMake(e.target.value)}
+                placeholder="Toyota"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Model *</label>
+              <input type="text" required value={model} onChange={(e) => setModel(e.target.value)}
+                placeholder="Avanza"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tahun</label>
+              <input type="number" min={1950} max={2100} value={year} onChange={(e) => setYear(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Warna</label>
+              <input type="text" value={color} onChange={(e) => setColor(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Harga Default per Hari *</label>
+              <input type="number" required min={0} value={dailyRate} onChange={(e) => setDailyRate(parseFloat(e.target.value) || 0)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent" />
+            </div>
+            <div className="flex items-end">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 py-2">
+                <input type="checkbox" checked={isActive} onChange={(e) => setIsActive(e.target.checked)}
+                  className="w-4 h-4 text-orange-600 border-gray-300 rounded focus:ring-orange-500" />
+                Aktif (bisa dipilih di order baru)
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
+            <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
+              Batal
+            </button>
+            <button type="submit" disabled={loading} className="w-full sm:flex-1 px-6 py-3 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed">
+              {loading ? 'Menyimpan...' : editVehicle ? 'Update Kendaraan' : 'Simpan Kendaraan'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
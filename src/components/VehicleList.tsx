@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { supabase, Vehicle } from '../lib/supabase';
+import { getCategoryLabel } from '../lib/vehicles';
+import { canManageBusiness } from '../lib/roles';
+import { useAuth } from '../contexts/AuthContext';
+import VehicleForm from './VehicleForm';
+import { Car, Plus, Trash2, CreditCard as Edit } from 'lucide-react';
+
+export default function VehicleList() {
+  const { profile } = useAuth();
+  const canManage = canManageBusiness(profile);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editVehicle, setEditVehicle] = useState<Vehicle | null>(null);
+
+  useEffect(() => {
+    fetchVehicles();
+  }, []);
+
+  const fetchVehicles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('vehicles')
+        .select('*')
+        .order('is_active', { ascending: false })
+        .order('make', { ascending: true })
+        .order('model', { ascending: true });
+
+      if (error) throw error;
+
+      setVehicles(data || []);
+    } catch (error) {
+      console.error('Error fetching vehicles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleActive = async (vehicle: Vehicle) => {
+    try {
+      const { error } = await supabase
+        .from('vehicles')
+        .update({ is_active: !vehicle.is_active })
+        .eq('id', vehicle.id);
+
+      if (error) throw error;
+
+      fetchVehicles();
+    } catch (error) {
+      console.error('Error updating vehicle:', error);
+      alert('Gagal mengubah status kendaraan');
+    }
+  };
+
+  const deleteVehicle = async (id: string) => {
+    if (!confirm('Yakin ingin menghapus kendaraan ini? Order lama tetap menyimpan nama mobilnya.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('vehicles')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      fetchVehicles();
+    } catch (error) {
+      console.error('Error deleting vehicle:', error);
+      alert('Gagal menghapus kendaraan');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0
+    }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-orange-600 p-3 rounded-lg">
+              <Car className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Armada Kendaraan</h2>
+              <p className="text-sm text-gray-600">
+                {vehicles.filter(v => v.is_active).length} aktif dari {vehicles.length} kendaraan
+              </p>
+            </div>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => {
+                setEditVehicle(null);
+                setShowForm(true);
+              }}
+              className="flex items-center justify-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-yellow-700 transition-colors font-medium"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Tambah Kendaraan</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {vehicles.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <Car className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500 text-lg">Belum ada kendaraan</p>
+          <p className="text-gray-400 text-sm mt-2">Klik tombol "Tambah Kendaraan" untuk mendaftarkan armada</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-orange-600 text-white">
+                  <th className="text-left px-4 py-3 text-sm font-semibold">No. Polisi</th>
+                  <th className="text-left px-4 py-3 text-sm font-semibold">Kendaraan</th>
+                  <th className="text-left px-4 py-3 text-sm font-semibold hidden sm:table-cell">Kategori</th>
+                  <th className="text-right px-4 py-3 text-sm font-semibold">Harga/Hari</th>
+                  <th className="text-center px-4 py-3 text-sm font-semibold">Status</th>
+                  {canManage && <th className="text-right px-4 py-3 text-sm font-semibold">Aksi</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {vehicles.map((vehicle, index) => (
+                  <tr key={vehicle.id} className={`${index % 2 === 0 ? 'bg-white' : 'bg-gray-50'} hover:bg-orange-50 transition-colors`}>
+                    <td className="px-4 py-3 border-b border-gray-200 font-mono font-semibold text-gray-900 whitespace-nowrap">
+                      {vehicle.plate_number}
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200">
+                      <p className="font-medium text-gray-900">{vehicle.make} {vehicle.model}</p>
+                      <p className="text-xs text-gray-500">
+                        {[vehicle.year, vehicle.color].filter(Boolean).join(' · ') || '-'}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-gray-700 hidden sm:table-cell">
+                      {getCategoryLabel(vehicle.category)}
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-right font-semibold text-gray-900 whitespace-nowrap">
+                      {formatCurrency(vehicle.daily_rate)}
+                    </td>
+                    <td className="px-4 py-3 border-b border-gray-200 text-center">
+                      <button
+                        onClick={() => toggleActive(vehicle)}
+                        disabled={!canManage}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold transition-colors disabled:cursor-default ${
+                          vehicle.is_active
+                            ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                            : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                        }`}
+                        title={canManage ? 'Klik untuk mengubah status' : undefined}
+                      >
+                        {vehicle.is_active ? 'Aktif' : 'Nonaktif'}
+                      </button>
+                    </td>
+                    {canManage && (
+                      <td className="px-4 py-3 border-b border-gray-200">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => {
+                              setEditVehicle(vehicle);
+                              setShowForm(true);
+                            }}
+                            className="p-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => deleteVehicle(vehicle.id)}
+                            className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                            title="Hapus"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <VehicleForm
+          onClose={() => {
+            setShowForm(false);
+            setEditVehicle(null);
+          }}
+          onSuccess={fetchVehicles}
+          editVehicle={editVehicle}
+        />
+      )}
+    </div>
+  );
+}
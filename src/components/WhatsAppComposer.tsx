@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { BusinessSettings, OrderWithItems } from '../lib/supabase';
+import { DEFAULT_BUSINESS_SETTINGS, fetchBusinessSettings } from '../lib/businessSettings';
+import { getWhatsAppTemplates, getWhatsAppUrl, renderWhatsAppMessage } from '../lib/whatsapp';
+import { normalizePhone } from '../lib/phone';
+import { X, Send } from 'lucide-react';
+
+interface WhatsAppComposerProps {
+  order: OrderWithItems;
+  onClose: () => void;
+}
+
+export default function WhatsAppComposer({ order, onClose }: WhatsAppComposerProps) {
+  const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  const templates = getWhatsAppTemplates(settings);
+  const phone = normalizePhone(order.customer_phone);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    setMessage(renderWhatsAppMessage(template.body, order, settings));
+  };
+
+  useEffect(() => {
+    fetchBusinessSettings()
+      .catch(error => {
+        console.error('Error fetching business settings:', error);
+        return DEFAULT_BUSINESS_SETTINGS;
+      })
+      .then(loaded => {
+        setSettings(loaded);
+        const [first] = getWhatsAppTemplates(loaded);
+        if (first) {
+          setTemplateId(first.id);
+          setMessage(renderWhatsAppMessage(first.body, order, loaded));
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [order]);
+
+  const handleSend = () => {
+    window.open(getWhatsAppUrl(order.customer_phone, message), '_blank', 'noopener,noreferrer');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 sticky top-0 bg-white z-10">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Kirim WhatsApp</h2>
+            <p className="text-sm text-gray-600">
+              {order.customer_name} · <span className="font-mono">{phone ? `+${phone}` : '-'}</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-6 h-6 text-gray-600" />
+          </button>
+        </div>
+
+        <div className="p-4 sm:p-6 space-y-4">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {templates.map(template => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => selectTemplate(template.id)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      templateId === template.id
+                        ? 'bg-orange-600 text-white shadow-md'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {template.name}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pesan</label>
+                <textarea rows={12} value={message} onChange={(e) => setMessage(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-yellow-500 focus:border-transparent text-sm" />
+                <p className="text-xs text-gray-500 mt-1">Pesan bisa diubah dulu sebelum dikirim. Template diatur di menu Pengaturan.</p>
+              </div>
+
+              {!phone && (
+                <p className="text-sm text-red-600">Nomor telepon pelanggan belum diisi</p>
+              )}
+
+              <div className="flex flex-col-reverse sm:flex-row gap-3 pt-4 border-t border-gray-200">
+                <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium">
+                  Batal
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSend}
+                  disabled={!phone || !message.trim()}
+                  className="flex items-center justify-center gap-2 w-full sm:flex-1 px-6 py-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Send className="w-5 h-5" />
+                  Buka WhatsApp
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User, AuthError, Session } from '@supabase/supabase-js';
-import { supabase } from '../lib/supabase';
+import { supabase, Profile } from '../lib/supabase';
+import { cacheProfile, clearCachedData, getCachedProfile } from '../lib/offlineStore';
+import { isNetworkError } from '../lib/offlineQueue';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
   loading: boolean;
+  refreshProfile: () => Promise<void>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: AuthError | null }>;
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>;
   signOut: () => Promise<void>;
@@ -16,7 +20,10 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  // Id user yang profilnya sudah selesai dimuat
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
 
   useEffect(() => {
   let mounted = true;
@@ -26,7 +33,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!mounted) return;
     setSession(session);
     setUser(session?.user ?? null);
-    setLoading(false);
+    setAuthLoading(false);
   };
 
   init();
@@ -37,7 +44,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!mounted) return;
     setSession(session);
     setUser(session?.user ?? null);
-    setLoading(false);
+    setAuthLoading(false);
   });
 
   return () => {
@@ -46,6 +53,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 }, []);
 
+  const userId = user?.id;
+
+  const refreshProfile = useCallback(async () => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+    }
+    if (error && isNetworkError(error)) {
+      setProfile(await getCachedProfile(userId).catch(() => null));
+    } else {
+      setProfile(data);
+      if (data) cacheProfile(data).catch(cacheError => console.error('Error caching profile:', cacheError));
+    }
+    setProfileUserId(userId);
+  }, [userId]);
+
+  // Profil (organisasi dan peran) dimuat terpisah dari event auth
+  useEffect(() => {
+    refreshProfile();
+  }, [refreshProfile]);
 
   const signUp = async (email: string, password: string, fullName: string) => {
     const { error } = await supabase.auth.signUp({
@@ -70,12 +107,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    // Antrean offline tetap disimpan dan dikirim saat akun yang sama login lagi
+    await clearCachedData().catch(error => console.error('Error clearing offline cache:', error));
   };
 
   const value = {
     user,
     session,
-    loading,
+    profile,
+    loading: authLoading || (!!userId && profileUserId !== userId),
+    refreshProfile,
     signUp,
     signIn,
     signOut,
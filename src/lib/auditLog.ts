@@ -0,0 +1,87 @@
+import { AuditAction, AuditLogEntry, AuditTable } from './supabase';
+
+export type AuditFieldKind =
+  | 'text'
+  | 'currency'
+  | 'date'
+  | 'datetime'
+  | 'status'
+  | 'method'
+  | 'calculation'
+  | 'deposit_type'
+  | 'deposit_status';
+
+// Kolom yang ditampilkan di panel Riwayat; kolom lain (id, timestamp, turunan) diabaikan
+export const AUDIT_FIELDS: Record<AuditTable, { key: string; label: string; kind: AuditFieldKind }[]> = {
+  orders: [
+    { key: 'invoice_number', label: 'No. Invoice', kind: 'text' },
+    { key: 'customer_name', label: 'Nama Pelanggan', kind: 'text' },
+    { key: 'customer_phone', label: 'Telepon', kind: 'text' },
+    { key: 'customer_address', label: 'Alamat', kind: 'text' },
+    { key: 'rental_start_date', label: 'Mulai Sewa', kind: 'date' },
+    { key: 'rental_end_date', label: 'Selesai Sewa', kind: 'date' },
+    { key: 'status', label: 'Status', kind: 'status' },
+    { key: 'returned_at', label: 'Waktu Kembali', kind: 'datetime' },
+    { key: 'notes', label: 'Catatan', kind: 'text' },
+  ],
+  order_items: [
+    { key: 'car_type', label: 'Kendaraan', kind: 'text' },
+    { key: 'quantity', label: 'Jumlah', kind: 'text' },
+    { key: 'daily_rate', label: 'Harga/Hari', kind: 'currency' },
+    { key: 'days', label: 'Hari', kind: 'text' },
+    { key: 'driver_daily_fee', label: 'Honor Sopir/Hari', kind: 'currency' },
+    { key: 'subtotal', label: 'Subtotal', kind: 'currency' },
+  ],
+  order_adjustments: [
+    { key: 'label', label: 'Keterangan', kind: 'text' },
+    { key: 'calculation', label: 'Perhitungan', kind: 'calculation' },
+    { key: 'value', label: 'Nilai', kind: 'text' },
+  ],
+  payments: [
+    { key: 'amount', label: 'Nominal', kind: 'currency' },
+    { key: 'paid_at', label: 'Tanggal Bayar', kind: 'date' },
+    { key: 'method', label: 'Metode', kind: 'method' },
+    { key: 'reference', label: 'No. Referensi', kind: 'text' },
+    { key: 'note', label: 'Catatan', kind: 'text' },
+  ],
+  order_deposits: [
+    { key: 'deposit_type', label: 'Jenis Jaminan', kind: 'deposit_type' },
+    { key: 'amount', label: 'Nominal', kind: 'currency' },
+    { key: 'description', label: 'Keterangan', kind: 'text' },
+    { key: 'received_date', label: 'Tanggal Diterima', kind: 'date' },
+    { key: 'status', label: 'Status', kind: 'deposit_status' },
+    { key: 'settled_date', label: 'Tanggal Selesai', kind: 'date' },
+    { key: 'withheld_amount', label: 'Nominal Dipotong', kind: 'currency' },
+    { key: 'withheld_reason', label: 'Alasan Potongan', kind: 'text' },
+  ],
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditTable, Record<AuditAction, string>> = {
+  orders: { insert: 'Order dibuat', update: 'Order diubah', delete: 'Order dihapus' },
+  order_items: { insert: 'Item ditambahkan', update: 'Item diubah', delete: 'Item dihapus' },
+  order_adjustments: { insert: 'Penyesuaian ditambahkan', update: 'Penyesuaian diubah', delete: 'Penyesuaian dihapus' },
+  payments: { insert: 'Pembayaran dicatat', update: 'Pembayaran diubah', delete: 'Pembayaran dihapus' },
+  order_deposits: { insert: 'Jaminan diterima', update: 'Jaminan diubah', delete: 'Jaminan dihapus' },
+};
+
+export type AuditChange = {
+  key: string;
+  label: string;
+  kind: AuditFieldKind;
+  before: unknown;
+  after: unknown;
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Insert dan delete menampilkan semua kolom yang terisi, update hanya kolom yang berubah
+export const getAuditChanges = (entry: AuditLogEntry): AuditChange[] =>
+  AUDIT_FIELDS[entry.table_name]
+    .map(field => ({
+      ...field,
+      before: entry.old_data?.[field.key] ?? null,
+      after: entry.new_data?.[field.key] ?? null,
+    }))
+    .filter(change => entry.action === 'update'
+      ? JSON.stringify(change.before) !== JSON.stringify(change.after)
+      : !isEmpty(change.before) || !isEmpty(change.after));
@@ -0,0 +1,46 @@
+import { supabase, BusinessSettings } from './supabase';
+
+// Sama dengan default kolom business_settings; dipakai sebelum pengaturan pertama kali disimpan
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+  company_name: 'Laju Tuju',
+  address: 'Soka Asri Permai, Kadisoka, Purwomartani, Kalasan Sleman',
+  phone: '+62 821 3856 8822',
+  email: 'contact@lajutuju.com',
+  website: 'lajutuju.com',
+  bank_name: 'BCA',
+  bank_account_number: '4561059637',
+  bank_account_name: 'Moh Fajar Yogyaning Praharu',
+  logo_url: null,
+  payment_terms_days: 0,
+  invoice_footer: null,
+  invoice_number_format: 'LT/{YYYY}/{MM}/{SEQ:4}',
+  return_time: '12:00',
+  late_grace_hours: 2,
+  late_fee_unit: 'hour',
+  late_fee_multiplier: 0.1,
+  early_return_refund_percent: 0,
+  whatsapp_templates: [],
+};
+
+export const fetchBusinessSettings = async (): Promise<BusinessSettings> => {
+  const { data, error } = await supabase
+    .from('business_settings')
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return { ...DEFAULT_BUSINESS_SETTINGS, ...data };
+};
+
+export const getLogoUrl = (settings: BusinessSettings) =>
+  settings.logo_url || `${import.meta.env.BASE_URL}logo.png`;
+
+export const getWebsiteUrl = (settings: BusinessSettings) =>
+  /^https?:\/\//.test(settings.website) ? settings.website : `https://${settings.website}`;
+
+export const getDueDate = (orderDate: string, settings: BusinessSettings) => {
+  const due = new Date(orderDate);
+  due.setDate(due.getDate() + settings.payment_terms_days);
+  return due;
+};
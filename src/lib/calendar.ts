@@ -0,0 +1,30 @@
+export type CalendarView = 'week' | 'month';
+
+export const CALENDAR_VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'week', label: 'Minggu' },
+  { value: 'month', label: 'Bulan' },
+];
+
+// Tanggal lokal dalam format 'YYYY-MM-DD', sama dengan kolom date di database
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Minggu dimulai hari Senin
+export const getCalendarDays = (anchor: Date, view: CalendarView) => {
+  const start = view === 'week'
+    ? addDays(anchor, -((anchor.getDay() + 6) % 7))
+    : new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const length = view === 'week'
+    ? 7
+    : new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+
+  return Array.from({ length }, (_, index) => addDays(start, index));
+};
+
+export const shiftCalendarAnchor = (anchor: Date, view: CalendarView, direction: 1 | -1) =>
+  view === 'week'
+    ? addDays(anchor, direction * 7)
+    : new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
@@ -0,0 +1,57 @@
+import { DepositStatus, DepositType, DepositWithheldFor, OrderDeposit } from './supabase';
+
+export const DEPOSIT_TYPES: { value: DepositType; label: string }[] = [
+  { value: 'cash', label: 'Uang Tunai' },
+  { value: 'motorcycle', label: 'Motor' },
+  { value: 'id_card', label: 'KTP / Identitas' },
+  { value: 'other', label: 'Lainnya' },
+];
+
+export const getDepositTypeLabel = (type: DepositType) =>
+  DEPOSIT_TYPES.find(t => t.value === type)?.label ?? type;
+
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  held: 'Dipegang',
+  returned: 'Dikembalikan',
+  withheld: 'Dipotong',
+};
+
+export const DEPOSIT_STATUS_BADGES: Record<DepositStatus, string> = {
+  held: 'bg-amber-100 text-amber-800',
+  returned: 'bg-green-100 text-green-800',
+  withheld: 'bg-red-100 text-red-800',
+};
+
+export const DEPOSIT_WITHHELD_FOR: { value: DepositWithheldFor; label: string }[] = [
+  { value: 'damage', label: 'Kerusakan' },
+  { value: 'late_fee', label: 'Denda Keterlambatan' },
+  { value: 'other', label: 'Lainnya' },
+];
+
+export const getWithheldForLabel = (value: DepositWithheldFor) =>
+  DEPOSIT_WITHHELD_FOR.find(option => option.value === value)?.label ?? value;
+
+// Status ringkas per order: selama ada jaminan yang masih dipegang, order dianggap belum selesai
+export const getOrderDepositStatus = (deposits: Pick<OrderDeposit, 'status'>[]): DepositStatus | null => {
+  if (deposits.length === 0) return null;
+  if (deposits.some(deposit => deposit.status === 'held')) return 'held';
+  if (deposits.some(deposit => deposit.status === 'withheld')) return 'withheld';
+  return 'returned';
+};
+
+// Nominal untuk uang tunai, keterangan barang (plus taksiran nilai bila diisi) untuk jaminan lain
+export const formatDepositDetail = (
+  deposit: Pick<OrderDeposit, 'amount' | 'description'>,
+  formatCurrency: (amount: number) => string
+) =>
+  [deposit.amount !== null ? formatCurrency(Number(deposit.amount)) : null, deposit.description]
+    .filter(Boolean)
+    .join(' · ');
+
+export const formatDepositStatus = (
+  deposit: Pick<OrderDeposit, 'status' | 'withheld_amount' | 'withheld_reason'>,
+  formatCurrency: (amount: number) => string
+) =>
+  deposit.status === 'withheld' && deposit.withheld_amount !== null
+    ? `Dipotong ${formatCurrency(Number(deposit.withheld_amount))}${deposit.withheld_reason ? ` (${deposit.withheld_reason})` : ''}`
+    : DEPOSIT_STATUS_LABELS[deposit.status];
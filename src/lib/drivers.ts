@@ -0,0 +1,33 @@
+import { Driver } from './supabase';
+
+export type LicenseStatus = 'valid' | 'expiring' | 'expired' | 'unknown';
+
+export const LICENSE_STATUS_LABELS: Record<LicenseStatus, string> = {
+  valid: 'SIM berlaku',
+  expiring: 'SIM segera habis',
+  expired: 'SIM habis',
+  unknown: 'Masa SIM belum diisi',
+};
+
+export const LICENSE_STATUS_BADGES: Record<LicenseStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  expiring: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-red-100 text-red-800',
+  unknown: 'bg-gray-200 text-gray-600',
+};
+
+// Dianggap segera habis bila berakhir dalam 30 hari
+const EXPIRING_DAYS = 30;
+
+// onDate dan license_expiry sama-sama 'YYYY-MM-DD', jadi cukup dibandingkan sebagai teks
+export const getLicenseStatus = (driver: Pick<Driver, 'license_expiry'>, onDate: string): LicenseStatus => {
+  if (!driver.license_expiry) return 'unknown';
+  if (driver.license_expiry < onDate) return 'expired';
+
+  const limit = new Date(`${onDate}T00:00:00`);
+  limit.setDate(limit.getDate() + EXPIRING_DAYS);
+  return new Date(`${driver.license_expiry}T00:00:00`) <= limit ? 'expiring' : 'valid';
+};
+
+export const formatDriverLabel = (driver: Pick<Driver, 'name' | 'phone'>) =>
+  `${driver.name} (${driver.phone})`;
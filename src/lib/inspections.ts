@@ -0,0 +1,54 @@
+import { supabase, InspectionKind } from './supabase';
+
+export const INSPECTION_PHOTO_BUCKET = 'inspection-photos';
+
+export const INSPECTION_KIND_LABELS: Record<InspectionKind, string> = {
+  pickup: 'Serah Terima',
+  return: 'Pengembalian',
+};
+
+export const INSPECTION_KINDS: InspectionKind[] = ['pickup', 'return'];
+
+export const EQUIPMENT_ITEMS: { key: string; label: string }[] = [
+  { key: 'stnk', label: 'STNK' },
+  { key: 'spare_tire', label: 'Ban serep' },
+  { key: 'jack', label: 'Dongkrak' },
+  { key: 'wheel_wrench', label: 'Kunci roda' },
+  { key: 'warning_triangle', label: 'Segitiga pengaman' },
+  { key: 'first_aid', label: 'Kotak P3K' },
+  { key: 'floor_mats', label: 'Karpet' },
+  { key: 'phone_charger', label: 'Charger HP' },
+];
+
+export const FUEL_LEVELS: { value: number; label: string }[] = [
+  { value: 0, label: 'Kosong' },
+  { value: 25, label: '1/4' },
+  { value: 50, label: '1/2' },
+  { value: 75, label: '3/4' },
+  { value: 100, label: 'Penuh' },
+];
+
+export const getFuelLevelLabel = (value: number) =>
+  FUEL_LEVELS.find(level => level.value === value)?.label ?? `${value}%`;
+
+// Foto disimpan per order; akses dicek lewat organisasi order, jadi tetap terbaca setelah tim digabung
+export const getInspectionPhotoPath = (orderId: string, kind: InspectionKind, file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  return `${orderId}/${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+};
+
+// Bucket foto bersifat privat, jadi foto ditampilkan lewat signed URL
+export const getInspectionPhotoUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(INSPECTION_PHOTO_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter(entry => entry.path && entry.signedUrl)
+      .map(entry => [entry.path as string, entry.signedUrl])
+  ) as Record<string, string>;
+};
@@ -0,0 +1,34 @@
+import jsPDF from 'jspdf';
+import { BusinessSettings, InvoiceEmailStatus, OrderWithItems } from './supabase';
+
+export const INVOICE_EMAIL_FUNCTION = 'send-invoice-email';
+
+export const INVOICE_EMAIL_STATUS_LABELS: Record<InvoiceEmailStatus, string> = {
+  pending: 'Mengirim',
+  sent: 'Terkirim',
+  failed: 'Gagal',
+};
+
+export const INVOICE_EMAIL_STATUS_BADGES: Record<InvoiceEmailStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+export const getDefaultEmailSubject = (order: Pick<OrderWithItems, 'invoice_number'>, settings: BusinessSettings) =>
+  `Invoice ${order.invoice_number} - ${settings.company_name}`;
+
+export const getDefaultEmailMessage = (order: Pick<OrderWithItems, 'customer_name' | 'invoice_number'>, settings: BusinessSettings) =>
+  [
+    `Halo ${order.customer_name},`,
+    '',
+    `Terlampir invoice ${order.invoice_number} untuk sewa kendaraan Anda.`,
+    `Pembayaran dapat ditransfer ke ${settings.bank_name} ${settings.bank_account_number} a.n. ${settings.bank_account_name}.`,
+    '',
+    'Terima kasih,',
+    settings.company_name,
+  ].join('\n');
+
+// Isi PDF tanpa prefix data URL, untuk dikirim sebagai lampiran
+export const getPdfBase64 = (pdf: jsPDF) =>
+  pdf.output('datauristring').split(',')[1];
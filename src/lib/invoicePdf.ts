@@ -0,0 +1,320 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import QRCode from 'qrcode';
+import { BusinessSettings, OrderAdjustment, OrderDeposit, OrderWithItems } from './supabase';
+import { PAYMENT_STATUS_LABELS, getOutstandingAmount } from './payments';
+import { getDueDate, getLogoUrl } from './businessSettings';
+import { getAdjustmentLines } from './orderAdjustments';
+import { formatDepositDetail, formatDepositStatus, getDepositTypeLabel } from './deposits';
+
+interface InvoicePdfOptions {
+  settings: BusinessSettings;
+  adjustments: OrderAdjustment[];
+  deposits: OrderDeposit[];
+  qrValue: string;
+}
+
+type PdfWithAutoTable = jsPDF & { lastAutoTable?: { finalY: number } };
+
+const ORANGE: [number, number, number] = [234, 88, 12];
+const GRAY: [number, number, number] = [75, 85, 99];
+const DARK: [number, number, number] = [17, 24, 39];
+const MARGIN = 15;
+const FOOTER_SPACE = 15;
+
+// Intl memakai non-breaking space yang tidak selalu aman untuk font standar PDF
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 })
+    .format(amount)
+    .replace(/\u00a0/g, ' ');
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+export const getInvoiceFileName = (order: Pick<OrderWithItems, 'invoice_number'>) =>
+  `Invoice-${order.invoice_number.replace(/[\\/]/g, '-')}.pdf`;
+
+const loadImage = async (url: string) => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+    const size = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = reject;
+      img.src = dataUrl;
+    });
+    return { dataUrl, ...size };
+  } catch (error) {
+    console.error('Error loading invoice logo:', error);
+    return null;
+  }
+};
+
+// Invoice PDF vektor (teks bisa dipilih dan dicari) langsung dari data order, bukan screenshot DOM.
+// Tabel item otomatis pindah halaman dengan header berulang.
+export async function buildInvoicePdf(order: OrderWithItems, { settings, adjustments, deposits, qrValue }: InvoicePdfOptions) {
+  const pdf: PdfWithAutoTable = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const rightX = pageWidth - MARGIN;
+
+  pdf.setProperties({ title: `Invoice ${order.invoice_number}`, subject: order.customer_name });
+
+  // Pindah halaman bila blok berikutnya tidak muat
+  const ensureSpace = (y: number, needed: number) => {
+    if (y + needed <= pageHeight - MARGIN - FOOTER_SPACE) return y;
+    pdf.addPage();
+    return MARGIN;
+  };
+
+  const sectionTitle = (text: string, x: number, y: number) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(9);
+    pdf.setTextColor(...ORANGE);
+    pdf.text(text.toUpperCase(), x, y);
+  };
+
+  // Header
+  let y = MARGIN;
+  const logo = await loadImage(getLogoUrl(settings));
+  if (logo) {
+    const logoWidth = 45;
+    const logoHeight = Math.min((logo.height / logo.width) * logoWidth, 25);
+    pdf.addImage(logo.dataUrl, 'PNG', MARGIN, y, logoWidth, logoHeight);
+    y += logoHeight + 3;
+  }
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(...GRAY);
+  [
+    ...pdf.splitTextToSize(settings.address, contentWidth / 2),
+    `Telp: ${settings.phone}`,
+    `Email: ${settings.email}`,
+    settings.website ? `Website: ${settings.website}` : '',
+  ].filter(Boolean).forEach(line => {
+    pdf.text(line, MARGIN, y + 3);
+    y += 4.5;
+  });
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.setTextColor(...DARK);
+  pdf.text('INVOICE', rightX, MARGIN + 7, { align: 'right' });
+  pdf.setFontSize(9);
+  pdf.setTextColor(...GRAY);
+  pdf.text('No. Invoice', rightX, MARGIN + 14, { align: 'right' });
+  pdf.text('Tanggal', rightX, MARGIN + 25, { align: 'right' });
+  pdf.setFont('courier', 'bold');
+  pdf.setFontSize(11);
+  pdf.setTextColor(...DARK);
+  pdf.text(order.invoice_number, rightX, MARGIN + 19, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(formatDate(order.order_date), rightX, MARGIN + 30, { align: 'right' });
+  let headerBottom = MARGIN + 32;
+  if (settings.payment_terms_days > 0) {
+    pdf.setFontSize(9);
+    pdf.setTextColor(...GRAY);
+    pdf.text('Jatuh Tempo', rightX, MARGIN + 36, { align: 'right' });
+    pdf.setFontSize(10);
+    pdf.setTextColor(...DARK);
+    pdf.text(formatDate(getDueDate(order.order_date, settings)), rightX, MARGIN + 41, { align: 'right' });
+    headerBottom = MARGIN + 43;
+  }
+
+  y = Math.max(y, headerBottom) + 2;
+  pdf.setDrawColor(...ORANGE);
+  pdf.setLineWidth(0.8);
+  pdf.line(MARGIN, y, rightX, y);
+  y += 8;
+
+  // Pelanggan & periode sewa
+  const columnX = MARGIN + contentWidth / 2 + 5;
+  sectionTitle('Informasi Pelanggan', MARGIN, y);
+  sectionTitle('Periode Sewa', columnX, y);
+
+  pdf.setFontSize(10);
+  pdf.setTextColor(...DARK);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(order.customer_name, MARGIN, y + 6);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setTextColor(...GRAY);
+  pdf.text(`Telepon: ${order.customer_phone}`, MARGIN, y + 11);
+  let customerY = y + 11;
+  if (order.customer_address) {
+    const addressLines = pdf.splitTextToSize(`Alamat: ${order.customer_address}`, contentWidth / 2 - 5);
+    pdf.text(addressLines, MARGIN, customerY + 5);
+    customerY += 5 * addressLines.length;
+  }
+
+  pdf.setTextColor(...DARK);
+  pdf.text(`Mulai: ${formatDate(order.rental_start_date)}`, columnX, y + 6);
+  pdf.text(`Selesai: ${formatDate(order.rental_end_date)}`, columnX, y + 11);
+
+  y = Math.max(customerY, y + 11) + 8;
+
+  // Rincian item
+  sectionTitle('Rincian Item Sewa', MARGIN, y);
+  autoTable(pdf, {
+    startY: y + 2,
+    margin: { top: MARGIN, left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER_SPACE },
+    head: [['Kendaraan', 'Unit', 'Hari', 'Harga/Hari', 'Subtotal']],
+    body: order.order_items.map(item => [
+      item.car_type,
+      String(item.quantity),
+      String(item.days),
+      formatCurrency(item.daily_rate),
+      formatCurrency(item.subtotal),
+    ]),
+    theme: 'grid',
+    showHead: 'everyPage',
+    rowPageBreak: 'avoid',
+    styles: { font: 'helvetica', fontSize: 9, cellPadding: 2.5, lineColor: [209, 213, 219], textColor: DARK },
+    headStyles: { fillColor: ORANGE, textColor: [255, 255, 255], fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [249, 250, 251] },
+    columnStyles: {
+      0: { cellWidth: 'auto', fontStyle: 'bold' },
+      1: { halign: 'center', cellWidth: 16 },
+      2: { halign: 'center', cellWidth: 16 },
+      3: { halign: 'right', cellWidth: 34 },
+      4: { halign: 'right', cellWidth: 36 },
+    },
+  });
+  y = (pdf.lastAutoTable?.finalY ?? y) + 8;
+
+  const totalsX = MARGIN + contentWidth / 2;
+  const totalsWidth = contentWidth / 2;
+
+  // Rincian diskon, biaya tambahan dan pajak
+  const { lines: adjustmentLines, taxable_amount } = getAdjustmentLines(order.order_items, adjustments);
+  if (adjustmentLines.length > 0) {
+    const breakdown: [string, number][] = [['Subtotal Sewa', Number(order.subtotal_amount)]];
+    adjustmentLines
+      .filter(line => line.kind !== 'tax')
+      .forEach(line => breakdown.push([line.label, line.amount]));
+    if (Number(order.tax_amount) > 0) {
+      breakdown.push(['DPP', taxable_amount]);
+      adjustmentLines
+        .filter(line => line.kind === 'tax')
+        .forEach(line => breakdown.push([line.label, line.amount]));
+    }
+    y = ensureSpace(y, breakdown.length * 5 + 2);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(...GRAY);
+    breakdown.forEach(([label, amount]) => {
+      pdf.text(label, totalsX + 4, y);
+      pdf.text(amount < 0 ? `- ${formatCurrency(-amount)}` : formatCurrency(amount), rightX - 4, y, { align: 'right' });
+      y += 5;
+    });
+    y += 2;
+  }
+
+  // Total & status pembayaran
+  y = ensureSpace(y, 32);
+  pdf.setFillColor(...ORANGE);
+  pdf.roundedRect(totalsX, y, totalsWidth, 11, 2, 2, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.setTextColor(255, 255, 255);
+  pdf.text('TOTAL PEMBAYARAN', totalsX + 4, y + 7);
+  pdf.setFontSize(12);
+  pdf.text(formatCurrency(order.total_amount), rightX - 4, y + 7.2, { align: 'right' });
+  y += 16;
+
+  pdf.setFontSize(9);
+  [
+    ['Sudah Dibayar', formatCurrency(order.paid_amount), false],
+    ['Sisa Tagihan', formatCurrency(getOutstandingAmount(order)), true],
+    ['Status', PAYMENT_STATUS_LABELS[order.payment_status].toUpperCase(), false],
+  ].forEach(([label, value, bold]) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setTextColor(...(bold ? DARK : GRAY));
+    pdf.text(label as string, totalsX + 4, y);
+    pdf.text(value as string, rightX - 4, y, { align: 'right' });
+    y += 5;
+  });
+  y += 5;
+
+  // Informasi pembayaran
+  y = ensureSpace(y, 26);
+  sectionTitle('Informasi Pembayaran', MARGIN, y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.setTextColor(...DARK);
+  pdf.text(`Bank: ${settings.bank_name}`, MARGIN, y + 6);
+  pdf.text(`No. Rekening: ${settings.bank_account_number}`, MARGIN, y + 11);
+  pdf.text(`Atas Nama: ${settings.bank_account_name}`, MARGIN, y + 16);
+  y += 24;
+
+  // Jaminan
+  if (deposits.length > 0) {
+    y = ensureSpace(y, 8 + deposits.length * 5);
+    sectionTitle('Jaminan', MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(...DARK);
+    deposits.forEach((deposit, index) => {
+      const lineY = y + 6 + index * 5;
+      pdf.text(`${getDepositTypeLabel(deposit.deposit_type)}: ${formatDepositDetail(deposit, formatCurrency)}`, MARGIN, lineY);
+      pdf.text(formatDepositStatus(deposit, formatCurrency), rightX, lineY, { align: 'right' });
+    });
+    y += 8 + deposits.length * 5;
+  }
+
+  // Catatan
+  if (order.notes) {
+    const noteLines: string[] = pdf.splitTextToSize(order.notes, contentWidth);
+    y = ensureSpace(y, 8 + noteLines.length * 4.5);
+    sectionTitle('Catatan', MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(...GRAY);
+    pdf.text(noteLines, MARGIN, y + 6);
+    y += 8 + noteLines.length * 4.5;
+  }
+
+  // QR code
+  y = ensureSpace(y, 40);
+  const qrDataUrl = await QRCode.toDataURL(qrValue, { margin: 1, width: 256 });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(...GRAY);
+  pdf.text(settings.company_name, MARGIN + 14, y, { align: 'center' });
+  pdf.addImage(qrDataUrl, 'PNG', MARGIN, y + 2, 28, 28);
+  pdf.setFontSize(7);
+  pdf.text('Scan untuk verifikasi', MARGIN + 14, y + 34, { align: 'center' });
+  pdf.setFontSize(9);
+
+  if (settings.invoice_footer) {
+    const footerLines: string[] = pdf.splitTextToSize(settings.invoice_footer, contentWidth - 40);
+    pdf.setFont('helvetica', 'italic');
+    pdf.text(footerLines, MARGIN + 40, y + 8);
+  }
+
+  // Footer "Halaman x dari y" di setiap halaman
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setDrawColor(229, 231, 235);
+    pdf.setLineWidth(0.3);
+    pdf.line(MARGIN, pageHeight - MARGIN - 4, rightX, pageHeight - MARGIN - 4);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(...GRAY);
+    pdf.text(order.invoice_number, MARGIN, pageHeight - MARGIN);
+    pdf.text(`Halaman ${page} dari ${pageCount}`, rightX, pageHeight - MARGIN, { align: 'right' });
+  }
+
+  return pdf;
+}
@@ -0,0 +1,54 @@
+import { BusinessSettings, LateFeeUnit, Order, OrderItem } from './supabase';
+
+export const LATE_FEE_UNITS: { value: LateFeeUnit; label: string }[] = [
+  { value: 'hour', label: 'Per jam' },
+  { value: 'day', label: 'Per hari' },
+];
+
+const UNIT_NAMES: Record<LateFeeUnit, string> = {
+  hour: 'jam',
+  day: 'hari',
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Batas kembali = tanggal selesai sewa + jam batas pengembalian, di zona waktu lokal
+export const getReturnDueAt = (order: Pick<Order, 'rental_end_date'>, settings: BusinessSettings) =>
+  new Date(`${order.rental_end_date}T${settings.return_time.slice(0, 5)}`);
+
+export type ReturnAdjustment = {
+  kind: 'charge' | 'discount';
+  label: string;
+  amount: number;
+} | null;
+
+// Harus sama dengan record_order_return di database
+export const calculateReturnAdjustment = (
+  order: Pick<Order, 'rental_start_date' | 'rental_end_date'> & { order_items: Pick<OrderItem, 'quantity' | 'daily_rate'>[] },
+  settings: BusinessSettings,
+  returnedAt: Date,
+  applyEarlyReturn: boolean
+): ReturnAdjustment => {
+  const dueAt = getReturnDueAt(order, settings);
+  const dailyBase = order.order_items.reduce((sum, item) => sum + item.quantity * Number(item.daily_rate), 0);
+  const lateHours = (returnedAt.getTime() - dueAt.getTime()) / HOUR - settings.late_grace_hours;
+
+  if (lateHours > 0) {
+    const units = settings.late_fee_unit === 'hour' ? Math.ceil(lateHours) : Math.ceil(lateHours / 24);
+    const amount = Math.round(units * Number(settings.late_fee_multiplier) * dailyBase);
+    return amount > 0
+      ? { kind: 'charge', label: `Denda Keterlambatan ${units} ${UNIT_NAMES[settings.late_fee_unit]}`, amount }
+      : null;
+  }
+
+  if (!applyEarlyReturn || Number(settings.early_return_refund_percent) <= 0) return null;
+
+  const rentalDays = Math.round(
+    (new Date(order.rental_end_date).getTime() - new Date(order.rental_start_date).getTime()) / (24 * HOUR)
+  ) + 1;
+  const earlyDays = Math.min(Math.floor((dueAt.getTime() - returnedAt.getTime()) / (24 * HOUR)), rentalDays);
+  const amount = Math.round(earlyDays * dailyBase * Number(settings.early_return_refund_percent) / 100);
+  return earlyDays >= 1 && amount > 0
+    ? { kind: 'discount', label: `Pengembalian Lebih Awal ${earlyDays} hari`, amount }
+    : null;
+};
@@ -0,0 +1,151 @@
+import { supabase, OrderWithItems } from './supabase';
+import { QueuedOrder, SaveOrderPayload, deleteQueuedOrder, getQueuedOrders, putQueuedOrder } from './offlineStore';
+
+const listeners = new Set<() => void>();
+
+// Komponen yang menampilkan status sinkron ikut diperbarui setiap antrean berubah
+export const subscribeOfflineQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// supabase-js tidak melempar saat fetch gagal; pesannya yang dicek
+export const isNetworkError = (error: unknown) => {
+  if (!navigator.onLine) return true;
+  const { message } = (error ?? {}) as { message?: string };
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message ?? '');
+};
+
+export const getSaveOrderErrorMessage = (error: unknown) => {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  return code === '23P01'
+    ? message?.includes('order_items_no_driver_overlap')
+      ? 'Gagal menyimpan order: sopir sudah bertugas di order lain pada periode ini. Silakan cek ulang jadwal.'
+      : 'Gagal menyimpan order: kendaraan sudah dibooking orang lain di periode ini. Silakan cek ulang jadwal.'
+    : 'Gagal menyimpan order';
+};
+
+const getUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+};
+
+// Antrean milik akun lain di perangkat yang sama tidak ditampilkan atau dikirim
+export const getUserQueuedOrders = async () => {
+  const userId = await getUserId();
+  return (await getQueuedOrders()).filter(entry => entry.user_id === userId);
+};
+
+export const queueOrderSave = async (
+  payload: SaveOrderPayload,
+  order: Pick<OrderWithItems, 'id' | 'invoice_number' | 'updated_at'> | null
+) => {
+  const userId = await getUserId();
+  if (!userId) throw new Error('Sesi login tidak ditemukan');
+
+  // Edit berikutnya untuk order yang sama menggantikan antrean lama, versi dasarnya tetap yang pertama
+  const previous = order
+    ? (await getQueuedOrders()).find(entry => entry.user_id === userId && entry.order_id === order.id)
+    : undefined;
+
+  await putQueuedOrder({
+    id: previous?.id ?? crypto.randomUUID(),
+    user_id: userId,
+    order_id: order?.id ?? null,
+    invoice_number: order?.invoice_number ?? null,
+    customer_name: String(payload.p_order.customer_name ?? ''),
+    base_updated_at: previous?.base_updated_at ?? order?.updated_at ?? null,
+    server_updated_at: null,
+    payload,
+    status: 'pending',
+    error: null,
+    created_at: previous?.created_at ?? new Date().toISOString()
+  });
+  notify();
+};
+
+let syncing: Promise<number> | null = null;
+
+export const isSyncing = () => syncing !== null;
+
+const runSync = async () => {
+  let synced = 0;
+  if (!navigator.onLine) return synced;
+
+  const entries = (await getUserQueuedOrders()).filter(entry => entry.status === 'pending');
+  for (const entry of entries) {
+    try {
+      if (entry.order_id) {
+        const { data, error } = await supabase
+          .from('orders')
+          .select('updated_at')
+          .eq('id', entry.order_id)
+          .maybeSingle();
+        if (error) throw error;
+
+        if (!data) {
+          await putQueuedOrder({ ...entry, status: 'failed', error: 'Order sudah dihapus di server' });
+          continue;
+        }
+        // Order diubah orang lain selama offline; pengguna yang memutuskan versi mana yang dipakai
+        if (data.updated_at !== entry.base_updated_at) {
+          await putQueuedOrder({ ...entry, status: 'conflict', server_updated_at: data.updated_at, error: null });
+          continue;
+        }
+      }
+
+      const { error } = await supabase.rpc('save_order', entry.payload);
+      if (error) throw error;
+
+      await deleteQueuedOrder(entry.id);
+      synced++;
+    } catch (error) {
+      // Koneksi putus lagi: sisa antrean dicoba pada kesempatan berikutnya
+      if (isNetworkError(error)) break;
+      console.error('Error syncing queued order:', error);
+      const { code, message } = error as { code?: string; message?: string };
+      await putQueuedOrder({
+        ...entry,
+        status: 'failed',
+        error: code === '23P01' || !message ? getSaveOrderErrorMessage(error) : message
+      });
+    } finally {
+      notify();
+    }
+  }
+  return synced;
+};
+
+// Mengembalikan jumlah order yang berhasil dikirim; panggilan bersamaan memakai proses yang sama
+export const syncQueuedOrders = () => {
+  if (!syncing) {
+    syncing = runSync().finally(() => {
+      syncing = null;
+      notify();
+    });
+    notify();
+  }
+  return syncing;
+};
+
+// Konflik: 'mine' menimpa versi server dengan perubahan offline, 'server' membuang perubahan offline
+export const resolveQueuedOrder = async (entry: QueuedOrder, keep: 'mine' | 'server') => {
+  if (keep === 'server') {
+    await deleteQueuedOrder(entry.id);
+    notify();
+    return 0;
+  }
+  await putQueuedOrder({
+    ...entry,
+    base_updated_at: entry.status === 'conflict' ? entry.server_updated_at : entry.base_updated_at,
+    server_updated_at: null,
+    status: 'pending',
+    error: null
+  });
+  notify();
+  return syncQueuedOrders();
+};
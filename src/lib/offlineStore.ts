@@ -0,0 +1,154 @@
+import { Driver, OrderAdjustment, OrderWithItems, Profile, Vehicle } from './supabase';
+
+// Penyimpanan lokal untuk kerja offline: order terakhir, daftar armada/sopir, profil, dan antrean simpan order
+const DB_NAME = 'lajutuju-offline';
+const DB_VERSION = 1;
+const ORDERS_STORE = 'orders';
+const LISTS_STORE = 'lists';
+const QUEUE_STORE = 'order_queue';
+
+// Cukup untuk beberapa halaman daftar order terakhir
+const MAX_CACHED_ORDERS = 200;
+
+export type QueuedOrderStatus = 'pending' | 'conflict' | 'failed';
+
+// Argumen rpc save_order apa adanya, supaya saat sinkron dikirim persis seperti dari form
+export type SaveOrderPayload = {
+  p_order_id: string | null;
+  p_order: Record<string, unknown>;
+  p_items: Record<string, unknown>[];
+  p_adjustments: Record<string, unknown>[];
+};
+
+export type QueuedOrder = {
+  id: string;
+  user_id: string;
+  order_id: string | null;
+  invoice_number: string | null;
+  customer_name: string;
+  // updated_at order di server saat mulai diedit; beda berarti order sudah diubah orang lain
+  base_updated_at: string | null;
+  server_updated_at: string | null;
+  payload: SaveOrderPayload;
+  status: QueuedOrderStatus;
+  error: string | null;
+  created_at: string;
+};
+
+type CachedList = 'vehicles' | 'drivers';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ORDERS_STORE, { keyPath: 'id' });
+        db.createObjectStore(LISTS_STORE);
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Urutan terbaru dulu, sama seperti daftar order
+const compareOrders = (a: OrderWithItems, b: OrderWithItems) =>
+  b.order_date.localeCompare(a.order_date) || b.created_at.localeCompare(a.created_at);
+
+export const cacheOrders = async (orders: OrderWithItems[]) => {
+  if (orders.length === 0) return;
+  const cached = await getCachedOrders();
+  const merged = new Map(cached.map(order => [order.id, order]));
+  orders.forEach(order => merged.set(order.id, order));
+  const kept = [...merged.values()].sort(compareOrders).slice(0, MAX_CACHED_ORDERS);
+
+  await run(ORDERS_STORE, 'readwrite', store => {
+    store.clear();
+    kept.forEach(order => store.put(order));
+  });
+};
+
+export const getCachedOrders = async () =>
+  (await run<OrderWithItems[]>(ORDERS_STORE, 'readonly', store => store.getAll())).sort(compareOrders);
+
+// null berarti order belum pernah tersimpan bersama penyesuaiannya
+export const getCachedOrderAdjustments = async (id: string) => {
+  const order = await run<(OrderWithItems & { order_adjustments?: OrderAdjustment[] }) | undefined>(
+    ORDERS_STORE,
+    'readonly',
+    store => store.get(id)
+  );
+  return order?.order_adjustments ?? null;
+};
+
+export const removeCachedOrder = (id: string) =>
+  run(ORDERS_STORE, 'readwrite', store => {
+    store.delete(id);
+  });
+
+export const cacheList = (name: CachedList, rows: Vehicle[] | Driver[]) =>
+  run(LISTS_STORE, 'readwrite', store => {
+    store.put(rows, name);
+  });
+
+export const getCachedList = async <T extends Vehicle | Driver>(name: CachedList) =>
+  ((await run<T[] | undefined>(LISTS_STORE, 'readonly', store => store.get(name))) ?? []);
+
+// Organisasi dan peran terakhir, supaya tombol tulis tetap ada saat aplikasi dibuka tanpa sinyal
+export const cacheProfile = (profile: Profile) =>
+  run(LISTS_STORE, 'readwrite', store => {
+    store.put(profile, 'profile');
+  });
+
+export const getCachedProfile = async (userId: string) => {
+  const profile = await run<Profile | undefined>(LISTS_STORE, 'readonly', store => store.get('profile'));
+  return profile?.id === userId ? profile : null;
+};
+
+export const getQueuedOrders = async () =>
+  (await run<QueuedOrder[]>(QUEUE_STORE, 'readonly', store => store.getAll()))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+export const putQueuedOrder = (entry: QueuedOrder) =>
+  run(QUEUE_STORE, 'readwrite', store => {
+    store.put(entry);
+  });
+
+export const deleteQueuedOrder = (id: string) =>
+  run(QUEUE_STORE, 'readwrite', store => {
+    store.delete(id);
+  });
+
+// Data organisasi tidak boleh tertinggal untuk akun berikutnya di perangkat yang sama
+export const clearCachedData = () =>
+  Promise.all([
+    run(ORDERS_STORE, 'readwrite', store => {
+      store.clear();
+    }),
+    run(LISTS_STORE, 'readwrite', store => {
+      store.clear();
+    })
+  ]);
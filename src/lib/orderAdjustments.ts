@@ -0,0 +1,134 @@
+import { AdjustmentCalculation, AdjustmentKind, ChargeType, OrderAdjustment, OrderItem } from './supabase';
+
+export const ADJUSTMENT_KIND_LABELS: Record<AdjustmentKind, string> = {
+  discount: 'Diskon',
+  charge: 'Biaya Tambahan',
+  tax: 'Pajak',
+};
+
+export const CHARGE_TYPES: { value: ChargeType; label: string }[] = [
+  { value: 'driver', label: 'Biaya Sopir' },
+  { value: 'fuel', label: 'BBM' },
+  { value: 'delivery', label: 'Antar Kendaraan' },
+  { value: 'pickup', label: 'Jemput Kendaraan' },
+  { value: 'out_of_town', label: 'Luar Kota' },
+  { value: 'late_return', label: 'Denda Keterlambatan' },
+  { value: 'damage', label: 'Ganti Rugi Kerusakan' },
+  { value: 'other', label: 'Lainnya' },
+];
+
+export const getChargeTypeLabel = (type: ChargeType) =>
+  CHARGE_TYPES.find(t => t.value === type)?.label ?? type;
+
+export const PPN_LABEL = 'PPN';
+export const DEFAULT_PPN_RATE = 11;
+
+// Baris penyesuaian dengan item_key: id item (data tersimpan) atau key sementara di form; null = level order
+export type AdjustmentInput = Pick<OrderAdjustment, 'kind' | 'calculation' | 'value'> & {
+  item_key: string | null;
+};
+
+export type OrderAmounts = {
+  subtotal_amount: number;
+  discount_amount: number;
+  charge_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  // Dasar pengenaan pajak
+  taxable_amount: number;
+  // Nominal tiap baris penyesuaian, urutannya sama dengan input
+  amounts: number[];
+};
+
+const applyRate = (calculation: AdjustmentCalculation, value: number, base: number) =>
+  Math.round(calculation === 'percent' ? base * Number(value) / 100 : Number(value));
+
+// Harus sama dengan calculate_order_amounts di database:
+// diskon per item -> biaya tambahan -> diskon order -> pajak
+export const calculateOrderAmounts = (
+  items: { key: string; subtotal: number }[],
+  adjustments: AdjustmentInput[]
+): OrderAmounts => {
+  const amounts = adjustments.map(() => 0);
+  const subtotal = items.reduce((sum, item) => sum + Number(item.subtotal), 0);
+
+  let lineDiscount = 0;
+  adjustments.forEach((adjustment, index) => {
+    if (adjustment.kind !== 'discount' || adjustment.item_key === null) return;
+    const item = items.find(i => i.key === adjustment.item_key);
+    if (!item) return;
+    amounts[index] = applyRate(adjustment.calculation, adjustment.value, Number(item.subtotal));
+    lineDiscount += amounts[index];
+  });
+
+  let base = Math.max(subtotal - lineDiscount, 0);
+  let charges = 0;
+  adjustments.forEach((adjustment, index) => {
+    if (adjustment.kind !== 'charge') return;
+    amounts[index] = applyRate(adjustment.calculation, adjustment.value, base);
+    charges += amounts[index];
+  });
+  base += charges;
+
+  let orderDiscount = 0;
+  adjustments.forEach((adjustment, index) => {
+    if (adjustment.kind !== 'discount' || adjustment.item_key !== null) return;
+    amounts[index] = applyRate(adjustment.calculation, adjustment.value, base);
+    orderDiscount += amounts[index];
+  });
+
+  const taxable = Math.max(base - orderDiscount, 0);
+  let tax = 0;
+  adjustments.forEach((adjustment, index) => {
+    if (adjustment.kind !== 'tax') return;
+    amounts[index] = applyRate(adjustment.calculation, adjustment.value, taxable);
+    tax += amounts[index];
+  });
+
+  return {
+    subtotal_amount: subtotal,
+    discount_amount: lineDiscount + orderDiscount,
+    charge_amount: charges,
+    tax_amount: tax,
+    total_amount: taxable + tax,
+    taxable_amount: taxable,
+    amounts,
+  };
+};
+
+export type AdjustmentLine = {
+  id: string;
+  kind: AdjustmentKind;
+  label: string;
+  amount: number;
+};
+
+// Baris rincian untuk invoice, diurutkan seperti urutan perhitungan
+export const getAdjustmentLines = (items: OrderItem[], adjustments: OrderAdjustment[]) => {
+  const { amounts, taxable_amount } = calculateOrderAmounts(
+    items.map(item => ({ key: item.id, subtotal: item.subtotal })),
+    adjustments.map(adjustment => ({ ...adjustment, item_key: adjustment.order_item_id }))
+  );
+
+  const rank = (adjustment: OrderAdjustment) =>
+    adjustment.kind === 'discount' && adjustment.order_item_id ? 0
+      : adjustment.kind === 'charge' ? 1
+        : adjustment.kind === 'discount' ? 2
+          : 3;
+
+  const lines = adjustments
+    .map((adjustment, index): AdjustmentLine & { rank: number } => {
+      const item = items.find(i => i.id === adjustment.order_item_id);
+      const rate = adjustment.calculation === 'percent' ? ` ${Number(adjustment.value)}%` : '';
+      return {
+        id: adjustment.id,
+        kind: adjustment.kind,
+        label: `${adjustment.label}${rate}${item ? ` (${item.car_type})` : ''}`,
+        amount: adjustment.kind === 'discount' ? -amounts[index] : amounts[index],
+        rank: rank(adjustment),
+      };
+    })
+    .sort((a, b) => a.rank - b.rank);
+
+  return { lines, taxable_amount };
+};
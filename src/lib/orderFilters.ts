@@ -0,0 +1,71 @@
+import { OrderStatus, OrderWithItems, PaymentStatus } from './supabase';
+
+export type OrderFilters = {
+  q: string;
+  from: string;
+  to: string;
+  vehicle: string;
+  status: OrderStatus | '';
+  payment: PaymentStatus | '';
+  page: number;
+};
+
+export const ORDER_PAGE_SIZE = 20;
+
+export const EMPTY_ORDER_FILTERS: OrderFilters = {
+  q: '',
+  from: '',
+  to: '',
+  vehicle: '',
+  status: '',
+  payment: '',
+  page: 1,
+};
+
+// Filter disimpan di query string supaya tampilan bisa dibagikan lewat link
+export const readOrderFilters = (search: string = window.location.search): OrderFilters => {
+  const params = new URLSearchParams(search);
+  const page = parseInt(params.get('page') || '1');
+  return {
+    q: params.get('q') || '',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    vehicle: params.get('vehicle') || '',
+    status: (params.get('status') || '') as OrderFilters['status'],
+    payment: (params.get('payment') || '') as OrderFilters['payment'],
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+};
+
+export const writeOrderFilters = (filters: OrderFilters) => {
+  const params = new URLSearchParams(window.location.search);
+  (Object.keys(EMPTY_ORDER_FILTERS) as (keyof OrderFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (value === EMPTY_ORDER_FILTERS[key]) {
+      params.delete(key);
+    } else {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+export const hasActiveOrderFilters = (filters: OrderFilters) =>
+  (['q', 'from', 'to', 'vehicle', 'status', 'payment'] as const).some(key => filters[key] !== '');
+
+// Karakter ini punya arti khusus di filter or() PostgREST
+export const sanitizeSearchTerm = (term: string) => term.replace(/[,()*%\\]/g, ' ').trim();
+
+// Padanan query daftar order untuk data tersimpan di perangkat saat offline
+export const matchesOrderFilters = (order: OrderWithItems, filters: OrderFilters) => {
+  const term = sanitizeSearchTerm(filters.q).toLowerCase();
+  if (term && ![order.customer_name, order.customer_phone, order.invoice_number]
+    .some(value => value.toLowerCase().includes(term))) return false;
+  if (filters.from && order.rental_end_date < filters.from) return false;
+  if (filters.to && order.rental_start_date > filters.to) return false;
+  if (filters.vehicle && !order.order_items.some(item => item.vehicle_id === filters.vehicle)) return false;
+  if (filters.status && order.status !== filters.status) return false;
+  if (filters.payment && order.payment_status !== filters.payment) return false;
+  return true;
+};
@@ -0,0 +1,46 @@
+import { Order, OrderStatus } from './supabase';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  booked: 'Dibooking',
+  picked_up: 'Sedang Jalan',
+  returned: 'Dikembalikan',
+  closed: 'Selesai',
+  cancelled: 'Dibatalkan',
+};
+
+export const ORDER_STATUS_BADGES: Record<OrderStatus, string> = {
+  booked: 'bg-blue-100 text-blue-800',
+  picked_up: 'bg-orange-100 text-orange-800',
+  returned: 'bg-purple-100 text-purple-800',
+  closed: 'bg-gray-200 text-gray-700',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+// Warna balok di kalender armada
+export const ORDER_STATUS_BAR_COLORS: Record<OrderStatus, string> = {
+  booked: 'bg-blue-500 hover:bg-blue-600',
+  picked_up: 'bg-orange-500 hover:bg-orange-600',
+  returned: 'bg-purple-500 hover:bg-purple-600',
+  closed: 'bg-gray-400 hover:bg-gray-500',
+  cancelled: 'bg-red-400 hover:bg-red-500',
+};
+
+// Harus sama dengan trigger enforce_order_status_transition di database
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, { to: OrderStatus; label: string }[]> = {
+  booked: [
+    { to: 'picked_up', label: 'Mobil Diambil' },
+    { to: 'cancelled', label: 'Batalkan' },
+  ],
+  picked_up: [{ to: 'returned', label: 'Mobil Kembali' }],
+  returned: [{ to: 'closed', label: 'Tutup Order' }],
+  closed: [],
+  cancelled: [],
+};
+
+export const getStatusTimestamps = (order: Order) =>
+  [
+    { label: 'Diambil', value: order.picked_up_at },
+    { label: 'Kembali', value: order.returned_at },
+    { label: 'Ditutup', value: order.closed_at },
+    { label: 'Dibatalkan', value: order.cancelled_at },
+  ].filter((entry): entry is { label: string; value: string } => !!entry.value);
@@ -0,0 +1,27 @@
+import { Order, PaymentMethod, PaymentStatus } from './supabase';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Tunai' },
+  { value: 'transfer', label: 'Transfer' },
+  { value: 'qris', label: 'QRIS' },
+  { value: 'deposit', label: 'Potong Jaminan' },
+];
+
+export const getPaymentMethodLabel = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find(m => m.value === method)?.label ?? method;
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Belum Bayar',
+  partial: 'DP',
+  paid: 'Lunas',
+};
+
+export const PAYMENT_STATUS_BADGES: Record<PaymentStatus, string> = {
+  unpaid: 'bg-red-100 text-red-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+// Sisa tagihan tidak pernah negatif; kelebihan bayar dianggap lunas
+export const getOutstandingAmount = (order: Pick<Order, 'total_amount' | 'paid_amount'>) =>
+  Math.max(Number(order.total_amount) - Number(order.paid_amount), 0);
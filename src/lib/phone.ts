@@ -0,0 +1,9 @@
+// Sama dengan fungsi normalize_phone di database: 0812..., +62 812..., 812... -> 62812...
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '');
+  if (!digits) return '';
+  if (digits.startsWith('62')) return digits;
+  if (digits.startsWith('0')) return `62${digits.slice(1)}`;
+  if (digits.startsWith('8')) return `62${digits}`;
+  return digits;
+};
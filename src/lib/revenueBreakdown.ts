@@ -0,0 +1,101 @@
+import { OrderAdjustment, OrderItem, OrderWithItems, ReportBreakdownRow, Vehicle } from './supabase';
+import { getCategoryLabel } from './vehicles';
+import { getDaysInRange, getRentalPeriodDays } from './revenueRecognition';
+
+export type BreakdownItem = OrderItem & {
+  vehicles: Pick<Vehicle, 'make' | 'model' | 'plate_number' | 'category'> | null;
+};
+
+export type BreakdownOrder = Omit<OrderWithItems, 'order_items'> & {
+  order_items: BreakdownItem[];
+  order_adjustments: Pick<OrderAdjustment, 'order_item_id' | 'kind' | 'calculation' | 'value'>[];
+};
+
+export type BreakdownGroup = 'vehicle' | 'category' | 'customer';
+
+export type BreakdownRow = {
+  key: string;
+  label: string;
+  revenue: number;
+  rental_days: number;
+  unit_days: number;
+  order_ids: string[];
+};
+
+export type BreakdownSortKey = 'label' | 'revenue' | 'rental_days' | 'unit_days';
+
+// Baris dari report_by_vehicle / report_by_customer
+export const toBreakdownRow = (row: ReportBreakdownRow, group: BreakdownGroup): BreakdownRow => ({
+  key: row.group_key,
+  label: group === 'category'
+    ? (row.category ? getCategoryLabel(row.category) : 'Tanpa kategori')
+    : row.label ?? '-',
+  revenue: Number(row.revenue),
+  rental_days: Number(row.rental_days),
+  unit_days: Number(row.unit_days),
+  order_ids: row.order_ids,
+});
+
+// Kunci grup sama dengan group_key dari fungsi report di database
+const getGroupKey = (item: BreakdownItem, group: BreakdownGroup) => {
+  if (group === 'category') {
+    return item.vehicles?.category ?? 'none';
+  }
+
+  // Item lama tanpa vehicle_id dikelompokkan per car_type
+  return item.vehicle_id && item.vehicles ? item.vehicle_id : `car_type:${item.car_type}`;
+};
+
+// Rentang [from, to) untuk basis periode sewa; null berarti seluruh item diakui penuh
+export type RecognitionRange = { from: string; to: string } | null;
+
+// Diskon per item, dihitung seperti di report_by_vehicle
+const getLineDiscount = (order: BreakdownOrder, item: BreakdownItem) =>
+  order.order_adjustments
+    .filter(adjustment => adjustment.order_item_id === item.id && adjustment.kind === 'discount')
+    .reduce((sum, adjustment) => sum + Math.round(adjustment.calculation === 'percent'
+      ? Number(item.subtotal) * Number(adjustment.value) / 100
+      : Number(adjustment.value)), 0);
+
+// Bagian order yang diakui di periode; 1 berarti seluruh order
+const getOrderShare = (order: BreakdownOrder, range: RecognitionRange) =>
+  range ? getDaysInRange(order, range.from, range.to) / getRentalPeriodDays(order) : 1;
+
+const getItemContribution = (order: BreakdownOrder, item: BreakdownItem, range: RecognitionRange) => {
+  const days = range ? getDaysInRange(order, range.from, range.to) : item.days;
+  return {
+    revenue: Math.max(Number(item.subtotal) - getLineDiscount(order, item), 0) * getOrderShare(order, range),
+    rental_days: days,
+    unit_days: (item.quantity || 1) * days,
+  };
+};
+
+// Pendapatan satu order di baris breakdown; per pelanggan memakai total order seperti report_by_customer
+export const getOrderContribution = (
+  order: BreakdownOrder,
+  group: BreakdownGroup,
+  key: string,
+  range: RecognitionRange
+) => {
+  const contributions = getGroupItems(order, group, key).map(item => getItemContribution(order, item, range));
+  return {
+    revenue: group === 'customer'
+      ? Number(order.total_amount) * getOrderShare(order, range)
+      : contributions.reduce((sum, contribution) => sum + contribution.revenue, 0),
+    unit_days: contributions.reduce((sum, contribution) => sum + contribution.unit_days, 0),
+  };
+};
+
+export const sortBreakdownRows = (rows: BreakdownRow[], key: BreakdownSortKey, ascending: boolean) =>
+  [...rows].sort((a, b) => {
+    const result = key === 'label'
+      ? a.label.localeCompare(b.label, 'id-ID')
+      : a[key] - b[key];
+    return ascending ? result : -result;
+  });
+
+// Item dari satu order yang masuk ke baris breakdown tertentu
+export const getGroupItems = (order: BreakdownOrder, group: BreakdownGroup, key: string) =>
+  group === 'customer'
+    ? order.order_items
+    : order.order_items.filter(item => getGroupKey(item, group) === key);
@@ -0,0 +1,43 @@
+import { Order } from './supabase';
+
+export type RevenueBasis = 'booking' | 'rental';
+
+export const REVENUE_BASIS_OPTIONS: { value: RevenueBasis; label: string; description: string }[] = [
+  { value: 'booking', label: 'Tanggal Order', description: 'Seluruh nilai order masuk ke bulan tanggal order' },
+  { value: 'rental', label: 'Periode Sewa', description: 'Nilai order dibagi rata ke setiap hari masa sewa' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tanggal 'YYYY-MM-DD' sebagai nomor hari (UTC) supaya tidak terpengaruh zona waktu
+const toDayNumber = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+const toDateString = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+
+// Rentang [from, to) untuk satu bulan atau satu tahun penuh
+export const getPeriodRange = (year: number, month: number | null) => ({
+  from: toDateString(year, month ?? 0),
+  to: month === null ? toDateString(year + 1, 0) : toDateString(year, month + 1),
+});
+
+// Periode sewa inklusif: 10-20 Oktober = 11 hari
+export const getRentalPeriodDays = (order: Pick<Order, 'rental_start_date' | 'rental_end_date'>) =>
+  Math.max(toDayNumber(order.rental_end_date) - toDayNumber(order.rental_start_date) + 1, 1);
+
+// Jumlah hari masa sewa yang jatuh di rentang [from, to)
+export const getDaysInRange = (
+  order: Pick<Order, 'rental_start_date' | 'rental_end_date'>,
+  from: string,
+  to: string
+) => {
+  const start = Math.max(toDayNumber(order.rental_start_date), toDayNumber(from));
+  const end = Math.min(toDayNumber(order.rental_end_date) + 1, toDayNumber(to));
+  return Math.max(end - start, 0);
+};
+
+// Zona waktu browser, dipakai server untuk menentukan bulan dari order_date
+export const getReportTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
@@ -0,0 +1,30 @@
+import { OrgRole, Profile } from './supabase';
+
+export const ORG_ROLE_LABELS: Record<OrgRole, string> = {
+  owner: 'Pemilik',
+  admin: 'Admin',
+  staff: 'Staf',
+  accountant: 'Akuntan',
+};
+
+export const ORG_ROLE_DESCRIPTIONS: Record<OrgRole, string> = {
+  owner: 'Semua akses, termasuk mengelola anggota tim',
+  admin: 'Semua data usaha, armada dan pengaturan',
+  staff: 'Membuat dan mengubah order, pembayaran dan pelanggan',
+  accountant: 'Hanya melihat order dan laporan',
+};
+
+// Peran yang bisa diberikan lewat undangan
+export const INVITABLE_ROLES: Exclude<OrgRole, 'owner'>[] = ['admin', 'staff', 'accountant'];
+
+// Harus sama dengan policy RLS di migration create_organizations
+const hasRole = (profile: Profile | null, roles: OrgRole[]) =>
+  !!profile && roles.includes(profile.role);
+
+export const canWriteOrders = (profile: Profile | null) => hasRole(profile, ['owner', 'admin', 'staff']);
+
+export const canDeleteOrders = (profile: Profile | null) => hasRole(profile, ['owner', 'admin']);
+
+export const canManageBusiness = (profile: Profile | null) => hasRole(profile, ['owner', 'admin']);
+
+export const canManageMembers = (profile: Profile | null) => hasRole(profile, ['owner']);
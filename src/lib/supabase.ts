@@ -5,16 +5,65 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+// 'deposit' = dipotong dari jaminan tunai, hanya dibuat oleh settle_order_deposit
+export type PaymentMethod = 'cash' | 'transfer' | 'qris' | 'deposit';
+
+export type OrderStatus = 'booked' | 'picked_up' | 'returned' | 'closed' | 'cancelled';
+
 export type Order = {
   id: string;
+  invoice_number: string;
+  customer_id: string | null;
   customer_name: string;
   customer_phone: string;
   customer_address: string | null;
   order_date: string;
   rental_start_date: string;
   rental_end_date: string;
+  subtotal_amount: number;
+  discount_amount: number;
+  charge_amount: number;
+  tax_amount: number;
   total_amount: number;
+  paid_amount: number;
+  payment_status: PaymentStatus;
+  status: OrderStatus;
+  picked_up_at: string | null;
+  returned_at: string | null;
+  closed_at: string | null;
+  cancelled_at: string | null;
   notes: string | null;
+  verification_token: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type VehicleCategory = 'mpv' | 'suv' | 'sedan' | 'hatchback' | 'minibus' | 'pickup' | 'lainnya';
+
+export type Vehicle = {
+  id: string;
+  plate_number: string;
+  make: string;
+  model: string;
+  category: VehicleCategory;
+  year: number | null;
+  color: string | null;
+  daily_rate: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Driver = {
+  id: string;
+  name: string;
+  phone: string;
+  license_number: string;
+  license_expiry: string | null;
+  daily_fee: number;
+  is_active: boolean;
   created_at: string;
   updated_at: string;
 };
@@ -22,6 +71,9 @@ export type Order = {
 export type OrderItem = {
   id: string;
   order_id: string;
+  vehicle_id: string | null;
+  driver_id: string | null;
+  driver_daily_fee: number | null;
   car_type: string;
   quantity: number;
   daily_rate: number;
@@ -30,6 +82,259 @@ export type OrderItem = {
   created_at: string;
 };
 
+export type Payment = {
+  id: string;
+  order_id: string;
+  amount: number;
+  paid_at: string;
+  method: PaymentMethod;
+  reference: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+export type AdjustmentKind = 'discount' | 'charge' | 'tax';
+
+export type AdjustmentCalculation = 'percent' | 'fixed';
+
+export type ChargeType = 'driver' | 'fuel' | 'delivery' | 'pickup' | 'out_of_town' | 'late_return' | 'damage' | 'other';
+
+// 'return' = dibuat otomatis saat pengembalian dicatat, 'deposit' = saat jaminan dipotong
+export type AdjustmentSource = 'manual' | 'return' | 'deposit';
+
+export type OrderAdjustment = {
+  id: string;
+  order_id: string;
+  order_item_id: string | null;
+  kind: AdjustmentKind;
+  charge_type: ChargeType | null;
+  label: string;
+  calculation: AdjustmentCalculation;
+  value: number;
+  sort_order: number;
+  source: AdjustmentSource;
+  created_at: string;
+};
+
+export type DepositType = 'cash' | 'motorcycle' | 'id_card' | 'other';
+
+export type DepositStatus = 'held' | 'returned' | 'withheld';
+
+export type DepositWithheldFor = 'damage' | 'late_fee' | 'other';
+
+export type OrderDeposit = {
+  id: string;
+  order_id: string;
+  deposit_type: DepositType;
+  amount: number | null;
+  description: string | null;
+  received_date: string;
+  status: DepositStatus;
+  settled_date: string | null;
+  withheld_amount: number | null;
+  withheld_reason: string | null;
+  withheld_for: DepositWithheldFor | null;
+  payment_id: string | null;
+  adjustment_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type InvoiceEmailStatus = 'pending' | 'sent' | 'failed';
+
+export type InvoiceEmail = {
+  id: string;
+  order_id: string;
+  recipient: string;
+  subject: string;
+  status: InvoiceEmailStatus;
+  error: string | null;
+  created_at: string;
+  sent_at: string | null;
+};
+
+export type InspectionKind = 'pickup' | 'return';
+
+export type VehicleInspection = {
+  id: string;
+  order_id: string;
+  order_item_id: string;
+  kind: InspectionKind;
+  odometer: number;
+  fuel_level: number;
+  equipment: Record<string, boolean>;
+  damage_notes: string | null;
+  photo_paths: string[];
+  customer_signer_name: string;
+  customer_signature: string;
+  staff_signer_name: string;
+  staff_signature: string;
+  inspected_at: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Customer = {
+  id: string;
+  phone_normalized: string;
+  name: string;
+  phone: string;
+  address: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CustomerSummary = Omit<Customer, 'updated_at'> & {
+  order_count: number;
+  total_spend: number;
+  outstanding_amount: number;
+  last_order_date: string | null;
+};
+
 export type OrderWithItems = Order & {
   order_items: OrderItem[];
 };
+
+export type VehicleConflict = {
+  order_id: string;
+  vehicle_id: string;
+  car_type: string;
+  customer_name: string;
+  rental_start_date: string;
+  rental_end_date: string;
+};
+
+export type DriverConflict = {
+  order_id: string;
+  driver_id: string;
+  driver_name: string;
+  car_type: string;
+  customer_name: string;
+  rental_start_date: string;
+  rental_end_date: string;
+};
+
+export type DriverPayoutRow = {
+  driver_id: string;
+  driver_name: string;
+  trip_count: number;
+  total_days: number;
+  payout: number;
+};
+
+export type MonthlyReportRow = {
+  month: number;
+  order_count: number;
+  total_revenue: number;
+  rental_revenue: number;
+  discount_amount: number;
+  charge_amount: number;
+  late_fee_amount: number;
+  tax_amount: number;
+};
+
+export type YearlyReportRow = {
+  year: number;
+  order_count: number;
+  total_revenue: number;
+};
+
+export type ReportBreakdownRow = {
+  group_key: string;
+  label: string | null;
+  category?: VehicleCategory | null;
+  revenue: number;
+  rental_days: number;
+  unit_days: number;
+  order_ids: string[];
+};
+
+export type LateFeeUnit = 'hour' | 'day';
+
+export type WhatsAppTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+export type BusinessSettings = {
+  company_name: string;
+  address: string;
+  phone: string;
+  email: string;
+  website: string;
+  bank_name: string;
+  bank_account_number: string;
+  bank_account_name: string;
+  logo_url: string | null;
+  payment_terms_days: number;
+  invoice_footer: string | null;
+  invoice_number_format: string;
+  return_time: string;
+  late_grace_hours: number;
+  late_fee_unit: LateFeeUnit;
+  late_fee_multiplier: number;
+  early_return_refund_percent: number;
+  whatsapp_templates: WhatsAppTemplate[];
+};
+
+export type InvoiceVerification = Pick<
+  Order,
+  | 'invoice_number'
+  | 'customer_name'
+  | 'order_date'
+  | 'rental_start_date'
+  | 'rental_end_date'
+  | 'total_amount'
+  | 'paid_amount'
+  | 'payment_status'
+  | 'status'
+> & {
+  company_name: string;
+};
+
+export type OrgRole = 'owner' | 'admin' | 'staff' | 'accountant';
+
+export type Profile = {
+  id: string;
+  email: string;
+  full_name: string | null;
+  organization_id: string;
+  role: OrgRole;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Organization = {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type OrganizationInvitation = {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: Exclude<OrgRole, 'owner'>;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+};
+
+export type AuditTable = 'orders' | 'order_items' | 'order_adjustments' | 'payments' | 'order_deposits';
+
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+export type AuditLogEntry = {
+  id: number;
+  order_id: string;
+  table_name: AuditTable;
+  record_id: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_email: string | null;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  created_at: string;
+};
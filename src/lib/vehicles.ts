@@ -0,0 +1,18 @@
+import { Vehicle, VehicleCategory } from './supabase';
+
+export const VEHICLE_CATEGORIES: { value: VehicleCategory; label: string }[] = [
+  { value: 'mpv', label: 'MPV' },
+  { value: 'suv', label: 'SUV' },
+  { value: 'sedan', label: 'Sedan' },
+  { value: 'hatchback', label: 'Hatchback' },
+  { value: 'minibus', label: 'Minibus' },
+  { value: 'pickup', label: 'Pick-up' },
+  { value: 'lainnya', label: 'Lainnya' },
+];
+
+export const getCategoryLabel = (category: VehicleCategory) =>
+  VEHICLE_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+// Label yang disalin ke order_items.car_type saat kendaraan dipilih
+export const formatVehicleLabel = (vehicle: Pick<Vehicle, 'make' | 'model' | 'plate_number'>) =>
+  `${vehicle.make} ${vehicle.model} (${vehicle.plate_number})`;
@@ -0,0 +1,13 @@
+import { Order } from './supabase';
+
+const VERIFY_PARAM = 'verify';
+
+// Link publik yang dicetak sebagai QR code di invoice
+export const getVerificationUrl = (order: Pick<Order, 'verification_token'>) => {
+  const url = new URL(import.meta.env.BASE_URL, window.location.origin);
+  url.searchParams.set(VERIFY_PARAM, order.verification_token);
+  return url.toString();
+};
+
+export const readVerificationToken = () =>
+  new URLSearchParams(window.location.search).get(VERIFY_PARAM);
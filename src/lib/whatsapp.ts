@@ -0,0 +1,113 @@
+import { BusinessSettings, OrderWithItems, WhatsAppTemplate } from './supabase';
+import { PAYMENT_STATUS_LABELS, getOutstandingAmount } from './payments';
+import { getVerificationUrl } from './verification';
+import { normalizePhone } from './phone';
+
+// Dipakai selama organisasi belum menyimpan template sendiri
+export const DEFAULT_WHATSAPP_TEMPLATES: WhatsAppTemplate[] = [
+  {
+    id: 'booking_confirmation',
+    name: 'Konfirmasi Booking',
+    body: [
+      'Halo {nama_pelanggan},',
+      '',
+      'Terima kasih telah memesan di {nama_usaha}. Booking Anda sudah kami catat:',
+      'No. Invoice: {no_invoice}',
+      'Kendaraan: {kendaraan}',
+      'Periode: {tanggal_mulai} - {tanggal_selesai}',
+      'Total: {total}',
+      '',
+      'Pembayaran dapat ditransfer ke {bank} {no_rekening} a.n. {atas_nama}.',
+      'Cek invoice: {link_verifikasi}',
+    ].join('\n'),
+  },
+  {
+    id: 'payment_reminder',
+    name: 'Pengingat Pembayaran',
+    body: [
+      'Halo {nama_pelanggan},',
+      '',
+      'Kami mengingatkan tagihan sewa {no_invoice} masih tersisa {sisa_tagihan} dari total {total}.',
+      'Pembayaran dapat ditransfer ke {bank} {no_rekening} a.n. {atas_nama}.',
+      '',
+      'Terima kasih,',
+      '{nama_usaha}',
+    ].join('\n'),
+  },
+  {
+    id: 'pickup_reminder',
+    name: 'Pengingat Pengambilan',
+    body: [
+      'Halo {nama_pelanggan},',
+      '',
+      'Mengingatkan bahwa {kendaraan} siap diambil pada {tanggal_mulai}.',
+      'Mohon membawa KTP asli dan jaminan. Kendaraan dikembalikan {tanggal_selesai} paling lambat pukul {jam_kembali}.',
+      '',
+      'Alamat: {alamat_usaha}',
+      'Info: {telepon_usaha}',
+    ].join('\n'),
+  },
+  {
+    id: 'thank_you',
+    name: 'Terima Kasih',
+    body: [
+      'Halo {nama_pelanggan},',
+      '',
+      'Terima kasih telah menyewa kendaraan di {nama_usaha}. Semoga perjalanan Anda menyenangkan.',
+      'Kami tunggu pesanan berikutnya!',
+    ].join('\n'),
+  },
+];
+
+export const getWhatsAppTemplates = (settings: BusinessSettings) =>
+  settings.whatsapp_templates.length > 0 ? settings.whatsapp_templates : DEFAULT_WHATSAPP_TEMPLATES;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'long', year: 'numeric' });
+
+export const WHATSAPP_PLACEHOLDERS: {
+  key: string;
+  label: string;
+  value: (order: OrderWithItems, settings: BusinessSettings) => string;
+}[] = [
+  { key: 'nama_pelanggan', label: 'Nama pelanggan', value: order => order.customer_name },
+  { key: 'telepon_pelanggan', label: 'Telepon pelanggan', value: order => order.customer_phone },
+  { key: 'alamat_pelanggan', label: 'Alamat pelanggan', value: order => order.customer_address ?? '' },
+  { key: 'no_invoice', label: 'No. invoice', value: order => order.invoice_number },
+  { key: 'tanggal_order', label: 'Tanggal order', value: order => formatDate(order.order_date) },
+  { key: 'tanggal_mulai', label: 'Mulai sewa', value: order => formatDate(order.rental_start_date) },
+  { key: 'tanggal_selesai', label: 'Selesai sewa', value: order => formatDate(order.rental_end_date) },
+  {
+    key: 'kendaraan',
+    label: 'Daftar kendaraan',
+    value: order => order.order_items
+      .map(item => item.quantity > 1 ? `${item.car_type} (${item.quantity} unit)` : item.car_type)
+      .join(', '),
+  },
+  { key: 'total', label: 'Total tagihan', value: order => formatCurrency(order.total_amount) },
+  { key: 'dibayar', label: 'Sudah dibayar', value: order => formatCurrency(order.paid_amount) },
+  { key: 'sisa_tagihan', label: 'Sisa tagihan', value: order => formatCurrency(getOutstandingAmount(order)) },
+  { key: 'status_pembayaran', label: 'Status pembayaran', value: order => PAYMENT_STATUS_LABELS[order.payment_status] },
+  { key: 'link_verifikasi', label: 'Link cek invoice', value: order => getVerificationUrl(order) },
+  { key: 'jam_kembali', label: 'Batas jam kembali', value: (_order, settings) => settings.return_time.slice(0, 5) },
+  { key: 'nama_usaha', label: 'Nama usaha', value: (_order, settings) => settings.company_name },
+  { key: 'telepon_usaha', label: 'Telepon usaha', value: (_order, settings) => settings.phone },
+  { key: 'alamat_usaha', label: 'Alamat usaha', value: (_order, settings) => settings.address },
+  { key: 'website', label: 'Website', value: (_order, settings) => settings.website },
+  { key: 'bank', label: 'Bank', value: (_order, settings) => settings.bank_name },
+  { key: 'no_rekening', label: 'No. rekening', value: (_order, settings) => settings.bank_account_number },
+  { key: 'atas_nama', label: 'Atas nama rekening', value: (_order, settings) => settings.bank_account_name },
+];
+
+// Placeholder yang tidak dikenal dibiarkan apa adanya supaya salah ketik terlihat
+export const renderWhatsAppMessage = (body: string, order: OrderWithItems, settings: BusinessSettings) =>
+  body.replace(/\{(\w+)\}/g, (match, key: string) => {
+    const placeholder = WHATSAPP_PLACEHOLDERS.find(p => p.key === key);
+    return placeholder ? placeholder.value(order, settings) : match;
+  });
+
+export const getWhatsAppUrl = (phone: string, message: string) =>
+  `https://wa.me/${normalizePhone(phone)}?text=${encodeURIComponent(message)}`;
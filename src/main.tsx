@@ -1,13 +1,30 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import InvoiceVerification from './components/InvoiceVerification';
 import { AuthProvider } from './contexts/AuthContext';
+import { readVerificationToken } from './lib/verification';
 import './index.css';
 
+// Link verifikasi dari QR code invoice dibuka tanpa login
+const verificationToken = readVerificationToken();
+
+// Service worker hanya di build produksi; di mode dev cache shell justru mengganggu HMR.
+// Didaftarkan langsung supaya kunjungan pertama yang singkat pun sempat menyimpan aset build.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  navigator.serviceWorker
+    .register(`${import.meta.env.BASE_URL}sw.js`)
+    .catch(error => console.error('Error registering service worker:', error));
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <AuthProvider>
-      <App />
-    </AuthProvider>
+    {verificationToken ? (
+      <InvoiceVerification token={verificationToken} />
+    ) : (
+      <AuthProvider>
+        <App />
+      </AuthProvider>
+    )}
   </StrictMode>
 );
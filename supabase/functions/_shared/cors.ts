@@ -0,0 +1,6 @@
+// Fungsi dipanggil langsung dari browser lewat supabase.functions.invoke
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
@@ -0,0 +1,142 @@
+// Kirim invoice PDF ke email pelanggan lewat SMTP dan catat hasilnya di invoice_emails.
+//
+// Lokal: `supabase start` sudah menjalankan Mailpit/Inbucket. Salin
+// supabase/functions/.env.example ke supabase/functions/.env, lalu
+// `supabase functions serve send-invoice-email`; email terlihat di http://localhost:54324.
+// Produksi: `supabase secrets set SMTP_HOST=... SMTP_PORT=... SMTP_USER=... SMTP_PASS=... SMTP_FROM=...`.
+// Log ditulis dengan service role; klien hanya bisa membaca invoice_emails.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import nodemailer from 'npm:nodemailer@6';
+import { corsHeaders } from '../_shared/cors.ts';
+
+type SendInvoiceEmailRequest = {
+  order_id: string;
+  to: string;
+  subject: string;
+  message: string;
+  file_name: string;
+  pdf_base64: string;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const smtpUser = Deno.env.get('SMTP_USER');
+
+const transporter = nodemailer.createTransport({
+  host: Deno.env.get('SMTP_HOST') ?? 'localhost',
+  port: Number(Deno.env.get('SMTP_PORT') ?? 1025),
+  secure: Deno.env.get('SMTP_SECURE') === 'true',
+  // Mailpit/Inbucket lokal tidak memakai login
+  auth: smtpUser ? { user: smtpUser, pass: Deno.env.get('SMTP_PASS') ?? '' } : undefined,
+});
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  // Token pengguna diteruskan supaya RLS organisasi tetap berlaku untuk pengecekan akses
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  // Hanya untuk menulis log, setelah pemanggil lolos pengecekan
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return json({ error: 'Sesi login tidak valid' }, 401);
+  }
+
+  let payload: SendInvoiceEmailRequest;
+  try {
+    payload = await req.json();
+  } catch {
+    return json({ error: 'Body harus berupa JSON' }, 400);
+  }
+
+  const { order_id, to, subject, message, file_name, pdf_base64 } = payload;
+  if (!order_id || !to || !subject || !pdf_base64) {
+    return json({ error: 'order_id, to, subject dan pdf_base64 wajib diisi' }, 400);
+  }
+  if (!EMAIL_PATTERN.test(to)) {
+    return json({ error: 'Alamat email tidak valid' }, 400);
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('organization_id, role')
+    .eq('id', user.id)
+    .maybeSingle();
+  if (profileError) return json({ error: profileError.message }, 500);
+  if (!profile || !['owner', 'admin', 'staff'].includes(profile.role)) {
+    return json({ error: 'Anda tidak memiliki akses untuk mengirim invoice' }, 403);
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, invoice_number, organization_id')
+    .eq('id', order_id)
+    .maybeSingle();
+  if (orderError) return json({ error: orderError.message }, 500);
+  if (!order || order.organization_id !== profile.organization_id) {
+    return json({ error: 'Order tidak ditemukan' }, 404);
+  }
+
+  const { data: settings } = await supabase
+    .from('business_settings')
+    .select('company_name, email')
+    .maybeSingle();
+
+  // Dicatat sebelum mengirim, supaya pengiriman yang terputus tetap terlihat
+  const { data: log, error: logError } = await admin
+    .from('invoice_emails')
+    .insert({ order_id, recipient: to, subject, user_id: user.id })
+    .select('id')
+    .single();
+  if (logError) return json({ error: logError.message }, 500);
+
+  try {
+    await transporter.sendMail({
+      from: {
+        name: settings?.company_name ?? 'Laju Tuju',
+        address: Deno.env.get('SMTP_FROM') ?? 'invoice@lajutuju.com',
+      },
+      replyTo: settings?.email ?? undefined,
+      to,
+      subject,
+      text: message,
+      attachments: [
+        {
+          filename: file_name || `Invoice-${order.invoice_number}.pdf`,
+          content: pdf_base64,
+          encoding: 'base64',
+          contentType: 'application/pdf',
+        },
+      ],
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error('Error sending invoice email:', reason);
+    await admin
+      .from('invoice_emails')
+      .update({ status: 'failed', error: reason })
+      .eq('id', log.id);
+    return json({ id: log.id, status: 'failed', error: reason }, 502);
+  }
+
+  await admin
+    .from('invoice_emails')
+    .update({ status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', log.id);
+
+  return json({ id: log.id, status: 'sent' });
+});
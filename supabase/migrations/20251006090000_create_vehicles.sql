@@ -0,0 +1,102 @@
+/*
+  # Vehicle Fleet Catalog
+
+  1. New Tables
+    - `vehicles`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users) - Pemilik data armada
+      - `plate_number` (text, required) - Nomor polisi, unik per user
+      - `make` (text, required) - Merek, misal Toyota
+      - `model` (text, required) - Model, misal Avanza
+      - `category` (text, required) - Kategori: mpv, suv, sedan, hatchback, minibus, pickup, lainnya
+      - `year` (integer, optional) - Tahun pembuatan
+      - `color` (text, optional) - Warna
+      - `daily_rate` (numeric, default 0) - Harga sewa default per hari
+      - `is_active` (boolean, default true) - Tersedia untuk order baru
+      - `created_at` (timestamptz, default now)
+      - `updated_at` (timestamptz, default now)
+
+  2. Changes
+    - `order_items.vehicle_id` (uuid, optional, foreign key to vehicles)
+      - `car_type` is kept as a snapshot label so old invoices keep printing
+        the same text even if the vehicle is renamed or removed
+
+  3. Security
+    - Enable RLS on `vehicles`
+    - Users can only view and manage their own vehicles
+
+  4. Important Notes
+    - Plate numbers are stored upper-cased without extra spaces
+    - Deleting a vehicle keeps historical order items (vehicle_id set to null)
+*/
+
+-- Create vehicles table
+CREATE TABLE IF NOT EXISTS vehicles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plate_number text NOT NULL,
+  make text NOT NULL,
+  model text NOT NULL,
+  category text NOT NULL DEFAULT 'mpv'
+    CHECK (category IN ('mpv', 'suv', 'sedan', 'hatchback', 'minibus', 'pickup', 'lainnya')),
+  year integer CHECK (year BETWEEN 1950 AND 2100),
+  color text,
+  daily_rate numeric(12, 2) NOT NULL DEFAULT 0 CHECK (daily_rate >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, plate_number)
+);
+
+-- Link order items to the fleet
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS vehicle_id uuid REFERENCES vehicles(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_vehicles_user_id ON vehicles(user_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_vehicle_id ON order_items(vehicle_id);
+
+-- Enable Row Level Security
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+
+-- Vehicles policies
+CREATE POLICY "Users can view own vehicles"
+  ON vehicles FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own vehicles"
+  ON vehicles FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own vehicles"
+  ON vehicles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own vehicles"
+  ON vehicles FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Normalise plate numbers so "ab 1234 cd" and "AB  1234 CD" are the same car
+CREATE OR REPLACE FUNCTION normalize_vehicle_plate()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.plate_number = upper(regexp_replace(trim(NEW.plate_number), '\s+', ' ', 'g'));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_vehicles_plate_number
+  BEFORE INSERT OR UPDATE OF plate_number ON vehicles
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_vehicle_plate();
+
+-- Trigger to automatically update updated_at on vehicles
+CREATE TRIGGER update_vehicles_updated_at
+  BEFORE UPDATE ON vehicles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,102 @@
+/*
+  # Prevent Vehicle Double Booking
+
+  1. Changes
+    - `order_items.rental_period` (daterange) - Salinan periode sewa dari order induk
+      - Selalu diisi oleh trigger, tidak perlu dikirim dari client
+      - Ikut diperbarui saat tanggal sewa di `orders` diubah
+
+  2. Constraints
+    - `order_items_no_vehicle_overlap` exclusion constraint: satu kendaraan tidak
+      boleh muncul di dua item dengan periode sewa yang beririsan. Karena dicek
+      oleh database, dua staf yang menyimpan bersamaan tidak bisa sama-sama lolos.
+
+  3. New Functions
+    - `find_vehicle_conflicts(vehicle_ids, start_date, end_date, exclude_order_id)`
+      - Mengembalikan order lain yang sudah memakai kendaraan tsb di periode itu
+      - Dipakai form order untuk menampilkan daftar bentrok sebelum menyimpan
+      - SECURITY INVOKER, jadi tetap mengikuti RLS pemilik order
+
+  4. Important Notes
+    - Periode bersifat inklusif: sewa 1-3 Okt dan 3-5 Okt dianggap bentrok
+    - Item lama tanpa `vehicle_id` tidak ikut dicek
+    - Jika data lama sudah ada yang bentrok, constraint gagal dibuat; rapikan
+      dulu order yang bentrok lalu jalankan ulang migrasi ini
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Denormalised rental period so the constraint can live on order_items
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS rental_period daterange;
+
+UPDATE order_items
+SET rental_period = daterange(orders.rental_start_date, orders.rental_end_date, '[]')
+FROM orders
+WHERE orders.id = order_items.order_id;
+
+ALTER TABLE order_items
+  ALTER COLUMN rental_period SET NOT NULL;
+
+-- Copy the parent order's period onto each item
+CREATE OR REPLACE FUNCTION set_order_item_rental_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT daterange(rental_start_date, rental_end_date, '[]')
+  INTO NEW.rental_period
+  FROM orders
+  WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_order_items_rental_period
+  BEFORE INSERT OR UPDATE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_rental_period();
+
+-- Keep items in sync when the order's dates change
+CREATE OR REPLACE FUNCTION sync_order_items_rental_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE order_items
+  SET rental_period = daterange(NEW.rental_start_date, NEW.rental_end_date, '[]')
+  WHERE order_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_orders_rental_period
+  AFTER UPDATE OF rental_start_date, rental_end_date ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_items_rental_period();
+
+-- Database-level guard against double booking
+ALTER TABLE order_items
+  ADD CONSTRAINT order_items_no_vehicle_overlap
+  EXCLUDE USING gist (vehicle_id WITH =, rental_period WITH &&)
+  WHERE (vehicle_id IS NOT NULL);
+
+-- Conflict lookup used by the order form
+CREATE OR REPLACE FUNCTION find_vehicle_conflicts(
+  p_vehicle_ids uuid[],
+  p_start_date date,
+  p_end_date date,
+  p_exclude_order_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id uuid,
+  vehicle_id uuid,
+  car_type text,
+  customer_name text,
+  rental_start_date date,
+  rental_end_date date
+) AS $$
+  SELECT o.id, oi.vehicle_id, oi.car_type, o.customer_name, o.rental_start_date, o.rental_end_date
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.vehicle_id = ANY (p_vehicle_ids)
+    AND oi.rental_period && daterange(p_start_date, p_end_date, '[]')
+    AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+  ORDER BY o.rental_start_date;
+$$ LANGUAGE sql STABLE;
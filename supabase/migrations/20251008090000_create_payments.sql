@@ -0,0 +1,166 @@
+/*
+  # Payment Tracking
+
+  1. New Tables
+    - `payments`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders) - Order yang dibayar
+      - `user_id` (uuid, foreign key to auth.users) - User yang mencatat pembayaran
+      - `amount` (numeric, required, > 0) - Nominal pembayaran
+      - `paid_at` (date, default today) - Tanggal pembayaran diterima
+      - `method` (text, required) - cash, transfer, atau qris
+      - `reference` (text, optional) - No. referensi transfer / QRIS
+      - `note` (text, optional) - Catatan, misal "DP 50%"
+      - `created_at` (timestamptz, default now)
+
+  2. Changes
+    - `orders.paid_amount` (numeric, default 0) - Total yang sudah dibayar, diisi trigger
+    - `orders.payment_status` (text, generated)
+      - `unpaid`  - belum ada pembayaran (Belum Bayar)
+      - `partial` - sudah bayar sebagian (DP)
+      - `paid`    - sudah lunas (Lunas)
+
+  3. Security
+    - Enable RLS on `payments`
+    - Users can only view and manage payments of their own orders
+
+  4. Important Notes
+    - `paid_amount` is recalculated on every insert, update and delete of payments,
+      so the list and the invoice never need to sum payments client-side
+    - `paid_amount` is also recomputed on every order insert and update, so a value
+      sent by the client can never mark an order as paid without a payment
+    - `payment_status` is a stored column so it can be filtered and indexed
+*/
+
+-- Create payments table
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount numeric(12, 2) NOT NULL CHECK (amount > 0),
+  paid_at date NOT NULL DEFAULT CURRENT_DATE,
+  method text NOT NULL CHECK (method IN ('cash', 'transfer', 'qris')),
+  reference text,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Paid-to-date and derived status on orders
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS paid_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payment_status text GENERATED ALWAYS AS (
+    CASE
+      WHEN paid_amount <= 0 THEN 'unpaid'
+      WHEN paid_amount < total_amount THEN 'partial'
+      ELSE 'paid'
+    END
+  ) STORED;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON orders(payment_status);
+
+-- Enable Row Level Security
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments policies
+CREATE POLICY "Users can view own payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create own payments"
+  ON payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own payments"
+  ON payments FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own payments"
+  ON payments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Function to keep orders.paid_amount in sync with payments
+CREATE OR REPLACE FUNCTION update_order_paid_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_order_id uuid;
+BEGIN
+  FOREACH target_order_id IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.order_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.order_id END
+  ]
+  LOOP
+    IF target_order_id IS NOT NULL THEN
+      UPDATE orders
+      SET paid_amount = COALESCE(
+        (SELECT SUM(amount) FROM payments WHERE order_id = target_order_id),
+        0
+      )
+      WHERE id = target_order_id;
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to recalculate paid amount after any payment change
+CREATE TRIGGER update_orders_paid_amount
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_order_paid_amount();
+
+-- Paid amount can only ever be the sum of payments; values sent by the client are ignored
+CREATE OR REPLACE FUNCTION set_order_paid_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.paid_amount = COALESCE(
+    (SELECT SUM(amount) FROM payments WHERE order_id = NEW.id),
+    0
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_orders_paid_amount
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_paid_amount();
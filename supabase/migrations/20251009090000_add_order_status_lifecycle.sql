@@ -0,0 +1,161 @@
+/*
+  # Order Lifecycle Status
+
+  1. Changes
+    - `orders.status` (text, default 'booked')
+      - `booked`    - Dibooking, mobil belum diambil
+      - `picked_up` - Mobil sedang dibawa pelanggan
+      - `returned`  - Mobil sudah kembali, order belum ditutup
+      - `closed`    - Selesai
+      - `cancelled` - Dibatalkan
+    - `orders.picked_up_at`, `returned_at`, `closed_at`, `cancelled_at` (timestamptz)
+      - Diisi otomatis saat status berpindah
+    - `order_items.booking_active` (boolean) - false bila order dibatalkan
+
+  2. Allowed Transitions
+    - booked    -> picked_up, cancelled
+    - picked_up -> returned
+    - returned  -> closed
+    - closed and cancelled are final
+
+  3. Important Notes
+    - Transitions are enforced by a trigger, so the rule holds for every client
+    - Status timestamps are always stamped by the server with now(); values sent
+      by the client are ignored and they cannot be edited without a transition
+    - New orders always start as `booked`
+    - Cancelled orders no longer block their vehicles: the double-booking
+      constraint and `find_vehicle_conflicts` only look at active bookings
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'booked'
+    CHECK (status IN ('booked', 'picked_up', 'returned', 'closed', 'cancelled')),
+  ADD COLUMN IF NOT EXISTS picked_up_at timestamptz,
+  ADD COLUMN IF NOT EXISTS returned_at timestamptz,
+  ADD COLUMN IF NOT EXISTS closed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+
+-- Validate status transitions and stamp the time of each one
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'booked' THEN
+      RAISE EXCEPTION 'Order baru harus berstatus booked, bukan %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.picked_up_at = NULL;
+    NEW.returned_at = NULL;
+    NEW.closed_at = NULL;
+    NEW.cancelled_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at
+      OR NEW.returned_at IS DISTINCT FROM OLD.returned_at
+      OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+      OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    THEN
+      RAISE EXCEPTION 'Waktu status order hanya bisa diisi saat status berpindah'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'booked' AND NEW.status IN ('picked_up', 'cancelled'))
+    OR (OLD.status = 'picked_up' AND NEW.status = 'returned')
+    OR (OLD.status = 'returned' AND NEW.status = 'closed')
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Earlier stamps stay as they were; the new one always comes from the server clock
+  NEW.picked_up_at = OLD.picked_up_at;
+  NEW.returned_at = OLD.returned_at;
+  NEW.closed_at = OLD.closed_at;
+  NEW.cancelled_at = OLD.cancelled_at;
+
+  CASE NEW.status
+    WHEN 'picked_up' THEN NEW.picked_up_at = now();
+    WHEN 'returned' THEN NEW.returned_at = now();
+    WHEN 'closed' THEN NEW.closed_at = now();
+    WHEN 'cancelled' THEN NEW.cancelled_at = now();
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_orders_status_transition
+  BEFORE INSERT OR UPDATE OF status, picked_up_at, returned_at, closed_at, cancelled_at ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
+
+-- Cancelled orders release their vehicles
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS booking_active boolean NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION set_order_item_rental_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT daterange(rental_start_date, rental_end_date, '[]'), status <> 'cancelled'
+  INTO NEW.rental_period, NEW.booking_active
+  FROM orders
+  WHERE id = NEW.order_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION sync_order_items_rental_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE order_items
+  SET rental_period = daterange(NEW.rental_start_date, NEW.rental_end_date, '[]'),
+      booking_active = NEW.status <> 'cancelled'
+  WHERE order_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_orders_rental_period ON orders;
+CREATE TRIGGER sync_orders_rental_period
+  AFTER UPDATE OF rental_start_date, rental_end_date, status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_order_items_rental_period();
+
+ALTER TABLE order_items
+  DROP CONSTRAINT IF EXISTS order_items_no_vehicle_overlap;
+
+ALTER TABLE order_items
+  ADD CONSTRAINT order_items_no_vehicle_overlap
+  EXCLUDE USING gist (vehicle_id WITH =, rental_period WITH &&)
+  WHERE (vehicle_id IS NOT NULL AND booking_active);
+
+CREATE OR REPLACE FUNCTION find_vehicle_conflicts(
+  p_vehicle_ids uuid[],
+  p_start_date date,
+  p_end_date date,
+  p_exclude_order_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id uuid,
+  vehicle_id uuid,
+  car_type text,
+  customer_name text,
+  rental_start_date date,
+  rental_end_date date
+) AS $$
+  SELECT o.id, oi.vehicle_id, oi.car_type, o.customer_name, o.rental_start_date, o.rental_end_date
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE oi.vehicle_id = ANY (p_vehicle_ids)
+    AND oi.booking_active
+    AND oi.rental_period && daterange(p_start_date, p_end_date, '[]')
+    AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+  ORDER BY o.rental_start_date;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,178 @@
+/*
+  # Sequential Invoice Numbers
+
+  1. New Tables
+    - `business_settings`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `invoice_number_format` (text) - Format nomor invoice, default `LT/{YYYY}/{MM}/{SEQ:4}`
+      - `created_at` (timestamptz, default now)
+      - `updated_at` (timestamptz, default now)
+
+    - `invoice_counters`
+      - `user_id` (uuid, references auth.users)
+      - `scope` (text) - Nomor invoice tanpa bagian urutan, misal `LT/2026/10/#`
+      - `last_value` (integer) - Nomor urut terakhir yang dipakai di scope tsb
+
+  2. Changes
+    - `orders.invoice_number` (text, required, unique per user)
+      - Diberikan database saat order dibuat
+      - Tidak berubah saat order diedit
+
+  3. Format Tokens
+    - `{YYYY}` tahun 4 digit, `{YY}` tahun 2 digit, `{MM}` bulan, `{DD}` tanggal
+    - `{SEQ}` nomor urut apa adanya, `{SEQ:n}` nomor urut dengan n digit (diisi nol)
+    - Nomor urut diulang dari 1 setiap kali bagian selain urutan berubah,
+      jadi `LT/{YYYY}/{MM}/{SEQ:4}` mulai dari 0001 setiap bulan
+
+  4. Security
+    - Enable RLS on both tables
+    - Users can view and manage their own business settings
+    - Counters are only touched by the SECURITY DEFINER numbering trigger
+
+  5. Important Notes
+    - The counter row is locked by the upsert, so concurrent inserts wait for
+      each other instead of taking the same number
+    - A failed insert rolls the counter back with it, so numbers stay gap-free
+    - Dates are taken from `order_date` in Asia/Jakarta time
+    - Existing orders are numbered in `order_date` order
+*/
+
+-- Create business_settings table
+CREATE TABLE IF NOT EXISTS business_settings (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_number_format text NOT NULL DEFAULT 'LT/{YYYY}/{MM}/{SEQ:4}'
+    CHECK (invoice_number_format LIKE '%{SEQ%'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create invoice_counters table
+CREATE TABLE IF NOT EXISTS invoice_counters (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  scope text NOT NULL,
+  last_value integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, scope)
+);
+
+-- Enable Row Level Security
+ALTER TABLE business_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Business settings policies
+CREATE POLICY "Users can view own business settings"
+  ON business_settings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own business settings"
+  ON business_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own business settings"
+  ON business_settings FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Trigger to automatically update updated_at on business_settings
+CREATE TRIGGER update_business_settings_updated_at
+  BEFORE UPDATE ON business_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Render an invoice number format for a date; seq NULL renders the scope key
+CREATE OR REPLACE FUNCTION format_invoice_number(p_format text, p_date date, p_seq integer)
+RETURNS text AS $$
+DECLARE
+  result text := p_format;
+  width integer;
+BEGIN
+  result := replace(result, '{YYYY}', to_char(p_date, 'YYYY'));
+  result := replace(result, '{YY}', to_char(p_date, 'YY'));
+  result := replace(result, '{MM}', to_char(p_date, 'MM'));
+  result := replace(result, '{DD}', to_char(p_date, 'DD'));
+
+  IF p_seq IS NULL THEN
+    RETURN regexp_replace(result, '\{SEQ(:\d+)?\}', '#', 'g');
+  END IF;
+
+  width := COALESCE((regexp_match(result, '\{SEQ:(\d+)\}'))[1]::integer, 0);
+  RETURN regexp_replace(result, '\{SEQ(:\d+)?\}', lpad(p_seq::text, GREATEST(width, length(p_seq::text)), '0'), 'g');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Take the next number for a user; must run inside the inserting transaction.
+-- Not callable from the API, otherwise a client could burn numbers and leave gaps.
+CREATE OR REPLACE FUNCTION next_invoice_number(p_user_id uuid, p_order_date timestamptz)
+RETURNS text AS $$
+DECLARE
+  number_format text;
+  order_day date := (COALESCE(p_order_date, now()) AT TIME ZONE 'Asia/Jakarta')::date;
+  counter_scope text;
+  seq integer;
+BEGIN
+  SELECT invoice_number_format INTO number_format
+  FROM business_settings
+  WHERE user_id = p_user_id;
+
+  number_format := COALESCE(number_format, 'LT/{YYYY}/{MM}/{SEQ:4}');
+  counter_scope := format_invoice_number(number_format, order_day, NULL);
+
+  INSERT INTO invoice_counters (user_id, scope, last_value)
+  VALUES (p_user_id, counter_scope, 1)
+  ON CONFLICT (user_id, scope)
+  DO UPDATE SET last_value = invoice_counters.last_value + 1
+  RETURNING last_value INTO seq;
+
+  RETURN format_invoice_number(number_format, order_day, seq);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION next_invoice_number(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Invoice number column
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS invoice_number text;
+
+-- Number existing orders in chronological order
+DO $$
+DECLARE
+  existing record;
+BEGIN
+  FOR existing IN
+    SELECT id, user_id, order_date
+    FROM orders
+    WHERE invoice_number IS NULL
+    ORDER BY order_date, created_at
+  LOOP
+    UPDATE orders
+    SET invoice_number = next_invoice_number(existing.user_id, existing.order_date)
+    WHERE id = existing.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE orders
+  ALTER COLUMN invoice_number SET NOT NULL;
+
+ALTER TABLE orders
+  ADD CONSTRAINT orders_user_invoice_number_key UNIQUE (user_id, invoice_number);
+
+-- Assign on insert, keep stable on update
+CREATE OR REPLACE FUNCTION assign_order_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.invoice_number = next_invoice_number(NEW.user_id, NEW.order_date);
+  ELSE
+    NEW.invoice_number = OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_orders_invoice_number
+  BEFORE INSERT OR UPDATE OF invoice_number ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_order_invoice_number();
@@ -0,0 +1,169 @@
+/*
+  # Customer Directory
+
+  1. New Tables
+    - `customers`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to auth.users) - Pemilik data pelanggan
+      - `phone_normalized` (text, required) - Nomor HP format 62xxx, unik per user
+      - `name` (text, required) - Nama terakhir yang dipakai di order
+      - `phone` (text, required) - Nomor HP seperti yang diketik
+      - `address` (text, optional) - Alamat terakhir
+      - `created_at` (timestamptz, default now)
+      - `updated_at` (timestamptz, default now)
+
+  2. Changes
+    - `orders.customer_id` (uuid, optional, foreign key to customers)
+      - Diisi otomatis dari nomor HP setiap order disimpan
+      - Nama, telepon dan alamat di `orders` tetap disimpan sebagai snapshot invoice
+
+  3. New Views
+    - `customer_summaries` - Pelanggan beserta jumlah order, total belanja,
+      sisa tagihan dan tanggal order terakhir (order dibatalkan tidak dihitung)
+
+  4. New Functions
+    - `normalize_phone(text)` - 0812..., +62 812..., 812... semua menjadi 62812...
+
+  5. Security
+    - Enable RLS on `customers`
+    - Users can only view and manage their own customers
+    - `customer_summaries` uses security_invoker so RLS still applies
+
+  6. Important Notes
+    - Existing orders are grouped into customers by normalised phone number;
+      the most recent order's name and address win
+*/
+
+-- Normalise Indonesian phone numbers to the 62 format
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text AS $$
+DECLARE
+  digits text := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF digits = '' THEN
+    RETURN NULL;
+  ELSIF digits LIKE '62%' THEN
+    RETURN digits;
+  ELSIF digits LIKE '0%' THEN
+    RETURN '62' || substr(digits, 2);
+  ELSIF digits LIKE '8%' THEN
+    RETURN '62' || digits;
+  END IF;
+  RETURN digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Create customers table
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  phone_normalized text NOT NULL,
+  name text NOT NULL,
+  phone text NOT NULL,
+  address text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, phone_normalized)
+);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_customers_user_id ON customers(user_id);
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(name);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON orders(customer_id);
+
+-- Enable Row Level Security
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+-- Customers policies
+CREATE POLICY "Users can view own customers"
+  ON customers FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own customers"
+  ON customers FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own customers"
+  ON customers FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own customers"
+  ON customers FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Trigger to automatically update updated_at on customers
+CREATE TRIGGER update_customers_updated_at
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill customers from existing orders, latest details first
+INSERT INTO customers (user_id, phone_normalized, name, phone, address)
+SELECT DISTINCT ON (user_id, normalize_phone(customer_phone))
+  user_id, normalize_phone(customer_phone), customer_name, customer_phone, customer_address
+FROM orders
+WHERE normalize_phone(customer_phone) IS NOT NULL
+ORDER BY user_id, normalize_phone(customer_phone), order_date DESC
+ON CONFLICT (user_id, phone_normalized) DO NOTHING;
+
+UPDATE orders
+SET customer_id = customers.id
+FROM customers
+WHERE customers.user_id = orders.user_id
+  AND customers.phone_normalized = normalize_phone(orders.customer_phone)
+  AND orders.customer_id IS NULL;
+
+-- Link every saved order to a customer, creating or refreshing it
+CREATE OR REPLACE FUNCTION link_order_customer()
+RETURNS TRIGGER AS $$
+DECLARE
+  normalized text := normalize_phone(NEW.customer_phone);
+BEGIN
+  IF normalized IS NULL THEN
+    NEW.customer_id = NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO customers (user_id, phone_normalized, name, phone, address)
+  VALUES (NEW.user_id, normalized, NEW.customer_name, NEW.customer_phone, NEW.customer_address)
+  ON CONFLICT (user_id, phone_normalized)
+  DO UPDATE SET
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    address = COALESCE(EXCLUDED.address, customers.address)
+  RETURNING id INTO NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER link_orders_customer
+  BEFORE INSERT OR UPDATE OF customer_name, customer_phone, customer_address ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION link_order_customer();
+
+-- Per-customer totals for the directory and detail page
+CREATE OR REPLACE VIEW customer_summaries
+WITH (security_invoker = true) AS
+SELECT
+  c.id,
+  c.phone_normalized,
+  c.name,
+  c.phone,
+  c.address,
+  c.created_at,
+  COUNT(o.id) FILTER (WHERE o.status <> 'cancelled') AS order_count,
+  COALESCE(SUM(o.total_amount) FILTER (WHERE o.status <> 'cancelled'), 0) AS total_spend,
+  COALESCE(SUM(GREATEST(o.total_amount - o.paid_amount, 0)) FILTER (WHERE o.status <> 'cancelled'), 0) AS outstanding_amount,
+  MAX(o.order_date) AS last_order_date
+FROM customers c
+LEFT JOIN orders o ON o.customer_id = c.id
+GROUP BY c.id;
@@ -0,0 +1,21 @@
+/*
+  # Order List Search Indexes
+
+  1. New Indexes
+    - Trigram indexes on `orders.customer_name`, `orders.customer_phone` and
+      `orders.invoice_number` for the free-text search (`ilike '%...%'`)
+    - `orders(rental_start_date, rental_end_date)` for the rental period filter
+    - `orders(user_id, order_date DESC)` for the paginated default listing
+
+  2. Important Notes
+    - The order list now loads one page at a time with items embedded in the
+      same request, so these indexes cover every filter it can send
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_orders_customer_name_trgm ON orders USING gin (customer_name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_orders_customer_phone_trgm ON orders USING gin (customer_phone gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_orders_invoice_number_trgm ON orders USING gin (invoice_number gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_orders_rental_period ON orders(rental_start_date, rental_end_date);
+CREATE INDEX IF NOT EXISTS idx_orders_user_order_date ON orders(user_id, order_date DESC);
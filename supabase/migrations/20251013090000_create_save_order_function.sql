@@ -0,0 +1,183 @@
+/*
+  # Transactional Order Save
+
+  1. New Functions
+    - `save_order(p_order_id, p_order, p_items)` - Simpan header order dan semua
+      item dalam satu transaksi
+      - `p_order_id` null untuk order baru, diisi untuk edit
+      - `p_order` jsonb: customer_name, customer_phone, customer_address,
+        rental_start_date, rental_end_date, notes
+      - `p_items` jsonb array: id (opsional, untuk item lama), vehicle_id,
+        car_type, quantity, daily_rate, days
+      - Mengembalikan id order
+    - `calculate_order_total(order_id)` - Jumlah subtotal semua item
+
+  2. Server-side Totals
+    - `order_items.subtotal` is always recomputed as quantity * daily_rate * days
+    - `orders.total_amount` is always recomputed from the items, on every
+      order update and after every item insert, update or delete
+    - Values sent by the client for these columns are ignored
+
+  3. Important Notes
+    - Existing items are updated in place by id, removed items are deleted and
+      new ones inserted, so item ids stay stable across edits
+    - The function is SECURITY INVOKER: RLS policies still decide what the
+      caller may write
+    - If any step fails (e.g. double booking) nothing is saved
+*/
+
+-- Subtotal is always derived from the item's own numbers
+CREATE OR REPLACE FUNCTION compute_order_item_subtotal()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.subtotal = COALESCE(NEW.quantity, 1) * NEW.daily_rate * NEW.days;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER compute_order_items_subtotal
+  BEFORE INSERT OR UPDATE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION compute_order_item_subtotal();
+
+CREATE OR REPLACE FUNCTION calculate_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(subtotal), 0)
+  FROM order_items
+  WHERE order_id = p_order_id;
+$$ LANGUAGE sql STABLE;
+
+-- Order total can only ever be the sum of its items
+CREATE OR REPLACE FUNCTION set_order_total_amount()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.total_amount = calculate_order_total(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_orders_total_amount
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_total_amount();
+
+CREATE OR REPLACE FUNCTION refresh_order_total_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_order_id uuid;
+BEGIN
+  FOREACH target_order_id IN ARRAY ARRAY[
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.order_id END,
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.order_id END
+  ]
+  LOOP
+    IF target_order_id IS NOT NULL THEN
+      UPDATE orders
+      SET total_amount = calculate_order_total(target_order_id)
+      WHERE id = target_order_id;
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_orders_total_amount
+  AFTER INSERT OR UPDATE OF quantity, daily_rate, days, order_id OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_order_total_amount();
+
+-- Bring existing data in line with the new rules
+UPDATE order_items SET subtotal = COALESCE(quantity, 1) * daily_rate * days;
+UPDATE orders SET total_amount = calculate_order_total(id);
+
+-- Save an order header and its items atomically
+CREATE OR REPLACE FUNCTION save_order(
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_order_id uuid;
+  item jsonb;
+  item_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order harus memiliki minimal satu item'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_order_id IS NULL THEN
+    INSERT INTO orders (
+      user_id, customer_name, customer_phone, customer_address,
+      rental_start_date, rental_end_date, notes
+    )
+    VALUES (
+      auth.uid(),
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_address', ''),
+      (p_order->>'rental_start_date')::date,
+      (p_order->>'rental_end_date')::date,
+      NULLIF(p_order->>'notes', '')
+    )
+    RETURNING id INTO saved_order_id;
+  ELSE
+    UPDATE orders
+    SET customer_name = p_order->>'customer_name',
+        customer_phone = p_order->>'customer_phone',
+        customer_address = NULLIF(p_order->>'customer_address', ''),
+        rental_start_date = (p_order->>'rental_start_date')::date,
+        rental_end_date = (p_order->>'rental_end_date')::date,
+        notes = NULLIF(p_order->>'notes', '')
+    WHERE id = p_order_id
+    RETURNING id INTO saved_order_id;
+
+    IF saved_order_id IS NULL THEN
+      RAISE EXCEPTION 'Order % tidak ditemukan', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer in the form first, so their vehicles are free
+  DELETE FROM order_items
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_items)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    item_id := NULLIF(item->>'id', '')::uuid;
+
+    IF item_id IS NOT NULL THEN
+      UPDATE order_items
+      SET vehicle_id = NULLIF(item->>'vehicle_id', '')::uuid,
+          car_type = item->>'car_type',
+          quantity = (item->>'quantity')::integer,
+          daily_rate = (item->>'daily_rate')::numeric,
+          days = (item->>'days')::integer
+      WHERE id = item_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (order_id, vehicle_id, car_type, quantity, daily_rate, days, subtotal)
+    VALUES (
+      saved_order_id,
+      NULLIF(item->>'vehicle_id', '')::uuid,
+      item->>'car_type',
+      (item->>'quantity')::integer,
+      (item->>'daily_rate')::numeric,
+      (item->>'days')::integer,
+      0
+    );
+  END LOOP;
+
+  RETURN saved_order_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,62 @@
+/*
+  # Business Profile Settings
+
+  1. Changes
+    - `business_settings` gains the company profile printed on invoices
+      - `company_name` (text) - Nama usaha
+      - `address` (text) - Alamat usaha
+      - `phone` (text) - Telepon usaha
+      - `email` (text) - Email usaha
+      - `website` (text) - Website usaha
+      - `bank_name` (text) - Nama bank untuk pembayaran
+      - `bank_account_number` (text) - Nomor rekening
+      - `bank_account_name` (text) - Atas nama rekening
+      - `logo_url` (text, optional) - URL publik logo di storage `branding`
+      - `payment_terms_days` (integer, default 0) - Jatuh tempo, hari setelah tanggal order
+      - `invoice_footer` (text, optional) - Teks penutup di bawah invoice
+    - Defaults match the values that used to be hardcoded in the invoice, so
+      invoices look the same until the settings are changed
+
+  2. Storage
+    - Public bucket `branding` for logos
+    - Users can only upload, replace and delete files inside their own
+      `<user_id>/` folder
+
+  3. Important Notes
+    - Settings rows are created on first save from the settings screen;
+      until then the app falls back to the same defaults
+*/
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS company_name text NOT NULL DEFAULT 'Laju Tuju',
+  ADD COLUMN IF NOT EXISTS address text NOT NULL DEFAULT 'Soka Asri Permai, Kadisoka, Purwomartani, Kalasan Sleman',
+  ADD COLUMN IF NOT EXISTS phone text NOT NULL DEFAULT '+62 821 3856 8822',
+  ADD COLUMN IF NOT EXISTS email text NOT NULL DEFAULT 'contact@lajutuju.com',
+  ADD COLUMN IF NOT EXISTS website text NOT NULL DEFAULT 'lajutuju.com',
+  ADD COLUMN IF NOT EXISTS bank_name text NOT NULL DEFAULT 'BCA',
+  ADD COLUMN IF NOT EXISTS bank_account_number text NOT NULL DEFAULT '4561059637',
+  ADD COLUMN IF NOT EXISTS bank_account_name text NOT NULL DEFAULT 'Moh Fajar Yogyaning Praharu',
+  ADD COLUMN IF NOT EXISTS logo_url text,
+  ADD COLUMN IF NOT EXISTS payment_terms_days integer NOT NULL DEFAULT 0 CHECK (payment_terms_days >= 0),
+  ADD COLUMN IF NOT EXISTS invoice_footer text;
+
+-- Storage bucket for logos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('branding', 'branding', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload own branding files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can update own branding files"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own branding files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'branding' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,74 @@
+/*
+  # Public Invoice Verification
+
+  1. Changes
+    - `orders.verification_token` (text, unique) - Token acak 32 karakter hex
+      yang dicetak sebagai QR code di invoice
+      - Generated automatically for new and existing orders
+
+  2. New Functions
+    - `verify_invoice(p_token)` - Ringkasan invoice untuk halaman verifikasi
+      publik: nomor invoice, nama usaha, pelanggan, periode sewa, total,
+      jumlah dibayar, status pembayaran dan status order
+      - SECURITY DEFINER, executable by `anon` and `authenticated`
+      - Returns no rows for an unknown token
+
+  3. Security
+    - Drop the "Anyone can ..." policies on `orders` and `order_items` left over
+      from the first schema; they let unauthenticated clients read and write
+      every order
+    - The public page never reads `orders` directly: it only gets the columns
+      returned by `verify_invoice`, for the one order matching the token
+
+  4. Important Notes
+    - Tokens are not derived from the invoice number or order id, so they
+      cannot be guessed from a printout of another invoice
+*/
+
+DROP POLICY IF EXISTS "Anyone can view orders" ON orders;
+DROP POLICY IF EXISTS "Anyone can insert orders" ON orders;
+DROP POLICY IF EXISTS "Anyone can update orders" ON orders;
+DROP POLICY IF EXISTS "Anyone can delete orders" ON orders;
+DROP POLICY IF EXISTS "Anyone can view order items" ON order_items;
+DROP POLICY IF EXISTS "Anyone can insert order items" ON order_items;
+DROP POLICY IF EXISTS "Anyone can update order items" ON order_items;
+DROP POLICY IF EXISTS "Anyone can delete order items" ON order_items;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS verification_token text NOT NULL
+    DEFAULT replace(gen_random_uuid()::text, '-', '');
+
+ALTER TABLE orders
+  ADD CONSTRAINT orders_verification_token_key UNIQUE (verification_token);
+
+CREATE OR REPLACE FUNCTION verify_invoice(p_token text)
+RETURNS TABLE (
+  invoice_number text,
+  company_name text,
+  customer_name text,
+  order_date timestamptz,
+  rental_start_date date,
+  rental_end_date date,
+  total_amount numeric,
+  paid_amount numeric,
+  payment_status text,
+  status text
+) AS $$
+  SELECT
+    o.invoice_number,
+    COALESCE(bs.company_name, 'Laju Tuju'),
+    o.customer_name,
+    o.order_date,
+    o.rental_start_date,
+    o.rental_end_date,
+    o.total_amount,
+    o.paid_amount,
+    o.payment_status,
+    o.status
+  FROM orders o
+  LEFT JOIN business_settings bs ON bs.user_id = o.user_id
+  WHERE o.verification_token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION verify_invoice(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_invoice(text) TO anon, authenticated;
@@ -0,0 +1,202 @@
+/*
+  # Server-side Report Aggregation
+
+  1. New Functions
+    - `report_monthly(p_year, p_basis, p_tz)` - Satu baris per bulan: month
+      (1-12), order_count, total_revenue
+    - `report_yearly(p_basis, p_tz)` - Satu baris per tahun: year, order_count,
+      total_revenue
+    - `report_by_vehicle(p_from, p_to, p_basis, p_group, p_tz)` - Pendapatan,
+      hari sewa dan unit-hari per kendaraan (`p_group = 'vehicle'`) atau per
+      kategori (`p_group = 'category'`), plus id order untuk drill-down
+    - `report_by_customer(p_from, p_to, p_basis, p_tz)` - Sama, per pelanggan
+    - Helpers `report_order_shares` and `report_order_months` hold the revenue
+      recognition rules shared by the functions above
+
+  2. Revenue Recognition
+    - `p_basis = 'booking'`: the whole order counts in the month of `order_date`,
+      taken in the caller's time zone `p_tz`
+    - `p_basis = 'rental'`: the order is spread evenly over every day of its
+      inclusive rental period, so 10-20 October counts 11/11 in October
+    - `p_from` / `p_to` form a half-open date range `[p_from, p_to)`
+
+  3. New Indexes
+    - `orders(user_id, rental_start_date, rental_end_date)` for the rental basis
+
+  4. Important Notes
+    - All functions are SECURITY INVOKER, so RLS still limits them to the
+      caller's own orders
+    - Cancelled orders are excluded from every report
+    - Only summary rows leave the database; the browser no longer downloads
+      every order to build a report
+*/
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_rental_period ON orders(user_id, rental_start_date, rental_end_date);
+
+-- Share of each order recognised in [p_from, p_to)
+CREATE OR REPLACE FUNCTION report_order_shares(
+  p_from date,
+  p_to date,
+  p_basis text,
+  p_tz text
+)
+RETURNS TABLE (order_id uuid, share numeric, days_in_range integer) AS $$
+  SELECT o.id, 1::numeric, NULL::integer
+  FROM orders o
+  WHERE p_basis = 'booking'
+    AND o.status <> 'cancelled'
+    AND o.order_date >= (p_from::timestamp AT TIME ZONE p_tz)
+    AND o.order_date < (p_to::timestamp AT TIME ZONE p_tz)
+
+  UNION ALL
+
+  SELECT
+    o.id,
+    overlap.days::numeric / GREATEST(o.rental_end_date - o.rental_start_date + 1, 1),
+    overlap.days
+  FROM orders o
+  CROSS JOIN LATERAL (
+    SELECT LEAST(o.rental_end_date + 1, p_to) - GREATEST(o.rental_start_date, p_from) AS days
+  ) overlap
+  WHERE p_basis = 'rental'
+    AND o.status <> 'cancelled'
+    AND o.rental_start_date < p_to
+    AND o.rental_end_date >= p_from;
+$$ LANGUAGE sql STABLE;
+
+-- Recognised amount of each order per calendar month; null bounds mean all time
+CREATE OR REPLACE FUNCTION report_order_months(
+  p_from date,
+  p_to date,
+  p_basis text,
+  p_tz text
+)
+RETURNS TABLE (order_id uuid, month_start date, amount numeric) AS $$
+  SELECT o.id, date_trunc('month', o.order_date AT TIME ZONE p_tz)::date, o.total_amount
+  FROM orders o
+  WHERE p_basis = 'booking'
+    AND o.status <> 'cancelled'
+    AND (p_from IS NULL OR o.order_date >= (p_from::timestamp AT TIME ZONE p_tz))
+    AND (p_to IS NULL OR o.order_date < (p_to::timestamp AT TIME ZONE p_tz))
+
+  UNION ALL
+
+  SELECT
+    o.id,
+    m.month_start,
+    o.total_amount
+      * (LEAST(o.rental_end_date + 1, m.month_end) - GREATEST(o.rental_start_date, m.month_start))
+      / GREATEST(o.rental_end_date - o.rental_start_date + 1, 1)
+  FROM orders o
+  CROSS JOIN LATERAL (
+    SELECT s::date AS month_start, (s + interval '1 month')::date AS month_end
+    FROM generate_series(
+      date_trunc('month', GREATEST(o.rental_start_date, COALESCE(p_from, o.rental_start_date))::timestamp),
+      date_trunc('month', LEAST(o.rental_end_date, COALESCE(p_to - 1, o.rental_end_date))::timestamp),
+      interval '1 month'
+    ) s
+  ) m
+  WHERE p_basis = 'rental'
+    AND o.status <> 'cancelled'
+    AND (p_to IS NULL OR o.rental_start_date < p_to)
+    AND (p_from IS NULL OR o.rental_end_date >= p_from);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION report_monthly(
+  p_year integer,
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (month integer, order_count bigint, total_revenue numeric) AS $$
+  SELECT
+    EXTRACT(MONTH FROM month_start)::integer,
+    COUNT(DISTINCT order_id),
+    SUM(amount)
+  FROM report_order_months(make_date(p_year, 1, 1), make_date(p_year + 1, 1, 1), p_basis, p_tz)
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION report_yearly(
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (year integer, order_count bigint, total_revenue numeric) AS $$
+  SELECT
+    EXTRACT(YEAR FROM month_start)::integer,
+    COUNT(DISTINCT order_id),
+    SUM(amount)
+  FROM report_order_months(NULL, NULL, p_basis, p_tz)
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Label kendaraan sama dengan formatVehicleLabel di src/lib/vehicles.ts
+CREATE OR REPLACE FUNCTION report_by_vehicle(
+  p_from date,
+  p_to date,
+  p_basis text DEFAULT 'booking',
+  p_group text DEFAULT 'vehicle',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  group_key text,
+  label text,
+  category text,
+  revenue numeric,
+  rental_days numeric,
+  unit_days numeric,
+  order_ids uuid[]
+) AS $$
+  SELECT
+    CASE WHEN p_group = 'category'
+      THEN COALESCE(v.category, 'none')
+      ELSE COALESCE(v.id::text, 'car_type:' || oi.car_type)
+    END,
+    CASE WHEN p_group = 'category'
+      THEN NULL
+      ELSE MIN(CASE WHEN v.id IS NOT NULL
+        THEN v.make || ' ' || v.model || ' (' || v.plate_number || ')'
+        ELSE oi.car_type || ' (data lama)'
+      END)
+    END,
+    MIN(v.category),
+    SUM(oi.subtotal * s.share),
+    SUM(COALESCE(s.days_in_range, oi.days)),
+    SUM(COALESCE(oi.quantity, 1) * COALESCE(s.days_in_range, oi.days)),
+    array_agg(DISTINCT oi.order_id)
+  FROM report_order_shares(p_from, p_to, p_basis, p_tz) s
+  JOIN order_items oi ON oi.order_id = s.order_id
+  LEFT JOIN vehicles v ON v.id = oi.vehicle_id
+  GROUP BY 1
+  ORDER BY 4 DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION report_by_customer(
+  p_from date,
+  p_to date,
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  group_key text,
+  label text,
+  revenue numeric,
+  rental_days numeric,
+  unit_days numeric,
+  order_ids uuid[]
+) AS $$
+  SELECT
+    COALESCE(o.customer_id::text, 'name:' || o.customer_name),
+    MIN(COALESCE(c.name, o.customer_name)),
+    SUM(oi.subtotal * s.share),
+    SUM(COALESCE(s.days_in_range, oi.days)),
+    SUM(COALESCE(oi.quantity, 1) * COALESCE(s.days_in_range, oi.days)),
+    array_agg(DISTINCT o.id)
+  FROM report_order_shares(p_from, p_to, p_basis, p_tz) s
+  JOIN orders o ON o.id = s.order_id
+  JOIN order_items oi ON oi.order_id = o.id
+  LEFT JOIN customers c ON c.id = o.customer_id
+  GROUP BY 1
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE;
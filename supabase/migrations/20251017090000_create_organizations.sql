@@ -0,0 +1,941 @@
+/*
+  # Team Accounts with Roles
+
+  1. New Tables
+    - `organizations`
+      - `id` (uuid, primary key)
+      - `name` (text, required) - Nama tim / usaha
+      - `created_at`, `updated_at` (timestamptz)
+    - `organization_invitations`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, foreign key to organizations)
+      - `email` (text, lowercase) - Email yang diundang
+      - `role` (text) - admin, staff atau accountant
+      - `invited_by` (uuid, foreign key to auth.users)
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz, default 7 days) - Undangan ulang memperpanjang masa berlaku
+
+  2. Changes
+    - `profiles.organization_id` and `profiles.role` (owner, admin, staff,
+      accountant) hold the membership
+    - `orders`, `vehicles`, `customers`, `business_settings` and
+      `invoice_counters` gain `organization_id`; every existing user becomes
+      the owner of their own organization holding their existing data
+    - `user_id` on orders, vehicles, customers and payments now only records who
+      created the row; it defaults to the caller and is set to null when that
+      user is deleted instead of deleting the row
+    - Plate numbers, customer phone numbers, invoice numbers, invoice counters
+      and business settings are unique per organization instead of per user
+
+  3. Security
+    - Helpers `current_org_id()`, `current_org_role()` and `has_org_role(roles)`
+    - Every member can read all data of their organization
+    - owner, admin and staff can create and edit orders, order items,
+      payments and customers; accountant is read-only
+    - Only owner and admin can delete orders, payments and customers, and manage
+      vehicles, business settings and the branding logo
+    - Only the owner can invite, re-role and remove members
+    - Members can only change their own `full_name`; role and organization
+      change only through the membership functions below
+    - Order items can only use vehicles of the order's organization, checked by
+      the `check_order_items_organization` trigger
+
+  4. New Functions
+    - `invite_member(p_email, p_role)` - Owner mengundang email ke tim
+    - `accept_invitation(p_invitation_id)` - Pengguna lama menerima undangan
+    - `update_member_role(p_user_id, p_role)` - Owner mengubah peran anggota
+    - `remove_member(p_user_id)` - Owner mengeluarkan anggota; anggota itu
+      mendapat organisasi baru yang kosong
+
+  5. Important Notes
+    - New sign-ups with a pending invitation join that organization once their
+      email is confirmed, either at sign-up (auto-confirm) or through the
+      confirmation link; until then they own a new empty organization, which is
+      removed when they join. Everyone else gets a new organization and becomes its owner
+    - Expired invitations are ignored everywhere
+    - When a user who is the only member of their organization accepts an
+      invitation, their data is merged into the new organization: vehicles
+      with the same plate and customers with the same phone are combined, and
+      invoice numbers that already exist get a suffix from the old organization
+    - The merge is refused while a vehicle with the same plate is booked in
+      both organizations for overlapping periods; the error names the plates so
+      the user can move or cancel those orders first
+*/
+
+-- Create organizations table
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'owner'
+    CHECK (role IN ('owner', 'admin', 'staff', 'accountant'));
+
+-- Create organization_invitations table
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(trim(email))),
+  role text NOT NULL DEFAULT 'staff' CHECK (role IN ('admin', 'staff', 'accountant')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_organization_id ON profiles(organization_id);
+CREATE INDEX IF NOT EXISTS idx_organization_invitations_email ON organization_invitations(email);
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- One organization per existing user, named after their business profile
+DO $$
+DECLARE
+  member record;
+  new_org_id uuid;
+BEGIN
+  FOR member IN
+    SELECT p.id, p.email, p.full_name, bs.company_name
+    FROM profiles p
+    LEFT JOIN business_settings bs ON bs.user_id = p.id
+    WHERE p.organization_id IS NULL
+  LOOP
+    INSERT INTO organizations (name)
+    VALUES (COALESCE(member.company_name, NULLIF(member.full_name, ''), member.email))
+    RETURNING id INTO new_org_id;
+
+    UPDATE profiles
+    SET organization_id = new_org_id, role = 'owner'
+    WHERE id = member.id;
+  END LOOP;
+END;
+$$;
+
+-- Membership helpers; SECURITY DEFINER so policies on profiles can use them too
+CREATE OR REPLACE FUNCTION current_org_id()
+RETURNS uuid AS $$
+  SELECT organization_id FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_org_role()
+RETURNS text AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND organization_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION has_org_role(p_roles text[])
+RETURNS boolean AS $$
+  SELECT COALESCE(current_org_role() = ANY (p_roles), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Drop the per-user policies before the columns they use change
+DROP POLICY IF EXISTS "Users can view own profile" ON profiles;
+DROP POLICY IF EXISTS "Users can update own profile" ON profiles;
+DROP POLICY IF EXISTS "Users can view own orders" ON orders;
+DROP POLICY IF EXISTS "Users can create own orders" ON orders;
+DROP POLICY IF EXISTS "Users can update own orders" ON orders;
+DROP POLICY IF EXISTS "Users can delete own orders" ON orders;
+DROP POLICY IF EXISTS "Users can view own order items" ON order_items;
+DROP POLICY IF EXISTS "Users can create own order items" ON order_items;
+DROP POLICY IF EXISTS "Users can update own order items" ON order_items;
+DROP POLICY IF EXISTS "Users can delete own order items" ON order_items;
+DROP POLICY IF EXISTS "Users can view own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can create own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can update own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can delete own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can view own payments" ON payments;
+DROP POLICY IF EXISTS "Users can create own payments" ON payments;
+DROP POLICY IF EXISTS "Users can update own payments" ON payments;
+DROP POLICY IF EXISTS "Users can delete own payments" ON payments;
+DROP POLICY IF EXISTS "Users can view own business settings" ON business_settings;
+DROP POLICY IF EXISTS "Users can create own business settings" ON business_settings;
+DROP POLICY IF EXISTS "Users can update own business settings" ON business_settings;
+DROP POLICY IF EXISTS "Users can view own customers" ON customers;
+DROP POLICY IF EXISTS "Users can create own customers" ON customers;
+DROP POLICY IF EXISTS "Users can update own customers" ON customers;
+DROP POLICY IF EXISTS "Users can delete own customers" ON customers;
+DROP POLICY IF EXISTS "Users can upload own branding files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own branding files" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own branding files" ON storage.objects;
+
+-- organization_id on shared data, backfilled from the creating user
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE business_settings ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE invoice_counters ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE orders SET organization_id = p.organization_id FROM profiles p WHERE p.id = orders.user_id;
+UPDATE vehicles SET organization_id = p.organization_id FROM profiles p WHERE p.id = vehicles.user_id;
+UPDATE customers SET organization_id = p.organization_id FROM profiles p WHERE p.id = customers.user_id;
+UPDATE business_settings SET organization_id = p.organization_id FROM profiles p WHERE p.id = business_settings.user_id;
+UPDATE invoice_counters SET organization_id = p.organization_id FROM profiles p WHERE p.id = invoice_counters.user_id;
+
+ALTER TABLE orders ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT current_org_id();
+ALTER TABLE vehicles ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT current_org_id();
+ALTER TABLE customers ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT current_org_id();
+ALTER TABLE business_settings ALTER COLUMN organization_id SET NOT NULL, ALTER COLUMN organization_id SET DEFAULT current_org_id();
+ALTER TABLE invoice_counters ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_organization_order_date ON orders(organization_id, order_date DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_organization_rental_period ON orders(organization_id, rental_start_date, rental_end_date);
+CREATE INDEX IF NOT EXISTS idx_vehicles_organization_id ON vehicles(organization_id);
+CREATE INDEX IF NOT EXISTS idx_customers_organization_id ON customers(organization_id);
+
+-- Uniqueness moves from the user to the organization
+ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_user_id_plate_number_key;
+ALTER TABLE vehicles ADD CONSTRAINT vehicles_organization_plate_number_key UNIQUE (organization_id, plate_number);
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_user_id_phone_normalized_key;
+ALTER TABLE customers ADD CONSTRAINT customers_organization_phone_normalized_key UNIQUE (organization_id, phone_normalized);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_user_invoice_number_key;
+ALTER TABLE orders ADD CONSTRAINT orders_organization_invoice_number_key UNIQUE (organization_id, invoice_number);
+
+ALTER TABLE invoice_counters DROP CONSTRAINT IF EXISTS invoice_counters_pkey;
+ALTER TABLE invoice_counters DROP COLUMN IF EXISTS user_id;
+ALTER TABLE invoice_counters ADD PRIMARY KEY (organization_id, scope);
+
+ALTER TABLE business_settings DROP CONSTRAINT IF EXISTS business_settings_pkey;
+ALTER TABLE business_settings DROP COLUMN IF EXISTS user_id;
+ALTER TABLE business_settings ADD PRIMARY KEY (organization_id);
+
+-- user_id only records who created the row
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_user_id_fkey;
+ALTER TABLE orders
+  ALTER COLUMN user_id DROP NOT NULL,
+  ALTER COLUMN user_id SET DEFAULT auth.uid(),
+  ADD CONSTRAINT orders_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE vehicles DROP CONSTRAINT IF EXISTS vehicles_user_id_fkey;
+ALTER TABLE vehicles
+  ALTER COLUMN user_id DROP NOT NULL,
+  ALTER COLUMN user_id SET DEFAULT auth.uid(),
+  ADD CONSTRAINT vehicles_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE customers DROP CONSTRAINT IF EXISTS customers_user_id_fkey;
+ALTER TABLE customers
+  ALTER COLUMN user_id DROP NOT NULL,
+  ALTER COLUMN user_id SET DEFAULT auth.uid(),
+  ADD CONSTRAINT customers_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_user_id_fkey;
+ALTER TABLE payments
+  ALTER COLUMN user_id DROP NOT NULL,
+  ALTER COLUMN user_id SET DEFAULT auth.uid(),
+  ADD CONSTRAINT payments_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Enable Row Level Security
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Organizations policies
+CREATE POLICY "Members can view own organization"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (id = current_org_id());
+
+CREATE POLICY "Users can view organizations that invited them"
+  ON organizations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organization_invitations
+      WHERE organization_invitations.organization_id = organizations.id
+      AND organization_invitations.email = lower(auth.jwt() ->> 'email')
+      AND organization_invitations.expires_at > now()
+    )
+  );
+
+CREATE POLICY "Owners can update own organization"
+  ON organizations FOR UPDATE
+  TO authenticated
+  USING (id = current_org_id() AND has_org_role(ARRAY['owner']))
+  WITH CHECK (id = current_org_id() AND has_org_role(ARRAY['owner']));
+
+-- Profiles policies
+CREATE POLICY "Members can view profiles in own organization"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (id = auth.uid() OR organization_id = current_org_id());
+
+CREATE POLICY "Users can update own profile"
+  ON profiles FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- Role and organization can only change through the membership functions
+REVOKE UPDATE ON profiles FROM anon, authenticated;
+GRANT UPDATE (full_name) ON profiles TO authenticated;
+
+-- Invitations policies
+CREATE POLICY "Owners can view organization invitations"
+  ON organization_invitations FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner']));
+
+CREATE POLICY "Users can view own invitations"
+  ON organization_invitations FOR SELECT
+  TO authenticated
+  USING (email = lower(auth.jwt() ->> 'email') AND expires_at > now());
+
+CREATE POLICY "Owners can delete organization invitations"
+  ON organization_invitations FOR DELETE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner']));
+
+-- Orders policies
+CREATE POLICY "Members can view organization orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE POLICY "Staff can create organization orders"
+  ON orders FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']));
+
+CREATE POLICY "Staff can update organization orders"
+  ON orders FOR UPDATE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']))
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']));
+
+CREATE POLICY "Admins can delete organization orders"
+  ON orders FOR DELETE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+-- Order items policies
+CREATE POLICY "Members can view organization order items"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can create organization order items"
+  ON order_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can update organization order items"
+  ON order_items FOR UPDATE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  )
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Staff may delete items: editing an order removes the items taken out of it
+CREATE POLICY "Staff can delete organization order items"
+  ON order_items FOR DELETE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_items.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Payments policies
+CREATE POLICY "Members can view organization payments"
+  ON payments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can create organization payments"
+  ON payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can update organization payments"
+  ON payments FOR UPDATE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  )
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Admins can delete organization payments"
+  ON payments FOR DELETE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = payments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Customers policies
+CREATE POLICY "Members can view organization customers"
+  ON customers FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE POLICY "Staff can create organization customers"
+  ON customers FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']));
+
+CREATE POLICY "Staff can update organization customers"
+  ON customers FOR UPDATE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']))
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin', 'staff']));
+
+CREATE POLICY "Admins can delete organization customers"
+  ON customers FOR DELETE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+-- Vehicles policies
+CREATE POLICY "Members can view organization vehicles"
+  ON vehicles FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE POLICY "Admins can create organization vehicles"
+  ON vehicles FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Admins can update organization vehicles"
+  ON vehicles FOR UPDATE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']))
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Admins can delete organization vehicles"
+  ON vehicles FOR DELETE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+-- Business settings policies
+CREATE POLICY "Members can view organization business settings"
+  ON business_settings FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE POLICY "Admins can create organization business settings"
+  ON business_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Admins can update organization business settings"
+  ON business_settings FOR UPDATE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']))
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+-- Branding files live in the `<organization_id>/` folder
+CREATE POLICY "Admins can upload organization branding files"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_org_id()::text
+    AND has_org_role(ARRAY['owner', 'admin'])
+  );
+
+CREATE POLICY "Admins can update organization branding files"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_org_id()::text
+    AND has_org_role(ARRAY['owner', 'admin'])
+  )
+  WITH CHECK (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_org_id()::text
+    AND has_org_role(ARRAY['owner', 'admin'])
+  );
+
+CREATE POLICY "Admins can delete organization branding files"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'branding'
+    AND (storage.foldername(name))[1] = current_org_id()::text
+    AND has_org_role(ARRAY['owner', 'admin'])
+  );
+
+-- Invoice numbering per organization
+DROP FUNCTION IF EXISTS next_invoice_number(uuid, timestamptz);
+
+CREATE OR REPLACE FUNCTION next_invoice_number(p_organization_id uuid, p_order_date timestamptz)
+RETURNS text AS $$
+DECLARE
+  number_format text;
+  order_day date := (COALESCE(p_order_date, now()) AT TIME ZONE 'Asia/Jakarta')::date;
+  counter_scope text;
+  seq integer;
+BEGIN
+  SELECT invoice_number_format INTO number_format
+  FROM business_settings
+  WHERE organization_id = p_organization_id;
+
+  number_format := COALESCE(number_format, 'LT/{YYYY}/{MM}/{SEQ:4}');
+  counter_scope := format_invoice_number(number_format, order_day, NULL);
+
+  INSERT INTO invoice_counters (organization_id, scope, last_value)
+  VALUES (p_organization_id, counter_scope, 1)
+  ON CONFLICT (organization_id, scope)
+  DO UPDATE SET last_value = invoice_counters.last_value + 1
+  RETURNING last_value INTO seq;
+
+  RETURN format_invoice_number(number_format, order_day, seq);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION next_invoice_number(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- Numbers stay stable on update, except when an order moves to another organization
+CREATE OR REPLACE FUNCTION assign_order_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.invoice_number = next_invoice_number(NEW.organization_id, NEW.order_date);
+  ELSIF NEW.organization_id IS NOT DISTINCT FROM OLD.organization_id THEN
+    NEW.invoice_number = OLD.invoice_number;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Customers are shared by the whole organization
+CREATE OR REPLACE FUNCTION link_order_customer()
+RETURNS TRIGGER AS $$
+DECLARE
+  normalized text := normalize_phone(NEW.customer_phone);
+BEGIN
+  IF normalized IS NULL THEN
+    NEW.customer_id = NULL;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO customers (organization_id, user_id, phone_normalized, name, phone, address)
+  VALUES (NEW.organization_id, auth.uid(), normalized, NEW.customer_name, NEW.customer_phone, NEW.customer_address)
+  ON CONFLICT (organization_id, phone_normalized)
+  DO UPDATE SET
+    name = EXCLUDED.name,
+    phone = EXCLUDED.phone,
+    address = COALESCE(EXCLUDED.address, customers.address)
+  RETURNING id INTO NEW.customer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Items may only use vehicles of the order's own organization
+CREATE OR REPLACE FUNCTION check_order_item_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.vehicle_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM vehicles v
+    JOIN orders o ON o.organization_id = v.organization_id
+    WHERE v.id = NEW.vehicle_id
+      AND o.id = NEW.order_id
+  ) THEN
+    RAISE EXCEPTION 'Kendaraan % tidak terdaftar di organisasi order ini', NEW.vehicle_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_order_items_organization
+  BEFORE INSERT OR UPDATE OF order_id, vehicle_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_item_organization();
+
+-- Company name on the public verification page comes from the organization
+CREATE OR REPLACE FUNCTION verify_invoice(p_token text)
+RETURNS TABLE (
+  invoice_number text,
+  company_name text,
+  customer_name text,
+  order_date timestamptz,
+  rental_start_date date,
+  rental_end_date date,
+  total_amount numeric,
+  paid_amount numeric,
+  payment_status text,
+  status text
+) AS $$
+  SELECT
+    o.invoice_number,
+    COALESCE(bs.company_name, org.name),
+    o.customer_name,
+    o.order_date,
+    o.rental_start_date,
+    o.rental_end_date,
+    o.total_amount,
+    o.paid_amount,
+    o.payment_status,
+    o.status
+  FROM orders o
+  JOIN organizations org ON org.id = o.organization_id
+  LEFT JOIN business_settings bs ON bs.organization_id = o.organization_id
+  WHERE o.verification_token = p_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New users join the organization that invited them, or get their own.
+-- Only a confirmed email proves the user owns the invited address.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+DECLARE
+  invitation record;
+  new_org_id uuid;
+BEGIN
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE email = lower(new.email)
+    AND expires_at > now()
+    AND new.email_confirmed_at IS NOT NULL
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    INSERT INTO profiles (id, email, full_name, organization_id, role)
+    VALUES (new.id, new.email, new.raw_user_meta_data->>'full_name', invitation.organization_id, invitation.role);
+
+    DELETE FROM organization_invitations WHERE id = invitation.id;
+  ELSE
+    INSERT INTO organizations (name)
+    VALUES (COALESCE(NULLIF(new.raw_user_meta_data->>'full_name', ''), new.email))
+    RETURNING id INTO new_org_id;
+
+    INSERT INTO profiles (id, email, full_name, organization_id, role)
+    VALUES (new.id, new.email, new.raw_user_meta_data->>'full_name', new_org_id, 'owner');
+  END IF;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users who confirm their email later join the inviting organization then
+CREATE OR REPLACE FUNCTION public.handle_user_email_confirmed()
+RETURNS trigger AS $$
+DECLARE
+  invitation record;
+  old_org_id uuid;
+BEGIN
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE email = lower(new.email)
+    AND expires_at > now()
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN new;
+  END IF;
+
+  SELECT organization_id INTO old_org_id FROM profiles WHERE id = new.id;
+
+  UPDATE profiles
+  SET organization_id = invitation.organization_id, role = invitation.role
+  WHERE id = new.id;
+
+  -- The organization created at sign-up is empty unless someone was invited into it already
+  IF old_org_id IS NOT NULL
+    AND old_org_id <> invitation.organization_id
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE organization_id = old_org_id)
+  THEN
+    PERFORM merge_organization_data(old_org_id, invitation.organization_id);
+  END IF;
+
+  DELETE FROM organization_invitations WHERE id = invitation.id;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_email_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_user_email_confirmed();
+
+CREATE OR REPLACE FUNCTION invite_member(p_email text, p_role text)
+RETURNS uuid AS $$
+DECLARE
+  invitation_id uuid;
+BEGIN
+  IF NOT has_org_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Hanya pemilik yang dapat mengundang anggota'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM profiles
+    WHERE lower(email) = lower(trim(p_email))
+      AND organization_id = current_org_id()
+  ) THEN
+    RAISE EXCEPTION '% sudah menjadi anggota tim', p_email
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO organization_invitations (organization_id, email, role, invited_by)
+  VALUES (current_org_id(), lower(trim(p_email)), p_role, auth.uid())
+  ON CONFLICT (organization_id, email)
+  DO UPDATE SET role = EXCLUDED.role, invited_by = EXCLUDED.invited_by, expires_at = EXCLUDED.expires_at
+  RETURNING id INTO invitation_id;
+
+  RETURN invitation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move everything from one organization into another; not callable from the API
+CREATE OR REPLACE FUNCTION merge_organization_data(p_from uuid, p_to uuid)
+RETURNS void AS $$
+DECLARE
+  conflicting_plates text;
+BEGIN
+  -- Same-plate vehicles booked in both organizations at the same time cannot become one
+  SELECT string_agg(DISTINCT source.plate_number, ', ' ORDER BY source.plate_number)
+  INTO conflicting_plates
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  JOIN order_items source_item ON source_item.vehicle_id = source.id AND source_item.booking_active
+  JOIN order_items target_item ON target_item.vehicle_id = target.id AND target_item.booking_active
+  WHERE source.organization_id = p_from
+    AND source_item.rental_period && target_item.rental_period;
+
+  IF conflicting_plates IS NOT NULL THEN
+    RAISE EXCEPTION 'Kendaraan % sudah dibooking di tim tujuan pada periode yang sama. Ubah atau batalkan order yang bentrok sebelum bergabung.', conflicting_plates
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Orders move first, so their items are never pointed at a vehicle of another organization.
+  -- Invoice numbers already used in the target get a suffix
+  UPDATE orders o
+  SET organization_id = p_to,
+      invoice_number = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM orders existing
+          WHERE existing.organization_id = p_to
+            AND existing.invoice_number = o.invoice_number
+        )
+        THEN o.invoice_number || '-' || upper(substr(p_from::text, 1, 4))
+        ELSE o.invoice_number
+      END
+  WHERE o.organization_id = p_from;
+
+  -- Vehicles with the same plate become one
+  UPDATE order_items oi
+  SET vehicle_id = target.id
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  WHERE source.organization_id = p_from
+    AND oi.vehicle_id = source.id;
+
+  DELETE FROM vehicles source
+  USING vehicles target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.plate_number = source.plate_number;
+
+  UPDATE vehicles SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Customers with the same phone number become one
+  UPDATE orders o
+  SET customer_id = target.id
+  FROM customers source
+  JOIN customers target ON target.organization_id = p_to AND target.phone_normalized = source.phone_normalized
+  WHERE source.organization_id = p_from
+    AND o.customer_id = source.id;
+
+  DELETE FROM customers source
+  USING customers target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.phone_normalized = source.phone_normalized;
+
+  UPDATE customers SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Counters continue after the highest number of either organization
+  INSERT INTO invoice_counters (organization_id, scope, last_value)
+  SELECT p_to, scope, last_value
+  FROM invoice_counters
+  WHERE organization_id = p_from
+  ON CONFLICT (organization_id, scope)
+  DO UPDATE SET last_value = GREATEST(invoice_counters.last_value, EXCLUDED.last_value);
+
+  DELETE FROM organizations WHERE id = p_from;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_organization_data(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION accept_invitation(p_invitation_id uuid)
+RETURNS void AS $$
+DECLARE
+  invitation record;
+  old_org_id uuid := current_org_id();
+BEGIN
+  SELECT * INTO invitation
+  FROM organization_invitations
+  WHERE id = p_invitation_id
+    AND email = (SELECT lower(email) FROM profiles WHERE id = auth.uid())
+    AND expires_at > now();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Undangan tidak ditemukan atau sudah kedaluwarsa'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF old_org_id IS NOT NULL
+    AND has_org_role(ARRAY['owner'])
+    AND EXISTS (SELECT 1 FROM profiles WHERE organization_id = old_org_id AND id <> auth.uid())
+  THEN
+    RAISE EXCEPTION 'Keluarkan anggota tim Anda terlebih dahulu sebelum bergabung ke tim lain'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE profiles
+  SET organization_id = invitation.organization_id, role = invitation.role
+  WHERE id = auth.uid();
+
+  IF old_org_id IS NOT NULL
+    AND old_org_id <> invitation.organization_id
+    AND NOT EXISTS (SELECT 1 FROM profiles WHERE organization_id = old_org_id)
+  THEN
+    PERFORM merge_organization_data(old_org_id, invitation.organization_id);
+  END IF;
+
+  DELETE FROM organization_invitations WHERE id = invitation.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_member_role(p_user_id uuid, p_role text)
+RETURNS void AS $$
+BEGIN
+  IF NOT has_org_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Hanya pemilik yang dapat mengubah peran anggota'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Pemilik tidak dapat mengubah perannya sendiri'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_role NOT IN ('admin', 'staff', 'accountant') THEN
+    RAISE EXCEPTION 'Peran % tidak valid', p_role
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE profiles
+  SET role = p_role
+  WHERE id = p_user_id
+    AND organization_id = current_org_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Anggota tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION remove_member(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  member record;
+  new_org_id uuid;
+BEGIN
+  IF NOT has_org_role(ARRAY['owner']) THEN
+    RAISE EXCEPTION 'Hanya pemilik yang dapat mengeluarkan anggota'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Pemilik tidak dapat mengeluarkan dirinya sendiri'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO member
+  FROM profiles
+  WHERE id = p_user_id
+    AND organization_id = current_org_id();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Anggota tidak ditemukan'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- The removed member keeps an account, but with an empty organization of their own
+  INSERT INTO organizations (name)
+  VALUES (COALESCE(NULLIF(member.full_name, ''), member.email))
+  RETURNING id INTO new_org_id;
+
+  UPDATE profiles
+  SET organization_id = new_org_id, role = 'owner'
+  WHERE id = p_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,218 @@
+/*
+  # Order Audit Trail
+
+  1. New Tables
+    - `audit_log`
+      - `id` (bigint, identity primary key)
+      - `organization_id` (uuid, foreign key to organizations)
+      - `order_id` (uuid) - Order yang berubah; sengaja tanpa foreign key supaya
+        riwayat tetap ada setelah order dihapus
+      - `table_name` (text) - orders, order_items atau payments
+      - `record_id` (uuid) - Id baris yang berubah
+      - `action` (text) - insert, update atau delete
+      - `actor_id` (uuid, foreign key to auth.users) - Pengguna yang mengubah
+      - `actor_email` (text) - Email pengguna saat perubahan terjadi
+      - `old_data` (jsonb) - Isi baris sebelum perubahan, null untuk insert
+      - `new_data` (jsonb) - Isi baris sesudah perubahan, null untuk delete
+      - `created_at` (timestamptz)
+
+  2. Triggers
+    - `log_audit_event()` runs after every insert, update and delete on
+      `orders`, `order_items` and `payments`
+    - Order updates that only touch derived columns (`total_amount`,
+      `paid_amount`, `payment_status`, `updated_at`) are not logged; the item or
+      payment change that caused them already is
+    - Item updates that only touch columns kept in sync by triggers
+      (`rental_period`, `booking_active`, `subtotal`, `driver_daily_fee`,
+      `updated_at`) are not logged either; they follow every date edit or cancel
+
+  3. Changes
+    - `merge_organization_data` moves the audit log of the old organization
+      along with its orders
+
+  4. Security
+    - Every member of the organization can read its audit log
+    - Nobody can insert, update or delete entries through the API; only the
+      SECURITY DEFINER trigger writes to the table
+    - Deleting an organization that still has audit history is refused instead
+      of wiping the history
+*/
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE RESTRICT,
+  order_id uuid NOT NULL,
+  table_name text NOT NULL CHECK (table_name IN ('orders', 'order_items', 'payments')),
+  record_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email text,
+  old_data jsonb,
+  new_data jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_order_id ON audit_log(order_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization_id ON audit_log(organization_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization audit log"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE OR REPLACE FUNCTION log_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  synced_columns text[] := ARRAY['rental_period', 'booking_active', 'subtotal', 'driver_daily_fee', 'updated_at'];
+  target_order_id uuid;
+  target_org_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    IF TG_OP = 'UPDATE'
+      AND old_row - ARRAY['total_amount', 'paid_amount', 'payment_status', 'updated_at']
+        = new_row - ARRAY['total_amount', 'paid_amount', 'payment_status', 'updated_at']
+    THEN
+      RETURN NULL;
+    END IF;
+
+    target_order_id := (row_data->>'id')::uuid;
+    target_org_id := (row_data->>'organization_id')::uuid;
+  ELSE
+    IF TG_OP = 'UPDATE' AND old_row - synced_columns = new_row - synced_columns THEN
+      RETURN NULL;
+    END IF;
+
+    target_order_id := (row_data->>'order_id')::uuid;
+    -- Saat order dihapus, item dan pembayarannya ikut terhapus setelah ordernya hilang
+    SELECT organization_id INTO target_org_id FROM orders WHERE id = target_order_id;
+    target_org_id := COALESCE(target_org_id, current_org_id());
+  END IF;
+
+  IF target_org_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id, order_id, table_name, record_id, action,
+    actor_id, actor_email, old_data, new_data
+  )
+  VALUES (
+    target_org_id,
+    target_order_id,
+    TG_TABLE_NAME,
+    (row_data->>'id')::uuid,
+    lower(TG_OP),
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_orders
+  AFTER INSERT OR UPDATE OR DELETE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_audit_event();
+
+CREATE TRIGGER audit_order_items
+  AFTER INSERT OR UPDATE OR DELETE ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION log_audit_event();
+
+CREATE TRIGGER audit_payments
+  AFTER INSERT OR UPDATE OR DELETE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_audit_event();
+
+-- Merging organizations keeps the audit trail instead of cascading it away
+CREATE OR REPLACE FUNCTION merge_organization_data(p_from uuid, p_to uuid)
+RETURNS void AS $$
+DECLARE
+  conflicting_plates text;
+BEGIN
+  -- Same-plate vehicles booked in both organizations at the same time cannot become one
+  SELECT string_agg(DISTINCT source.plate_number, ', ' ORDER BY source.plate_number)
+  INTO conflicting_plates
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  JOIN order_items source_item ON source_item.vehicle_id = source.id AND source_item.booking_active
+  JOIN order_items target_item ON target_item.vehicle_id = target.id AND target_item.booking_active
+  WHERE source.organization_id = p_from
+    AND source_item.rental_period && target_item.rental_period;
+
+  IF conflicting_plates IS NOT NULL THEN
+    RAISE EXCEPTION 'Kendaraan % sudah dibooking di tim tujuan pada periode yang sama. Ubah atau batalkan order yang bentrok sebelum bergabung.', conflicting_plates
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Orders move first, so their items are never pointed at a vehicle of another organization.
+  -- Invoice numbers already used in the target get a suffix
+  UPDATE orders o
+  SET organization_id = p_to,
+      invoice_number = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM orders existing
+          WHERE existing.organization_id = p_to
+            AND existing.invoice_number = o.invoice_number
+        )
+        THEN o.invoice_number || '-' || upper(substr(p_from::text, 1, 4))
+        ELSE o.invoice_number
+      END
+  WHERE o.organization_id = p_from;
+
+  -- Vehicles with the same plate become one
+  UPDATE order_items oi
+  SET vehicle_id = target.id
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  WHERE source.organization_id = p_from
+    AND oi.vehicle_id = source.id;
+
+  DELETE FROM vehicles source
+  USING vehicles target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.plate_number = source.plate_number;
+
+  UPDATE vehicles SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Customers with the same phone number become one
+  UPDATE orders o
+  SET customer_id = target.id
+  FROM customers source
+  JOIN customers target ON target.organization_id = p_to AND target.phone_normalized = source.phone_normalized
+  WHERE source.organization_id = p_from
+    AND o.customer_id = source.id;
+
+  DELETE FROM customers source
+  USING customers target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.phone_normalized = source.phone_normalized;
+
+  UPDATE customers SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Counters continue after the highest number of either organization
+  INSERT INTO invoice_counters (organization_id, scope, last_value)
+  SELECT p_to, scope, last_value
+  FROM invoice_counters
+  WHERE organization_id = p_from
+  ON CONFLICT (organization_id, scope)
+  DO UPDATE SET last_value = GREATEST(invoice_counters.last_value, EXCLUDED.last_value);
+
+  -- History of the merged orders stays readable in the new organization
+  UPDATE audit_log SET organization_id = p_to WHERE organization_id = p_from;
+
+  DELETE FROM organizations WHERE id = p_from;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_organization_data(uuid, uuid) FROM PUBLIC, anon, authenticated;
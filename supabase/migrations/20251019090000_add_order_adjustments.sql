@@ -0,0 +1,591 @@
+/*
+  # Discounts, Taxes and Extra Charges
+
+  1. New Tables
+    - `order_adjustments`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `order_item_id` (uuid, foreign key to order_items) - Diisi untuk diskon
+        per item, kosong untuk penyesuaian level order
+      - `kind` (text) - discount, charge atau tax
+      - `charge_type` (text) - Jenis biaya tambahan: driver, fuel, delivery,
+        pickup, out_of_town, other; hanya untuk `kind = 'charge'`
+      - `label` (text) - Keterangan yang tampil di invoice
+      - `calculation` (text) - percent atau fixed
+      - `value` (numeric) - Persen (0-100) atau nominal rupiah
+      - `sort_order` (integer) - Urutan di form dan invoice
+      - `created_at` (timestamptz)
+
+  2. Changes
+    - `orders` gains `subtotal_amount`, `discount_amount`, `charge_amount` and
+      `tax_amount`, kept up to date by trigger next to `total_amount`
+    - `save_order` takes a fourth argument `p_adjustments`; a line discount
+      points at its item with `item_index`, the position in `p_items`
+    - `report_monthly` also returns rental revenue, discounts, charges and tax
+    - `report_by_customer` counts each order's grand total, so customers add up
+      to `report_monthly`; `report_by_vehicle` counts each item's rental after
+      its line discounts, since charges, order discounts and tax belong to the
+      whole order
+    - Adjustments are included in the audit log
+
+  3. Calculation
+    - Line discounts are taken from their item's subtotal
+    - Charges are added next; a percentage charge is taken from the rental
+      subtotal after line discounts
+    - Order discounts are taken from rental plus charges
+    - Tax (PPN) is taken from what remains, the taxable amount
+    - Every adjustment is rounded to whole rupiah
+    - `src/lib/orderAdjustments.ts` mirrors this for the form preview and invoice
+
+  4. Security
+    - Same rules as order items: members can view, owner/admin/staff can write
+*/
+
+CREATE TABLE IF NOT EXISTS order_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('discount', 'charge', 'tax')),
+  charge_type text CHECK (charge_type IN ('driver', 'fuel', 'delivery', 'pickup', 'out_of_town', 'other')),
+  label text NOT NULL,
+  calculation text NOT NULL DEFAULT 'fixed' CHECK (calculation IN ('percent', 'fixed')),
+  value numeric(12, 2) NOT NULL CHECK (value >= 0),
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((kind = 'charge') = (charge_type IS NOT NULL)),
+  CHECK (order_item_id IS NULL OR kind = 'discount'),
+  CHECK (calculation = 'fixed' OR value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_adjustments_order_id ON order_adjustments(order_id);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS subtotal_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS discount_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS charge_amount numeric(12, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE order_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization order adjustments"
+  ON order_adjustments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_adjustments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can create organization order adjustments"
+  ON order_adjustments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_adjustments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can update organization order adjustments"
+  ON order_adjustments FOR UPDATE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_adjustments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  )
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_adjustments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can delete organization order adjustments"
+  ON order_adjustments FOR DELETE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_adjustments.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Rental subtotal, discounts, charges, tax and grand total of one order
+CREATE OR REPLACE FUNCTION calculate_order_amounts(p_order_id uuid)
+RETURNS TABLE (
+  subtotal_amount numeric,
+  discount_amount numeric,
+  charge_amount numeric,
+  tax_amount numeric,
+  total_amount numeric
+) AS $$
+DECLARE
+  rental numeric;
+  line_discount numeric;
+  charges numeric;
+  order_discount numeric;
+  base numeric;
+  taxable numeric;
+  tax numeric;
+BEGIN
+  SELECT COALESCE(SUM(oi.subtotal), 0) INTO rental
+  FROM order_items oi
+  WHERE oi.order_id = p_order_id;
+
+  SELECT COALESCE(SUM(round(CASE WHEN a.calculation = 'percent' THEN oi.subtotal * a.value / 100 ELSE a.value END)), 0)
+  INTO line_discount
+  FROM order_adjustments a
+  JOIN order_items oi ON oi.id = a.order_item_id
+  WHERE a.order_id = p_order_id
+    AND a.kind = 'discount';
+
+  base := GREATEST(rental - line_discount, 0);
+
+  SELECT COALESCE(SUM(round(CASE WHEN a.calculation = 'percent' THEN base * a.value / 100 ELSE a.value END)), 0)
+  INTO charges
+  FROM order_adjustments a
+  WHERE a.order_id = p_order_id
+    AND a.kind = 'charge';
+
+  base := base + charges;
+
+  SELECT COALESCE(SUM(round(CASE WHEN a.calculation = 'percent' THEN base * a.value / 100 ELSE a.value END)), 0)
+  INTO order_discount
+  FROM order_adjustments a
+  WHERE a.order_id = p_order_id
+    AND a.kind = 'discount'
+    AND a.order_item_id IS NULL;
+
+  taxable := GREATEST(base - order_discount, 0);
+
+  SELECT COALESCE(SUM(round(CASE WHEN a.calculation = 'percent' THEN taxable * a.value / 100 ELSE a.value END)), 0)
+  INTO tax
+  FROM order_adjustments a
+  WHERE a.order_id = p_order_id
+    AND a.kind = 'tax';
+
+  RETURN QUERY SELECT rental, line_discount + order_discount, charges, tax, taxable + tax;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION calculate_order_total(p_order_id uuid)
+RETURNS numeric AS $$
+  SELECT total_amount FROM calculate_order_amounts(p_order_id);
+$$ LANGUAGE sql STABLE;
+
+-- All amount columns are derived; values sent by the client are ignored
+CREATE OR REPLACE FUNCTION set_order_total_amount()
+RETURNS TRIGGER AS $$
+DECLARE
+  amounts record;
+BEGIN
+  SELECT * INTO amounts FROM calculate_order_amounts(NEW.id);
+  NEW.subtotal_amount = amounts.subtotal_amount;
+  NEW.discount_amount = amounts.discount_amount;
+  NEW.charge_amount = amounts.charge_amount;
+  NEW.tax_amount = amounts.tax_amount;
+  NEW.total_amount = amounts.total_amount;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_orders_total_amount_from_adjustments
+  AFTER INSERT OR UPDATE OR DELETE ON order_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_order_total_amount();
+
+-- Fill the new columns for existing orders
+UPDATE orders SET total_amount = calculate_order_total(id);
+
+-- Adjustments are audited like items; the new derived columns are not
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_table_name_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_table_name_check
+  CHECK (table_name IN ('orders', 'order_items', 'order_adjustments', 'payments'));
+
+CREATE OR REPLACE FUNCTION log_audit_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data jsonb := COALESCE(new_row, old_row);
+  derived_columns text[] := ARRAY[
+    'subtotal_amount', 'discount_amount', 'charge_amount', 'tax_amount',
+    'total_amount', 'paid_amount', 'payment_status', 'updated_at'
+  ];
+  synced_columns text[] := ARRAY['rental_period', 'booking_active', 'subtotal', 'driver_daily_fee', 'updated_at'];
+  target_order_id uuid;
+  target_org_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'orders' THEN
+    IF TG_OP = 'UPDATE' AND old_row - derived_columns = new_row - derived_columns THEN
+      RETURN NULL;
+    END IF;
+
+    target_order_id := (row_data->>'id')::uuid;
+    target_org_id := (row_data->>'organization_id')::uuid;
+  ELSE
+    IF TG_OP = 'UPDATE' AND old_row - synced_columns = new_row - synced_columns THEN
+      RETURN NULL;
+    END IF;
+
+    target_order_id := (row_data->>'order_id')::uuid;
+    -- Saat order dihapus, item dan pembayarannya ikut terhapus setelah ordernya hilang
+    SELECT organization_id INTO target_org_id FROM orders WHERE id = target_order_id;
+    target_org_id := COALESCE(target_org_id, current_org_id());
+  END IF;
+
+  IF target_org_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (
+    organization_id, order_id, table_name, record_id, action,
+    actor_id, actor_email, old_data, new_data
+  )
+  VALUES (
+    target_org_id,
+    target_order_id,
+    TG_TABLE_NAME,
+    (row_data->>'id')::uuid,
+    lower(TG_OP),
+    auth.uid(),
+    (SELECT email FROM profiles WHERE id = auth.uid()),
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_order_adjustments
+  AFTER INSERT OR UPDATE OR DELETE ON order_adjustments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_audit_event();
+
+-- save_order gains adjustments; the old three-argument version is replaced
+DROP FUNCTION IF EXISTS save_order(uuid, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION save_order(
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb,
+  p_adjustments jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_order_id uuid;
+  saved_item_ids uuid[] := '{}';
+  item jsonb;
+  item_id uuid;
+  adjustment jsonb;
+  adjustment_position bigint;
+  adjustment_id uuid;
+  adjustment_item_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order harus memiliki minimal satu item'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_order_id IS NULL THEN
+    INSERT INTO orders (
+      user_id, customer_name, customer_phone, customer_address,
+      rental_start_date, rental_end_date, notes
+    )
+    VALUES (
+      auth.uid(),
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_address', ''),
+      (p_order->>'rental_start_date')::date,
+      (p_order->>'rental_end_date')::date,
+      NULLIF(p_order->>'notes', '')
+    )
+    RETURNING id INTO saved_order_id;
+  ELSE
+    UPDATE orders
+    SET customer_name = p_order->>'customer_name',
+        customer_phone = p_order->>'customer_phone',
+        customer_address = NULLIF(p_order->>'customer_address', ''),
+        rental_start_date = (p_order->>'rental_start_date')::date,
+        rental_end_date = (p_order->>'rental_end_date')::date,
+        notes = NULLIF(p_order->>'notes', '')
+    WHERE id = p_order_id
+    RETURNING id INTO saved_order_id;
+
+    IF saved_order_id IS NULL THEN
+      RAISE EXCEPTION 'Order % tidak ditemukan', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer in the form first, so their vehicles are free
+  DELETE FROM order_items
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_items)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    item_id := NULLIF(item->>'id', '')::uuid;
+
+    IF item_id IS NOT NULL THEN
+      UPDATE order_items
+      SET vehicle_id = NULLIF(item->>'vehicle_id', '')::uuid,
+          car_type = item->>'car_type',
+          quantity = (item->>'quantity')::integer,
+          daily_rate = (item->>'daily_rate')::numeric,
+          days = (item->>'days')::integer
+      WHERE id = item_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        saved_item_ids := saved_item_ids || item_id;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (order_id, vehicle_id, car_type, quantity, daily_rate, days, subtotal)
+    VALUES (
+      saved_order_id,
+      NULLIF(item->>'vehicle_id', '')::uuid,
+      item->>'car_type',
+      (item->>'quantity')::integer,
+      (item->>'daily_rate')::numeric,
+      (item->>'days')::integer,
+      0
+    )
+    RETURNING id INTO item_id;
+
+    saved_item_ids := saved_item_ids || item_id;
+  END LOOP;
+
+  -- Adjustments follow the same rule as items: update by id, delete the rest, insert new
+  DELETE FROM order_adjustments
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_adjustments)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR adjustment, adjustment_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_adjustments) WITH ORDINALITY
+  LOOP
+    adjustment_id := NULLIF(adjustment->>'id', '')::uuid;
+    adjustment_item_id := saved_item_ids[(NULLIF(adjustment->>'item_index', ''))::integer + 1];
+
+    IF adjustment_id IS NOT NULL THEN
+      UPDATE order_adjustments
+      SET order_item_id = adjustment_item_id,
+          kind = adjustment->>'kind',
+          charge_type = NULLIF(adjustment->>'charge_type', ''),
+          label = adjustment->>'label',
+          calculation = adjustment->>'calculation',
+          value = (adjustment->>'value')::numeric,
+          sort_order = adjustment_position
+      WHERE id = adjustment_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_adjustments (order_id, order_item_id, kind, charge_type, label, calculation, value, sort_order)
+    VALUES (
+      saved_order_id,
+      adjustment_item_id,
+      adjustment->>'kind',
+      NULLIF(adjustment->>'charge_type', ''),
+      adjustment->>'label',
+      adjustment->>'calculation',
+      (adjustment->>'value')::numeric,
+      adjustment_position
+    );
+  END LOOP;
+
+  RETURN saved_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reports: recognise each order's components with the same share as its total
+DROP FUNCTION IF EXISTS report_monthly(integer, text, text);
+DROP FUNCTION IF EXISTS report_yearly(text, text);
+DROP FUNCTION IF EXISTS report_order_months(date, date, text, text);
+
+CREATE OR REPLACE FUNCTION report_order_months(
+  p_from date,
+  p_to date,
+  p_basis text,
+  p_tz text
+)
+RETURNS TABLE (order_id uuid, month_start date, share numeric) AS $$
+  SELECT o.id, date_trunc('month', o.order_date AT TIME ZONE p_tz)::date, 1::numeric
+  FROM orders o
+  WHERE p_basis = 'booking'
+    AND o.status <> 'cancelled'
+    AND (p_from IS NULL OR o.order_date >= (p_from::timestamp AT TIME ZONE p_tz))
+    AND (p_to IS NULL OR o.order_date < (p_to::timestamp AT TIME ZONE p_tz))
+
+  UNION ALL
+
+  SELECT
+    o.id,
+    m.month_start,
+    (LEAST(o.rental_end_date + 1, m.month_end) - GREATEST(o.rental_start_date, m.month_start))::numeric
+      / GREATEST(o.rental_end_date - o.rental_start_date + 1, 1)
+  FROM orders o
+  CROSS JOIN LATERAL (
+    SELECT s::date AS month_start, (s + interval '1 month')::date AS month_end
+    FROM generate_series(
+      date_trunc('month', GREATEST(o.rental_start_date, COALESCE(p_from, o.rental_start_date))::timestamp),
+      date_trunc('month', LEAST(o.rental_end_date, COALESCE(p_to - 1, o.rental_end_date))::timestamp),
+      interval '1 month'
+    ) s
+  ) m
+  WHERE p_basis = 'rental'
+    AND o.status <> 'cancelled'
+    AND (p_to IS NULL OR o.rental_start_date < p_to)
+    AND (p_from IS NULL OR o.rental_end_date >= p_from);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION report_monthly(
+  p_year integer,
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  month integer,
+  order_count bigint,
+  total_revenue numeric,
+  rental_revenue numeric,
+  discount_amount numeric,
+  charge_amount numeric,
+  tax_amount numeric
+) AS $$
+  SELECT
+    EXTRACT(MONTH FROM m.month_start)::integer,
+    COUNT(DISTINCT m.order_id),
+    SUM(o.total_amount * m.share),
+    SUM(o.subtotal_amount * m.share),
+    SUM(o.discount_amount * m.share),
+    SUM(o.charge_amount * m.share),
+    SUM(o.tax_amount * m.share)
+  FROM report_order_months(make_date(p_year, 1, 1), make_date(p_year + 1, 1, 1), p_basis, p_tz) m
+  JOIN orders o ON o.id = m.order_id
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
+
+-- Per vehicle: rental after line discounts; the rest of the order is not tied to one item
+CREATE OR REPLACE FUNCTION report_by_vehicle(
+  p_from date,
+  p_to date,
+  p_basis text DEFAULT 'booking',
+  p_group text DEFAULT 'vehicle',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  group_key text,
+  label text,
+  category text,
+  revenue numeric,
+  rental_days numeric,
+  unit_days numeric,
+  order_ids uuid[]
+) AS $$
+  SELECT
+    CASE WHEN p_group = 'category'
+      THEN COALESCE(v.category, 'none')
+      ELSE COALESCE(v.id::text, 'car_type:' || oi.car_type)
+    END,
+    CASE WHEN p_group = 'category'
+      THEN NULL
+      ELSE MIN(CASE WHEN v.id IS NOT NULL
+        THEN v.make || ' ' || v.model || ' (' || v.plate_number || ')'
+        ELSE oi.car_type || ' (data lama)'
+      END)
+    END,
+    MIN(v.category),
+    SUM(GREATEST(oi.subtotal - line_discount.amount, 0) * s.share),
+    SUM(COALESCE(s.days_in_range, oi.days)),
+    SUM(COALESCE(oi.quantity, 1) * COALESCE(s.days_in_range, oi.days)),
+    array_agg(DISTINCT oi.order_id)
+  FROM report_order_shares(p_from, p_to, p_basis, p_tz) s
+  JOIN order_items oi ON oi.order_id = s.order_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(round(CASE WHEN a.calculation = 'percent' THEN oi.subtotal * a.value / 100 ELSE a.value END)), 0) AS amount
+    FROM order_adjustments a
+    WHERE a.order_item_id = oi.id
+      AND a.kind = 'discount'
+  ) line_discount
+  LEFT JOIN vehicles v ON v.id = oi.vehicle_id
+  GROUP BY 1
+  ORDER BY 4 DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Per customer: the whole order total, so the rows reconcile with report_monthly
+CREATE OR REPLACE FUNCTION report_by_customer(
+  p_from date,
+  p_to date,
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  group_key text,
+  label text,
+  revenue numeric,
+  rental_days numeric,
+  unit_days numeric,
+  order_ids uuid[]
+) AS $$
+  SELECT
+    COALESCE(o.customer_id::text, 'name:' || o.customer_name),
+    MIN(COALESCE(c.name, o.customer_name)),
+    SUM(o.total_amount * s.share),
+    SUM(items.rental_days),
+    SUM(items.unit_days),
+    array_agg(DISTINCT o.id)
+  FROM report_order_shares(p_from, p_to, p_basis, p_tz) s
+  JOIN orders o ON o.id = s.order_id
+  CROSS JOIN LATERAL (
+    SELECT
+      SUM(COALESCE(s.days_in_range, oi.days)) AS rental_days,
+      SUM(COALESCE(oi.quantity, 1) * COALESCE(s.days_in_range, oi.days)) AS unit_days
+    FROM order_items oi
+    WHERE oi.order_id = o.id
+  ) items
+  LEFT JOIN customers c ON c.id = o.customer_id
+  GROUP BY 1
+  ORDER BY 3 DESC;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION report_yearly(
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (year integer, order_count bigint, total_revenue numeric) AS $$
+  SELECT
+    EXTRACT(YEAR FROM m.month_start)::integer,
+    COUNT(DISTINCT m.order_id),
+    SUM(o.total_amount * m.share)
+  FROM report_order_months(NULL, NULL, p_basis, p_tz) m
+  JOIN orders o ON o.id = m.order_id
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,496 @@
+/*
+  # Drivers and Driver Assignment
+
+  1. New Tables
+    - `drivers`
+      - `id` (uuid, primary key)
+      - `organization_id` (uuid, foreign key to organizations)
+      - `user_id` (uuid, foreign key to auth.users) - Pengguna yang mendaftarkan
+      - `name` (text, required) - Nama sopir
+      - `phone` (text, required) - Nomor HP
+      - `license_number` (text, required) - Nomor SIM, unik per organisasi
+      - `license_expiry` (date, optional) - Masa berlaku SIM
+      - `daily_fee` (numeric, default 0) - Honor sopir per hari
+      - `is_active` (boolean, default true) - Bisa dipilih di order baru
+      - `created_at` (timestamptz, default now)
+      - `updated_at` (timestamptz, default now)
+
+  2. Changes
+    - `order_items.driver_id` (uuid, optional, foreign key to drivers)
+    - `order_items.driver_daily_fee` (numeric, optional) - Honor per hari saat
+      sopir ditugaskan; diisi trigger supaya perubahan honor tidak mengubah
+      pembayaran tugas lama
+    - `save_order` stores `driver_id` for every item
+    - `merge_organization_data` moves drivers too; drivers with the same licence
+      number become one and their items point at the surviving driver
+
+  3. Constraints
+    - `order_items_no_driver_overlap`: seorang sopir tidak boleh ditugaskan di
+      dua item dengan periode sewa yang beririsan, sama seperti kendaraan
+
+  4. New Functions
+    - `find_driver_conflicts(driver_ids, start_date, end_date, exclude_order_id)`
+      - Mengembalikan tugas lain sopir tsb di periode itu, untuk form order
+    - `report_driver_payouts(year, month)`
+      - Jumlah tugas, hari dan honor tiap sopir untuk order yang mulai di bulan
+        itu; honor = jumlah hari item x honor per hari saat ditugaskan
+
+  5. Security
+    - Every member can view drivers; only owner and admin can manage them
+    - Order items keep their existing rules; staff assign drivers from the form
+    - An item's driver must belong to the order's organization, like its vehicle
+
+  6. Important Notes
+    - Order yang dibatalkan tidak ikut dicek bentrok dan tidak dihitung honornya
+    - Deleting a driver keeps historical order items (driver_id set to null)
+    - A merge keeps the fee each item snapshotted, so payouts do not change, and
+      is refused while the same driver has overlapping duties in both
+      organizations
+*/
+
+CREATE TABLE IF NOT EXISTS drivers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL DEFAULT current_org_id() REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  name text NOT NULL,
+  phone text NOT NULL,
+  license_number text NOT NULL,
+  license_expiry date,
+  daily_fee numeric(12, 2) NOT NULL DEFAULT 0 CHECK (daily_fee >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (organization_id, license_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drivers_organization_id ON drivers(organization_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS driver_id uuid REFERENCES drivers(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS driver_daily_fee numeric(12, 2);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_driver_id ON order_items(driver_id);
+
+ALTER TABLE drivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization drivers"
+  ON drivers FOR SELECT
+  TO authenticated
+  USING (organization_id = current_org_id());
+
+CREATE POLICY "Admins can create organization drivers"
+  ON drivers FOR INSERT
+  TO authenticated
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Admins can update organization drivers"
+  ON drivers FOR UPDATE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']))
+  WITH CHECK (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+CREATE POLICY "Admins can delete organization drivers"
+  ON drivers FOR DELETE
+  TO authenticated
+  USING (organization_id = current_org_id() AND has_org_role(ARRAY['owner', 'admin']));
+
+-- Normalise licence numbers so the same SIM is not registered twice
+CREATE OR REPLACE FUNCTION normalize_driver_license()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.license_number = upper(regexp_replace(trim(NEW.license_number), '\s+', '', 'g'));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_drivers_license_number
+  BEFORE INSERT OR UPDATE OF license_number ON drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_driver_license();
+
+CREATE TRIGGER update_drivers_updated_at
+  BEFORE UPDATE ON drivers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Snapshot the driver's fee when a driver is (re)assigned to an item; a merge keeps the old snapshot
+CREATE OR REPLACE FUNCTION set_order_item_driver_fee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.driver_id IS NULL THEN
+    NEW.driver_daily_fee := NULL;
+  ELSIF TG_OP = 'INSERT'
+    OR (NEW.driver_id IS DISTINCT FROM OLD.driver_id
+      AND COALESCE(current_setting('app.merging_organizations', true), '') <> 'on')
+  THEN
+    SELECT daily_fee INTO NEW.driver_daily_fee FROM drivers WHERE id = NEW.driver_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_order_items_driver_fee
+  BEFORE INSERT OR UPDATE OF driver_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_item_driver_fee();
+
+-- Items may only use vehicles and drivers of the order's own organization
+CREATE OR REPLACE FUNCTION check_order_item_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.vehicle_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM vehicles v
+    JOIN orders o ON o.organization_id = v.organization_id
+    WHERE v.id = NEW.vehicle_id
+      AND o.id = NEW.order_id
+  ) THEN
+    RAISE EXCEPTION 'Kendaraan % tidak terdaftar di organisasi order ini', NEW.vehicle_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF NEW.driver_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM drivers d
+    JOIN orders o ON o.organization_id = d.organization_id
+    WHERE d.id = NEW.driver_id
+      AND o.id = NEW.order_id
+  ) THEN
+    RAISE EXCEPTION 'Sopir % tidak terdaftar di organisasi order ini', NEW.driver_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_order_items_organization ON order_items;
+CREATE TRIGGER check_order_items_organization
+  BEFORE INSERT OR UPDATE OF order_id, vehicle_id, driver_id ON order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_order_item_organization();
+
+-- Database-level guard against double booking a driver
+ALTER TABLE order_items
+  ADD CONSTRAINT order_items_no_driver_overlap
+  EXCLUDE USING gist (driver_id WITH =, rental_period WITH &&)
+  WHERE (driver_id IS NOT NULL AND booking_active);
+
+-- Conflict lookup used by the order form
+CREATE OR REPLACE FUNCTION find_driver_conflicts(
+  p_driver_ids uuid[],
+  p_start_date date,
+  p_end_date date,
+  p_exclude_order_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  order_id uuid,
+  driver_id uuid,
+  driver_name text,
+  car_type text,
+  customer_name text,
+  rental_start_date date,
+  rental_end_date date
+) AS $$
+  SELECT o.id, oi.driver_id, d.name, oi.car_type, o.customer_name, o.rental_start_date, o.rental_end_date
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN drivers d ON d.id = oi.driver_id
+  WHERE oi.driver_id = ANY (p_driver_ids)
+    AND oi.booking_active
+    AND oi.rental_period && daterange(p_start_date, p_end_date, '[]')
+    AND (p_exclude_order_id IS NULL OR o.id <> p_exclude_order_id)
+  ORDER BY o.rental_start_date;
+$$ LANGUAGE sql STABLE;
+
+-- Monthly payout per driver, by the month the rental starts
+CREATE OR REPLACE FUNCTION report_driver_payouts(p_year integer, p_month integer)
+RETURNS TABLE (
+  driver_id uuid,
+  driver_name text,
+  trip_count bigint,
+  total_days bigint,
+  payout numeric
+) AS $$
+  SELECT
+    d.id,
+    d.name,
+    COUNT(oi.id),
+    COALESCE(SUM(oi.days), 0),
+    COALESCE(SUM(oi.days * oi.driver_daily_fee), 0)
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  JOIN drivers d ON d.id = oi.driver_id
+  WHERE oi.booking_active
+    AND o.rental_start_date >= make_date(p_year, p_month, 1)
+    AND o.rental_start_date < make_date(p_year, p_month, 1) + interval '1 month'
+  GROUP BY d.id, d.name
+  ORDER BY d.name;
+$$ LANGUAGE sql STABLE;
+
+-- save_order keeps its signature; items now carry driver_id
+CREATE OR REPLACE FUNCTION save_order(
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb,
+  p_adjustments jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_order_id uuid;
+  saved_item_ids uuid[] := '{}';
+  item jsonb;
+  item_id uuid;
+  adjustment jsonb;
+  adjustment_position bigint;
+  adjustment_id uuid;
+  adjustment_item_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order harus memiliki minimal satu item'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_order_id IS NULL THEN
+    INSERT INTO orders (
+      user_id, customer_name, customer_phone, customer_address,
+      rental_start_date, rental_end_date, notes
+    )
+    VALUES (
+      auth.uid(),
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_address', ''),
+      (p_order->>'rental_start_date')::date,
+      (p_order->>'rental_end_date')::date,
+      NULLIF(p_order->>'notes', '')
+    )
+    RETURNING id INTO saved_order_id;
+  ELSE
+    UPDATE orders
+    SET customer_name = p_order->>'customer_name',
+        customer_phone = p_order->>'customer_phone',
+        customer_address = NULLIF(p_order->>'customer_address', ''),
+        rental_start_date = (p_order->>'rental_start_date')::date,
+        rental_end_date = (p_order->>'rental_end_date')::date,
+        notes = NULLIF(p_order->>'notes', '')
+    WHERE id = p_order_id
+    RETURNING id INTO saved_order_id;
+
+    IF saved_order_id IS NULL THEN
+      RAISE EXCEPTION 'Order % tidak ditemukan', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer in the form first, so their vehicles and drivers are free
+  DELETE FROM order_items
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_items)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    item_id := NULLIF(item->>'id', '')::uuid;
+
+    IF item_id IS NOT NULL THEN
+      UPDATE order_items
+      SET vehicle_id = NULLIF(item->>'vehicle_id', '')::uuid,
+          driver_id = NULLIF(item->>'driver_id', '')::uuid,
+          car_type = item->>'car_type',
+          quantity = (item->>'quantity')::integer,
+          daily_rate = (item->>'daily_rate')::numeric,
+          days = (item->>'days')::integer
+      WHERE id = item_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        saved_item_ids := saved_item_ids || item_id;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (order_id, vehicle_id, driver_id, car_type, quantity, daily_rate, days, subtotal)
+    VALUES (
+      saved_order_id,
+      NULLIF(item->>'vehicle_id', '')::uuid,
+      NULLIF(item->>'driver_id', '')::uuid,
+      item->>'car_type',
+      (item->>'quantity')::integer,
+      (item->>'daily_rate')::numeric,
+      (item->>'days')::integer,
+      0
+    )
+    RETURNING id INTO item_id;
+
+    saved_item_ids := saved_item_ids || item_id;
+  END LOOP;
+
+  -- Adjustments follow the same rule as items: update by id, delete the rest, insert new
+  DELETE FROM order_adjustments
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_adjustments)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR adjustment, adjustment_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_adjustments) WITH ORDINALITY
+  LOOP
+    adjustment_id := NULLIF(adjustment->>'id', '')::uuid;
+    adjustment_item_id := saved_item_ids[(NULLIF(adjustment->>'item_index', ''))::integer + 1];
+
+    IF adjustment_id IS NOT NULL THEN
+      UPDATE order_adjustments
+      SET order_item_id = adjustment_item_id,
+          kind = adjustment->>'kind',
+          charge_type = NULLIF(adjustment->>'charge_type', ''),
+          label = adjustment->>'label',
+          calculation = adjustment->>'calculation',
+          value = (adjustment->>'value')::numeric,
+          sort_order = adjustment_position
+      WHERE id = adjustment_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_adjustments (order_id, order_item_id, kind, charge_type, label, calculation, value, sort_order)
+    VALUES (
+      saved_order_id,
+      adjustment_item_id,
+      adjustment->>'kind',
+      NULLIF(adjustment->>'charge_type', ''),
+      adjustment->>'label',
+      adjustment->>'calculation',
+      (adjustment->>'value')::numeric,
+      adjustment_position
+    );
+  END LOOP;
+
+  RETURN saved_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Organization merges bring drivers along instead of cascading them away
+CREATE OR REPLACE FUNCTION merge_organization_data(p_from uuid, p_to uuid)
+RETURNS void AS $$
+DECLARE
+  conflicting_plates text;
+  conflicting_drivers text;
+BEGIN
+  -- Same-plate vehicles booked in both organizations at the same time cannot become one
+  SELECT string_agg(DISTINCT source.plate_number, ', ' ORDER BY source.plate_number)
+  INTO conflicting_plates
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  JOIN order_items source_item ON source_item.vehicle_id = source.id AND source_item.booking_active
+  JOIN order_items target_item ON target_item.vehicle_id = target.id AND target_item.booking_active
+  WHERE source.organization_id = p_from
+    AND source_item.rental_period && target_item.rental_period;
+
+  IF conflicting_plates IS NOT NULL THEN
+    RAISE EXCEPTION 'Kendaraan % sudah dibooking di tim tujuan pada periode yang sama. Ubah atau batalkan order yang bentrok sebelum bergabung.', conflicting_plates
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- The same goes for drivers with the same licence on overlapping duties
+  SELECT string_agg(DISTINCT source.name, ', ' ORDER BY source.name)
+  INTO conflicting_drivers
+  FROM drivers source
+  JOIN drivers target ON target.organization_id = p_to AND target.license_number = source.license_number
+  JOIN order_items source_item ON source_item.driver_id = source.id AND source_item.booking_active
+  JOIN order_items target_item ON target_item.driver_id = target.id AND target_item.booking_active
+  WHERE source.organization_id = p_from
+    AND source_item.rental_period && target_item.rental_period;
+
+  IF conflicting_drivers IS NOT NULL THEN
+    RAISE EXCEPTION 'Sopir % sudah bertugas di tim tujuan pada periode yang sama. Ubah atau batalkan order yang bentrok sebelum bergabung.', conflicting_drivers
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  -- Orders move first, so their items are never pointed at a vehicle of another organization.
+  -- Invoice numbers already used in the target get a suffix
+  UPDATE orders o
+  SET organization_id = p_to,
+      invoice_number = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM orders existing
+          WHERE existing.organization_id = p_to
+            AND existing.invoice_number = o.invoice_number
+        )
+        THEN o.invoice_number || '-' || upper(substr(p_from::text, 1, 4))
+        ELSE o.invoice_number
+      END
+  WHERE o.organization_id = p_from;
+
+  -- Vehicles with the same plate become one
+  UPDATE order_items oi
+  SET vehicle_id = target.id
+  FROM vehicles source
+  JOIN vehicles target ON target.organization_id = p_to AND target.plate_number = source.plate_number
+  WHERE source.organization_id = p_from
+    AND oi.vehicle_id = source.id;
+
+  DELETE FROM vehicles source
+  USING vehicles target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.plate_number = source.plate_number;
+
+  UPDATE vehicles SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Drivers with the same licence become one; items keep the fee snapshotted when assigned
+  PERFORM set_config('app.merging_organizations', 'on', true);
+  UPDATE order_items oi
+  SET driver_id = target.id
+  FROM drivers source
+  JOIN drivers target ON target.organization_id = p_to AND target.license_number = source.license_number
+  WHERE source.organization_id = p_from
+    AND oi.driver_id = source.id;
+  PERFORM set_config('app.merging_organizations', 'off', true);
+
+  DELETE FROM drivers source
+  USING drivers target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.license_number = source.license_number;
+
+  UPDATE drivers SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Customers with the same phone number become one
+  UPDATE orders o
+  SET customer_id = target.id
+  FROM customers source
+  JOIN customers target ON target.organization_id = p_to AND target.phone_normalized = source.phone_normalized
+  WHERE source.organization_id = p_from
+    AND o.customer_id = source.id;
+
+  DELETE FROM customers source
+  USING customers target
+  WHERE source.organization_id = p_from
+    AND target.organization_id = p_to
+    AND target.phone_normalized = source.phone_normalized;
+
+  UPDATE customers SET organization_id = p_to WHERE organization_id = p_from;
+
+  -- Counters continue after the highest number of either organization
+  INSERT INTO invoice_counters (organization_id, scope, last_value)
+  SELECT p_to, scope, last_value
+  FROM invoice_counters
+  WHERE organization_id = p_from
+  ON CONFLICT (organization_id, scope)
+  DO UPDATE SET last_value = GREATEST(invoice_counters.last_value, EXCLUDED.last_value);
+
+  -- History of the merged orders stays readable in the new organization
+  UPDATE audit_log SET organization_id = p_to WHERE organization_id = p_from;
+
+  DELETE FROM organizations WHERE id = p_from;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_organization_data(uuid, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,165 @@
+/*
+  # Vehicle Handover and Return Inspections
+
+  1. New Tables
+    - `vehicle_inspections`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `order_item_id` (uuid, foreign key to order_items) - Kendaraan yang diperiksa
+      - `kind` (text) - pickup (serah terima) atau return (pengembalian)
+      - `odometer` (integer) - Kilometer saat pemeriksaan
+      - `fuel_level` (smallint) - Isi BBM dalam persen, 0-100
+      - `equipment` (jsonb) - Checklist perlengkapan, misal {"spare_tire": true}
+      - `damage_notes` (text, optional) - Catatan kerusakan atau lecet
+      - `photo_paths` (text[]) - Path foto di storage `inspection-photos`
+      - `customer_signer_name` / `customer_signature` (text) - Nama dan tanda
+        tangan pelanggan, tanda tangan disimpan sebagai data URL PNG
+      - `staff_signer_name` / `staff_signature` (text) - Nama dan tanda tangan petugas
+      - `user_id` (uuid, foreign key to auth.users) - Pengguna yang mengisi
+      - `inspected_at`, `created_at`, `updated_at` (timestamptz)
+    - One pickup and one return inspection per order item
+    - The inspected item must belong to the inspection's order
+
+  2. Storage
+    - Private bucket `inspection-photos`; files live in `<order_id>/` and are
+      shown through signed URLs
+    - Access follows the order's organization rather than the path, so photos
+      stay readable after the order moves in an organization merge
+
+  3. Security
+    - Same rules as order items: members can view, owner/admin/staff can write
+*/
+
+-- Lets inspections reference an item together with its order
+ALTER TABLE order_items
+  ADD CONSTRAINT order_items_id_order_id_key UNIQUE (id, order_id);
+
+CREATE TABLE IF NOT EXISTS vehicle_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('pickup', 'return')),
+  odometer integer NOT NULL CHECK (odometer >= 0),
+  fuel_level smallint NOT NULL CHECK (fuel_level BETWEEN 0 AND 100),
+  equipment jsonb NOT NULL DEFAULT '{}'::jsonb,
+  damage_notes text,
+  photo_paths text[] NOT NULL DEFAULT '{}',
+  customer_signer_name text NOT NULL,
+  customer_signature text NOT NULL,
+  staff_signer_name text NOT NULL,
+  staff_signature text NOT NULL,
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  inspected_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (order_item_id, kind),
+  FOREIGN KEY (order_item_id, order_id) REFERENCES order_items(id, order_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_vehicle_inspections_order_id ON vehicle_inspections(order_id);
+
+CREATE TRIGGER update_vehicle_inspections_updated_at
+  BEFORE UPDATE ON vehicle_inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE vehicle_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization vehicle inspections"
+  ON vehicle_inspections FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = vehicle_inspections.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can create organization vehicle inspections"
+  ON vehicle_inspections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = vehicle_inspections.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can update organization vehicle inspections"
+  ON vehicle_inspections FOR UPDATE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = vehicle_inspections.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  )
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = vehicle_inspections.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can delete organization vehicle inspections"
+  ON vehicle_inspections FOR DELETE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = vehicle_inspections.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Storage bucket for inspection photos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('inspection-photos', 'inspection-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Inspection photos live in the `<order_id>/` folder of an order in the caller's organization
+CREATE POLICY "Members can view organization inspection photos"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'inspection-photos'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id::text = (storage.foldername(name))[1]
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can upload organization inspection photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'inspection-photos'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id::text = (storage.foldername(name))[1]
+      AND orders.organization_id = current_org_id()
+    )
+    AND has_org_role(ARRAY['owner', 'admin', 'staff'])
+  );
+
+CREATE POLICY "Staff can delete organization inspection photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'inspection-photos'
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id::text = (storage.foldername(name))[1]
+      AND orders.organization_id = current_org_id()
+    )
+    AND has_org_role(ARRAY['owner', 'admin', 'staff'])
+  );
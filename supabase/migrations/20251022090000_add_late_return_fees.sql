@@ -0,0 +1,273 @@
+/*
+  # Late Return Fees and Early Return Adjustments
+
+  1. Changes
+    - `business_settings` gains the late-return policy
+      - `return_time` (time, default 12:00) - Batas jam pengembalian di tanggal selesai sewa
+      - `late_grace_hours` (integer, default 2) - Toleransi sebelum denda dihitung
+      - `late_fee_unit` (text, default 'hour') - Denda dihitung per jam atau per hari
+      - `late_fee_multiplier` (numeric, default 0.1) - Denda per jam/hari sebagai
+        kelipatan harga sewa per hari, misal 0.1 = 10% per jam
+      - `early_return_refund_percent` (numeric, default 0) - Potongan untuk hari
+        yang tidak terpakai, dalam persen harga sewa per hari; 0 = tidak ada
+    - `order_adjustments.charge_type` accepts `late_return`
+    - `order_adjustments.source` (text, default 'manual') - `return` untuk baris
+      yang dibuat otomatis saat pengembalian dicatat
+    - `orders.returned_at` is now the actual return time entered by staff; only
+      `record_order_return` may set it, the status trigger still stamps now() for
+      every other write
+
+  2. New Functions
+    - `record_order_return(order_id, returned_at, apply_early_return, tz)`
+      - Marks a picked-up order as returned, or corrects the return time of a
+        returned order
+      - Replaces the order's previous automatic lines with a late fee charge or,
+        when asked, an early-return discount
+      - The return time may not be before pickup (or the rental start date for
+        orders picked up before pickup times were recorded) nor in the future;
+        a few minutes of clock difference with the device are allowed
+    - `report_monthly` also returns `late_fee_amount`; `charge_amount` no
+      longer includes late fees, so the columns still add up to the total
+
+  3. Calculation
+    - Batas kembali = tanggal selesai sewa + `return_time`, di zona waktu pengguna
+    - Keterlambatan dihitung setelah masa toleransi; jam atau hari yang sudah
+      berjalan dihitung penuh
+    - Denda = jumlah jam/hari x kelipatan x total harga sewa per hari semua item
+    - Potongan lebih awal = hari penuh yang tidak terpakai x persen x total harga
+      sewa per hari, tidak lebih dari lama sewa
+    - `src/lib/lateReturn.ts` mirrors this for the preview in the return form
+*/
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS return_time time NOT NULL DEFAULT '12:00',
+  ADD COLUMN IF NOT EXISTS late_grace_hours integer NOT NULL DEFAULT 2 CHECK (late_grace_hours >= 0),
+  ADD COLUMN IF NOT EXISTS late_fee_unit text NOT NULL DEFAULT 'hour' CHECK (late_fee_unit IN ('hour', 'day')),
+  ADD COLUMN IF NOT EXISTS late_fee_multiplier numeric(6, 3) NOT NULL DEFAULT 0.1 CHECK (late_fee_multiplier >= 0),
+  ADD COLUMN IF NOT EXISTS early_return_refund_percent numeric(5, 2) NOT NULL DEFAULT 0
+    CHECK (early_return_refund_percent BETWEEN 0 AND 100);
+
+ALTER TABLE order_adjustments
+  DROP CONSTRAINT IF EXISTS order_adjustments_charge_type_check;
+
+ALTER TABLE order_adjustments
+  ADD CONSTRAINT order_adjustments_charge_type_check
+  CHECK (charge_type IN ('driver', 'fuel', 'delivery', 'pickup', 'out_of_town', 'late_return', 'other'));
+
+-- Late fees are always a fixed amount so reports can sum them directly
+ALTER TABLE order_adjustments
+  ADD CONSTRAINT order_adjustments_late_return_fixed_check
+  CHECK (charge_type IS DISTINCT FROM 'late_return' OR calculation = 'fixed');
+
+ALTER TABLE order_adjustments
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'return'));
+
+-- Same rules as before, except that record_order_return may set or correct returned_at
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  recording_return boolean := COALESCE(current_setting('app.recording_return', true), '') = 'on';
+  entered_returned_at timestamptz := NEW.returned_at;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'booked' THEN
+      RAISE EXCEPTION 'Order baru harus berstatus booked, bukan %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+    NEW.picked_up_at = NULL;
+    NEW.returned_at = NULL;
+    NEW.closed_at = NULL;
+    NEW.cancelled_at = NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    IF NEW.picked_up_at IS DISTINCT FROM OLD.picked_up_at
+      OR (NEW.returned_at IS DISTINCT FROM OLD.returned_at AND NOT recording_return)
+      OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+      OR NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+    THEN
+      RAISE EXCEPTION 'Waktu status order hanya bisa diisi saat status berpindah'
+        USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'booked' AND NEW.status IN ('picked_up', 'cancelled'))
+    OR (OLD.status = 'picked_up' AND NEW.status = 'returned')
+    OR (OLD.status = 'returned' AND NEW.status = 'closed')
+  ) THEN
+    RAISE EXCEPTION 'Perubahan status dari % ke % tidak diizinkan', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.picked_up_at = OLD.picked_up_at;
+  NEW.returned_at = OLD.returned_at;
+  NEW.closed_at = OLD.closed_at;
+  NEW.cancelled_at = OLD.cancelled_at;
+
+  CASE NEW.status
+    WHEN 'picked_up' THEN NEW.picked_up_at = now();
+    WHEN 'returned' THEN
+      NEW.returned_at = CASE WHEN recording_return THEN entered_returned_at ELSE now() END;
+    WHEN 'closed' THEN NEW.closed_at = now();
+    WHEN 'cancelled' THEN NEW.cancelled_at = now();
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_order_return(
+  p_order_id uuid,
+  p_returned_at timestamptz,
+  p_apply_early_return boolean DEFAULT false,
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS void AS $$
+DECLARE
+  target orders%ROWTYPE;
+  settings business_settings%ROWTYPE;
+  due_at timestamptz;
+  daily_base numeric;
+  late_hours numeric;
+  late_units integer;
+  early_days integer;
+  amount numeric;
+  next_sort integer;
+BEGIN
+  SELECT * INTO target FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % tidak ditemukan', p_order_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF target.status NOT IN ('picked_up', 'returned') THEN
+    RAISE EXCEPTION 'Order berstatus % tidak bisa dicatat kembali', target.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_returned_at IS NULL
+    OR p_returned_at < COALESCE(target.picked_up_at, target.rental_start_date::timestamp AT TIME ZONE p_tz)
+  THEN
+    RAISE EXCEPTION 'Waktu kembali tidak boleh sebelum kendaraan diambil'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Some slack for a device clock that runs slightly ahead
+  IF p_returned_at > now() + interval '5 minutes' THEN
+    RAISE EXCEPTION 'Waktu kembali tidak boleh di masa depan'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Transaction-local flag; PostgREST clients cannot call set_config themselves
+  PERFORM set_config('app.recording_return', 'on', true);
+  UPDATE orders
+  SET status = 'returned',
+      returned_at = p_returned_at
+  WHERE id = p_order_id;
+  PERFORM set_config('app.recording_return', 'off', true);
+
+  -- Recording the return again replaces the previous automatic lines
+  DELETE FROM order_adjustments
+  WHERE order_id = p_order_id AND source = 'return';
+
+  -- Organizations that never saved their settings use the column defaults
+  SELECT * INTO settings FROM business_settings WHERE organization_id = target.organization_id;
+
+  due_at := (target.rental_end_date + COALESCE(settings.return_time, '12:00'::time)) AT TIME ZONE p_tz;
+
+  SELECT COALESCE(SUM(quantity * daily_rate), 0) INTO daily_base
+  FROM order_items
+  WHERE order_id = p_order_id;
+
+  SELECT COALESCE(MAX(sort_order), 0) INTO next_sort
+  FROM order_adjustments
+  WHERE order_id = p_order_id;
+
+  late_hours := EXTRACT(EPOCH FROM p_returned_at - due_at) / 3600
+    - COALESCE(settings.late_grace_hours, 2);
+
+  IF late_hours > 0 THEN
+    late_units := CASE COALESCE(settings.late_fee_unit, 'hour')
+      WHEN 'hour' THEN ceil(late_hours)
+      ELSE ceil(late_hours / 24)
+    END;
+    amount := round(late_units * COALESCE(settings.late_fee_multiplier, 0.1) * daily_base);
+
+    IF amount > 0 THEN
+      INSERT INTO order_adjustments (order_id, kind, charge_type, label, calculation, value, sort_order, source)
+      VALUES (
+        p_order_id,
+        'charge',
+        'late_return',
+        format('Denda Keterlambatan %s %s', late_units,
+          CASE COALESCE(settings.late_fee_unit, 'hour') WHEN 'hour' THEN 'jam' ELSE 'hari' END),
+        'fixed',
+        amount,
+        next_sort + 1,
+        'return'
+      );
+    END IF;
+  ELSIF p_apply_early_return AND COALESCE(settings.early_return_refund_percent, 0) > 0 THEN
+    early_days := LEAST(
+      floor(EXTRACT(EPOCH FROM due_at - p_returned_at) / 86400),
+      target.rental_end_date - target.rental_start_date + 1
+    );
+    amount := round(early_days * daily_base * settings.early_return_refund_percent / 100);
+
+    IF early_days >= 1 AND amount > 0 THEN
+      INSERT INTO order_adjustments (order_id, kind, label, calculation, value, sort_order, source)
+      VALUES (
+        p_order_id,
+        'discount',
+        format('Pengembalian Lebih Awal %s hari', early_days),
+        'fixed',
+        amount,
+        next_sort + 1,
+        'return'
+      );
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Monthly report: late fees get their own column
+DROP FUNCTION IF EXISTS report_monthly(integer, text, text);
+
+CREATE OR REPLACE FUNCTION report_monthly(
+  p_year integer,
+  p_basis text DEFAULT 'booking',
+  p_tz text DEFAULT 'Asia/Jakarta'
+)
+RETURNS TABLE (
+  month integer,
+  order_count bigint,
+  total_revenue numeric,
+  rental_revenue numeric,
+  discount_amount numeric,
+  charge_amount numeric,
+  late_fee_amount numeric,
+  tax_amount numeric
+) AS $$
+  SELECT
+    EXTRACT(MONTH FROM m.month_start)::integer,
+    COUNT(DISTINCT m.order_id),
+    SUM(o.total_amount * m.share),
+    SUM(o.subtotal_amount * m.share),
+    SUM(o.discount_amount * m.share),
+    SUM((o.charge_amount - late.amount) * m.share),
+    SUM(late.amount * m.share),
+    SUM(o.tax_amount * m.share)
+  FROM report_order_months(make_date(p_year, 1, 1), make_date(p_year + 1, 1, 1), p_basis, p_tz) m
+  JOIN orders o ON o.id = m.order_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(a.value), 0) AS amount
+    FROM order_adjustments a
+    WHERE a.order_id = o.id AND a.charge_type = 'late_return'
+  ) late
+  GROUP BY 1
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE;
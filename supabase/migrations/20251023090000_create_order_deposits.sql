@@ -0,0 +1,277 @@
+/*
+  # Security Deposits (Jaminan)
+
+  1. New Tables
+    - `order_deposits`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `deposit_type` (text) - cash (uang tunai), motorcycle (motor),
+        id_card (KTP / identitas) atau other
+      - `amount` (numeric) - Nominal jaminan; wajib untuk uang tunai, opsional
+        sebagai taksiran nilai barang
+      - `description` (text) - Keterangan barang, misal "Honda Beat B 1234 XYZ
+        + STNK"; wajib untuk jaminan barang
+      - `received_date` (date) - Tanggal jaminan diterima
+      - `status` (text) - held (dipegang), returned (dikembalikan) atau
+        withheld (dipotong / ditahan)
+      - `settled_date` (date) - Tanggal jaminan dikembalikan atau dipotong
+      - `withheld_amount` (numeric) - Nominal yang dipotong
+      - `withheld_reason` (text) - Alasan pemotongan
+      - `withheld_for` (text) - damage (kerusakan), late_fee (denda
+        keterlambatan) atau other
+      - `payment_id` (uuid, foreign key to payments) - Pembayaran yang dibuat
+        dari potongan jaminan tunai
+      - `adjustment_id` (uuid, foreign key to order_adjustments) - Biaya ganti
+        rugi yang dibuat saat jaminan dipotong untuk kerusakan
+      - `user_id` (uuid, foreign key to auth.users) - Pengguna yang mencatat
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `payments.method` accepts `deposit` for amounts taken from a cash deposit
+    - `order_adjustments.charge_type` accepts `damage`
+    - `order_adjustments.source` accepts `deposit`
+    - Deposits are included in the audit log
+
+  3. New Functions
+    - `settle_order_deposit(deposit_id, status, settled_date, withheld_amount,
+      withheld_reason, withheld_for)`
+      - Returns or withholds a deposit, or puts it back to held
+      - Withholding a cash deposit records the withheld amount as a payment on
+        the order, so it settles the late fee or damage charge
+      - Withholding for damage also adds a damage charge to the order
+      - Settling again replaces the payment and charge of the previous
+        settlement, so a mistake can be corrected
+      - SECURITY DEFINER so staff can replace the previous payment, which they
+        may not delete directly; the caller's role and organization are
+        checked explicitly
+    - Deleting a deposit also deletes the payment and charge its settlement created
+
+  4. Security
+    - Same rules as payments: members can view, owner/admin/staff can write,
+      only owner/admin can delete
+    - Clients may only write the deposit details (type, amount, description,
+      received date); status, withheld fields and the payment/charge links are
+      written by `settle_order_deposit` alone
+    - Undoing a settlement only deletes a payment or charge that belongs to the
+      same order and was created from a deposit
+*/
+
+CREATE TABLE IF NOT EXISTS order_deposits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  deposit_type text NOT NULL CHECK (deposit_type IN ('cash', 'motorcycle', 'id_card', 'other')),
+  amount numeric(12, 2) CHECK (amount > 0),
+  description text,
+  received_date date NOT NULL DEFAULT CURRENT_DATE,
+  status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'returned', 'withheld')),
+  settled_date date,
+  withheld_amount numeric(12, 2) CHECK (withheld_amount > 0),
+  withheld_reason text,
+  withheld_for text CHECK (withheld_for IN ('damage', 'late_fee', 'other')),
+  payment_id uuid REFERENCES payments(id) ON DELETE SET NULL,
+  adjustment_id uuid REFERENCES order_adjustments(id) ON DELETE SET NULL,
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (deposit_type <> 'cash' OR amount IS NOT NULL),
+  CHECK (deposit_type = 'cash' OR btrim(COALESCE(description, '')) <> ''),
+  CHECK ((status = 'held') = (settled_date IS NULL)),
+  CHECK (settled_date IS NULL OR settled_date >= received_date),
+  CHECK ((status = 'withheld') = (withheld_amount IS NOT NULL)),
+  CHECK (status <> 'withheld' OR (btrim(COALESCE(withheld_reason, '')) <> '' AND withheld_for IS NOT NULL)),
+  CHECK (deposit_type <> 'cash' OR withheld_amount IS NULL OR withheld_amount <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_deposits_order_id ON order_deposits(order_id);
+
+CREATE TRIGGER update_order_deposits_updated_at
+  BEFORE UPDATE ON order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE order_deposits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization order deposits"
+  ON order_deposits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deposits.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can create organization order deposits"
+  ON order_deposits FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deposits.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+CREATE POLICY "Staff can update organization order deposits"
+  ON order_deposits FOR UPDATE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deposits.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  )
+  WITH CHECK (
+    has_org_role(ARRAY['owner', 'admin', 'staff'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deposits.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Settlement columns point at rows that get deleted later, so only settle_order_deposit may write them
+REVOKE INSERT, UPDATE ON order_deposits FROM anon, authenticated;
+GRANT INSERT (order_id, deposit_type, amount, description, received_date) ON order_deposits TO authenticated;
+GRANT UPDATE (deposit_type, amount, description, received_date) ON order_deposits TO authenticated;
+
+CREATE POLICY "Admins can delete organization order deposits"
+  ON order_deposits FOR DELETE
+  TO authenticated
+  USING (
+    has_org_role(ARRAY['owner', 'admin'])
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_deposits.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
+
+-- Amounts taken from a cash deposit are recorded as payments
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_method_check;
+ALTER TABLE payments ADD CONSTRAINT payments_method_check
+  CHECK (method IN ('cash', 'transfer', 'qris', 'deposit'));
+
+ALTER TABLE order_adjustments DROP CONSTRAINT IF EXISTS order_adjustments_charge_type_check;
+ALTER TABLE order_adjustments ADD CONSTRAINT order_adjustments_charge_type_check
+  CHECK (charge_type IN ('driver', 'fuel', 'delivery', 'pickup', 'out_of_town', 'late_return', 'damage', 'other'));
+
+ALTER TABLE order_adjustments DROP CONSTRAINT IF EXISTS order_adjustments_source_check;
+ALTER TABLE order_adjustments ADD CONSTRAINT order_adjustments_source_check
+  CHECK (source IN ('manual', 'return', 'deposit'));
+
+-- Deposits are audited like payments
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_table_name_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_table_name_check
+  CHECK (table_name IN ('orders', 'order_items', 'order_adjustments', 'payments', 'order_deposits'));
+
+CREATE TRIGGER audit_order_deposits
+  AFTER INSERT OR UPDATE OR DELETE ON order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION log_audit_event();
+
+CREATE OR REPLACE FUNCTION settle_order_deposit(
+  p_deposit_id uuid,
+  p_status text,
+  p_settled_date date DEFAULT CURRENT_DATE,
+  p_withheld_amount numeric DEFAULT NULL,
+  p_withheld_reason text DEFAULT NULL,
+  p_withheld_for text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  target order_deposits%ROWTYPE;
+  withheld boolean := p_status = 'withheld';
+  new_payment_id uuid;
+  new_adjustment_id uuid;
+  next_sort integer;
+BEGIN
+  IF NOT has_org_role(ARRAY['owner', 'admin', 'staff']) THEN
+    RAISE EXCEPTION 'Anda tidak memiliki akses untuk menyelesaikan jaminan'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT d.* INTO target
+  FROM order_deposits d
+  JOIN orders o ON o.id = d.order_id
+  WHERE d.id = p_deposit_id
+    AND o.organization_id = current_org_id()
+  FOR UPDATE OF d;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Jaminan % tidak ditemukan', p_deposit_id
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF withheld AND p_withheld_for = 'damage' THEN
+    SELECT COALESCE(MAX(sort_order), 0) INTO next_sort
+    FROM order_adjustments
+    WHERE order_id = target.order_id;
+
+    INSERT INTO order_adjustments (order_id, kind, charge_type, label, calculation, value, sort_order, source)
+    VALUES (
+      target.order_id,
+      'charge',
+      'damage',
+      format('Ganti Rugi Kerusakan (%s)', btrim(p_withheld_reason)),
+      'fixed',
+      p_withheld_amount,
+      next_sort + 1,
+      'deposit'
+    )
+    RETURNING id INTO new_adjustment_id;
+  END IF;
+
+  -- Only cash can settle the bill; a withheld item stays with us until paid
+  IF withheld AND target.deposit_type = 'cash' THEN
+    INSERT INTO payments (order_id, user_id, amount, paid_at, method, note)
+    VALUES (
+      target.order_id,
+      auth.uid(),
+      p_withheld_amount,
+      p_settled_date,
+      'deposit',
+      format('Potong jaminan: %s', btrim(p_withheld_reason))
+    )
+    RETURNING id INTO new_payment_id;
+  END IF;
+
+  -- Constraints on order_deposits validate the new settlement
+  UPDATE order_deposits
+  SET status = p_status,
+      settled_date = CASE WHEN p_status = 'held' THEN NULL ELSE p_settled_date END,
+      withheld_amount = CASE WHEN withheld THEN p_withheld_amount END,
+      withheld_reason = CASE WHEN withheld THEN NULLIF(btrim(p_withheld_reason), '') END,
+      withheld_for = CASE WHEN withheld THEN p_withheld_for END,
+      payment_id = new_payment_id,
+      adjustment_id = new_adjustment_id
+  WHERE id = p_deposit_id;
+
+  -- Undo the previous settlement once nothing points at it anymore
+  DELETE FROM payments
+  WHERE id = target.payment_id AND order_id = target.order_id AND method = 'deposit';
+  DELETE FROM order_adjustments
+  WHERE id = target.adjustment_id AND order_id = target.order_id AND source = 'deposit';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A deleted deposit takes its settlement with it, so the order is not left credited
+CREATE OR REPLACE FUNCTION delete_order_deposit_settlement()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM payments
+  WHERE id = OLD.payment_id AND order_id = OLD.order_id AND method = 'deposit';
+  DELETE FROM order_adjustments
+  WHERE id = OLD.adjustment_id AND order_id = OLD.order_id AND source = 'deposit';
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER delete_order_deposits_settlement
+  AFTER DELETE ON order_deposits
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_order_deposit_settlement();
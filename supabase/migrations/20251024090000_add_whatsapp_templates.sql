@@ -0,0 +1,21 @@
+/*
+  # WhatsApp Message Templates
+
+  1. Changes
+    - `business_settings.whatsapp_templates` (jsonb, default '[]') - Template
+      pesan WhatsApp, array of `{ "id", "name", "body" }`
+      - `body` memakai placeholder seperti `{nama_pelanggan}` atau
+        `{sisa_tagihan}` yang diisi dari data order dan pengaturan usaha
+
+  2. Important Notes
+    - An empty array means the organization has not edited its templates yet;
+      the app then uses the built-in templates in `src/lib/whatsapp.ts`
+      (konfirmasi booking, pengingat pembayaran, pengingat pengambilan,
+      terima kasih)
+    - Placeholders are filled in the browser; the message is sent by opening
+      a `wa.me` link, nothing is sent from the server
+*/
+
+ALTER TABLE business_settings
+  ADD COLUMN IF NOT EXISTS whatsapp_templates jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(whatsapp_templates) = 'array');
@@ -0,0 +1,56 @@
+/*
+  # Invoice Email Log
+
+  1. New Tables
+    - `invoice_emails`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders) - Order yang invoicenya dikirim
+      - `recipient` (text) - Alamat email tujuan
+      - `subject` (text) - Subjek email
+      - `status` (text) - pending (sedang dikirim), sent (terkirim) atau
+        failed (gagal)
+      - `error` (text, optional) - Pesan error dari server SMTP bila gagal
+      - `user_id` (uuid, foreign key to auth.users) - Pengguna yang mengirim
+      - `created_at` (timestamptz) - Waktu pengiriman diminta
+      - `sent_at` (timestamptz, optional) - Waktu diterima server SMTP
+
+  2. Important Notes
+    - Rows are only written by the `send-invoice-email` edge function with the
+      service role, after it has checked the caller's token, role and access
+      to the order
+    - A row is created before the SMTP call and updated with the result, so a
+      send that never finished stays visible as pending
+
+  3. Security
+    - Members can view the log; owner/admin/staff can send through the edge
+      function
+    - There are no insert or update policies, so clients cannot forge or
+      rewrite entries
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_emails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error text,
+  user_id uuid DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_emails_order_id ON invoice_emails(order_id);
+
+ALTER TABLE invoice_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view organization invoice emails"
+  ON invoice_emails FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = invoice_emails.order_id
+      AND orders.organization_id = current_org_id()
+    )
+  );
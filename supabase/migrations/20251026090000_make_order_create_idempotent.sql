@@ -0,0 +1,173 @@
+/*
+  # Idempotent Order Creation
+
+  1. Changes
+    - `save_order` accepts an optional `id` in `p_order` when creating an order
+      (`p_order_id` is null); the order is inserted with that id
+    - If an order with that id already exists, the call returns its id without
+      touching the order, items or adjustments again
+
+  2. Important Notes
+    - Orders queued offline get their id on the device; when a save commits but
+      the response is lost, the next sync sends the same id and does not create
+      a duplicate order
+    - Creates without an id keep getting a generated one, as before
+*/
+
+-- save_order keeps its signature; new orders may bring their own id
+CREATE OR REPLACE FUNCTION save_order(
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb,
+  p_adjustments jsonb DEFAULT '[]'::jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  saved_order_id uuid;
+  client_order_id uuid;
+  saved_item_ids uuid[] := '{}';
+  item jsonb;
+  item_id uuid;
+  adjustment jsonb;
+  adjustment_position bigint;
+  adjustment_id uuid;
+  adjustment_item_id uuid;
+BEGIN
+  IF jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order harus memiliki minimal satu item'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_order_id IS NULL THEN
+    client_order_id := NULLIF(p_order->>'id', '')::uuid;
+
+    INSERT INTO orders (
+      id, user_id, customer_name, customer_phone, customer_address,
+      rental_start_date, rental_end_date, notes
+    )
+    VALUES (
+      COALESCE(client_order_id, gen_random_uuid()),
+      auth.uid(),
+      p_order->>'customer_name',
+      p_order->>'customer_phone',
+      NULLIF(p_order->>'customer_address', ''),
+      (p_order->>'rental_start_date')::date,
+      (p_order->>'rental_end_date')::date,
+      NULLIF(p_order->>'notes', '')
+    )
+    ON CONFLICT (id) DO NOTHING
+    RETURNING id INTO saved_order_id;
+
+    -- Resent create: the first call already saved the order and its items
+    IF saved_order_id IS NULL THEN
+      RETURN client_order_id;
+    END IF;
+  ELSE
+    UPDATE orders
+    SET customer_name = p_order->>'customer_name',
+        customer_phone = p_order->>'customer_phone',
+        customer_address = NULLIF(p_order->>'customer_address', ''),
+        rental_start_date = (p_order->>'rental_start_date')::date,
+        rental_end_date = (p_order->>'rental_end_date')::date,
+        notes = NULLIF(p_order->>'notes', '')
+    WHERE id = p_order_id
+    RETURNING id INTO saved_order_id;
+
+    IF saved_order_id IS NULL THEN
+      RAISE EXCEPTION 'Order % tidak ditemukan', p_order_id
+        USING ERRCODE = 'no_data_found';
+    END IF;
+  END IF;
+
+  -- Remove items that are no longer in the form first, so their vehicles and drivers are free
+  DELETE FROM order_items
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_items)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    item_id := NULLIF(item->>'id', '')::uuid;
+
+    IF item_id IS NOT NULL THEN
+      UPDATE order_items
+      SET vehicle_id = NULLIF(item->>'vehicle_id', '')::uuid,
+          driver_id = NULLIF(item->>'driver_id', '')::uuid,
+          car_type = item->>'car_type',
+          quantity = (item->>'quantity')::integer,
+          daily_rate = (item->>'daily_rate')::numeric,
+          days = (item->>'days')::integer
+      WHERE id = item_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        saved_item_ids := saved_item_ids || item_id;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_items (order_id, vehicle_id, driver_id, car_type, quantity, daily_rate, days, subtotal)
+    VALUES (
+      saved_order_id,
+      NULLIF(item->>'vehicle_id', '')::uuid,
+      NULLIF(item->>'driver_id', '')::uuid,
+      item->>'car_type',
+      (item->>'quantity')::integer,
+      (item->>'daily_rate')::numeric,
+      (item->>'days')::integer,
+      0
+    )
+    RETURNING id INTO item_id;
+
+    saved_item_ids := saved_item_ids || item_id;
+  END LOOP;
+
+  -- Adjustments follow the same rule as items: update by id, delete the rest, insert new
+  DELETE FROM order_adjustments
+  WHERE order_id = saved_order_id
+    AND id NOT IN (
+      SELECT (value->>'id')::uuid
+      FROM jsonb_array_elements(p_adjustments)
+      WHERE NULLIF(value->>'id', '') IS NOT NULL
+    );
+
+  FOR adjustment, adjustment_position IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_adjustments) WITH ORDINALITY
+  LOOP
+    adjustment_id := NULLIF(adjustment->>'id', '')::uuid;
+    adjustment_item_id := saved_item_ids[(NULLIF(adjustment->>'item_index', ''))::integer + 1];
+
+    IF adjustment_id IS NOT NULL THEN
+      UPDATE order_adjustments
+      SET order_item_id = adjustment_item_id,
+          kind = adjustment->>'kind',
+          charge_type = NULLIF(adjustment->>'charge_type', ''),
+          label = adjustment->>'label',
+          calculation = adjustment->>'calculation',
+          value = (adjustment->>'value')::numeric,
+          sort_order = adjustment_position
+      WHERE id = adjustment_id AND order_id = saved_order_id;
+
+      IF FOUND THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    INSERT INTO order_adjustments (order_id, order_item_id, kind, charge_type, label, calculation, value, sort_order)
+    VALUES (
+      saved_order_id,
+      adjustment_item_id,
+      adjustment->>'kind',
+      NULLIF(adjustment->>'charge_type', ''),
+      adjustment->>'label',
+      adjustment->>'calculation',
+      (adjustment->>'value')::numeric,
+      adjustment_position
+    );
+  END LOOP;
+
+  RETURN saved_order_id;
+END;
+$$ LANGUAGE plpgsql;
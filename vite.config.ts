@@ -1,10 +1,40 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Daftar aset build dan versi cache ditulis ke sw.js, supaya aplikasi bisa dibuka offline
+// walau bundle belum pernah diambil lewat service worker
+const precacheServiceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const files = Object.keys(bundle)
+      .filter(name => name !== 'index.html' && !name.endsWith('.map'))
+      .map(name => `./${name}`)
+      .sort();
+    // Nama aset sudah memuat hash isinya, jadi cukup nama-nama itu yang di-hash
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+
+    const file = join(options.dir ?? 'dist', 'sw.js');
+    const source = readFileSync(file, 'utf8');
+    if (!source.includes("'__BUILD_VERSION__'") || !source.includes('[/* __BUILD_FILES__ */]')) {
+      throw new Error('sw.js tidak memiliki penanda __BUILD_VERSION__ / __BUILD_FILES__');
+    }
+    writeFileSync(
+      file,
+      source
+        .replace("'__BUILD_VERSION__'", JSON.stringify(version))
+        .replace('[/* __BUILD_FILES__ */]', JSON.stringify(files))
+    );
+  },
+});
+
 // Ganti 'repo-name' dengan nama repository GitHub-mu
 export default defineConfig({
   base: '/lajutuju/', // <- ini penting untuk GitHub Pages
-  plugins: [react()],
+  plugins: [react(), precacheServiceWorker()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },